@@ -3,20 +3,37 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { SpaceProvider } from "@/contexts/SpaceContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import { useRealtimeUpdates } from "@/hooks/use-realtime";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import ViewPhoto from "@/pages/view-photo";
 import ViewDateMemory from "@/pages/view-date-memory";
 import LoginPage from "@/pages/login";
+import RegisterPage from "@/pages/register";
 import ProfilePage from "@/pages/profile";
+import SearchPage from "@/pages/search";
+import Timeline from "@/pages/timeline";
+import CalendarPage from "@/pages/calendar";
+import TrashPage from "@/pages/trash";
+import DuplicatesPage from "@/pages/duplicates";
+
+// Subscribes to server push updates while someone is signed in
+function RealtimeUpdates() {
+  useRealtimeUpdates();
+  return null;
+}
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+      <SpaceProvider>
+        <RealtimeUpdates />
         <Switch>
           <Route path="/login" component={LoginPage} />
+          <Route path="/register" component={RegisterPage} />
           <Route path="/">
             <ProtectedRoute>
               <Home />
@@ -27,6 +44,31 @@ function App() {
               <ProfilePage />
             </ProtectedRoute>
           </Route>
+          <Route path="/timeline">
+            <ProtectedRoute>
+              <Timeline />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/calendar">
+            <ProtectedRoute>
+              <CalendarPage />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/trash">
+            <ProtectedRoute>
+              <TrashPage />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/duplicates">
+            <ProtectedRoute>
+              <DuplicatesPage />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/search">
+            <ProtectedRoute>
+              <SearchPage />
+            </ProtectedRoute>
+          </Route>
           <Route path="/photo/:id">
             <ProtectedRoute>
               <ViewPhoto />
@@ -40,6 +82,7 @@ function App() {
           <Route component={NotFound} />
         </Switch>
       <Toaster />
+      </SpaceProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
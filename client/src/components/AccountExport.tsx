@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Archive, Download, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { AccountExportJob } from "@shared/accountExport";
+
+// The last export is remembered so its download is still offered after leaving the page
+const EXPORT_STORAGE_KEY = "memri:account-export";
+
+export default function AccountExport() {
+  const { toast } = useToast();
+  const [exportId, setExportId] = useState<string | null>(() => localStorage.getItem(EXPORT_STORAGE_KEY));
+
+  // Polled while the archive is being built
+  const { data: job } = useQuery<AccountExportJob>({
+    queryKey: [API_ENDPOINTS.accountExportJob(exportId ?? "")],
+    enabled: !!exportId,
+    retry: false,
+    refetchInterval: (query) => query.state.data?.status === "pending" ? 2000 : false,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", API_ENDPOINTS.accountExport);
+      return await response.json() as AccountExportJob;
+    },
+    onSuccess: (data) => {
+      localStorage.setItem(EXPORT_STORAGE_KEY, data.id);
+      setExportId(data.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start export",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const isBuilding = exportMutation.isPending || job?.status === "pending";
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm border-[#E6B89C]/30 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-[#4A4A4A]">
+          <Archive className="w-5 h-5" />
+          Your Data
+        </CardTitle>
+        <CardDescription>
+          Download a backup of your profile and every memory you can see, with their photos and comments
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {job?.status === "ready" && (
+          <div className="flex items-center justify-between gap-4 rounded-md bg-[#88B9B0]/10 p-3">
+            <p className="text-sm text-[#4A4A4A]">
+              Your export from {new Date(job.createdAt).toLocaleString()} is ready
+              {job.size !== null && ` (${(job.size / 1024 / 1024).toFixed(1)} MB)`}.
+              It can be downloaded for a day.
+            </p>
+            <Button asChild size="sm" className="bg-[#88B9B0] hover:bg-[#88B9B0]/90 text-white">
+              <a href={API_ENDPOINTS.accountExportDownload(job.id)} download>
+                <Download className="w-4 h-4 mr-2" /> Download
+              </a>
+            </Button>
+          </div>
+        )}
+
+        {job?.status === "failed" && (
+          <p className="text-sm text-red-500">The export failed. Please try again.</p>
+        )}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => exportMutation.mutate()}
+          disabled={isBuilding}
+          className="border-[#9C7178] text-[#9C7178] hover:bg-[#9C7178] hover:text-white"
+        >
+          {isBuilding ? (
+            <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Preparing your export...</>
+          ) : (
+            <><Archive className="w-4 h-4 mr-2" /> {job ? "Export again" : "Export my data"}</>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { GripVertical } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { getImageUrl } from "@shared/images";
+import { Photo } from "@shared/schema";
+
+interface ArrangePhotosGridProps {
+  collectionId: number;
+  photos: Photo[];
+  onDone: () => void;
+}
+
+// Thumbnail grid whose photos can be dragged into a custom order. Nothing is
+// saved until "Save order", which also switches the memory to its custom order.
+export default function ArrangePhotosGrid({ collectionId, photos, onDone }: ArrangePhotosGridProps) {
+  const { toast } = useToast();
+  const [orderedIds, setOrderedIds] = useState(() => photos.map(photo => photo.id));
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+
+  // Photos uploaded while arranging go at the end; deleted ones drop out
+  const photosById = new Map(photos.map(photo => [photo.id, photo]));
+  const orderedPhotos = [
+    ...orderedIds.map(id => photosById.get(id)).filter((photo): photo is Photo => !!photo),
+    ...photos.filter(photo => !orderedIds.includes(photo.id)),
+  ];
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", API_ENDPOINTS.collectionPhotoOrder(collectionId), {
+      photoIds: orderedPhotos.map(photo => photo.id),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionPhotos(collectionId)] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collection(collectionId)] });
+      toast({
+        title: "Order saved",
+        description: "The photos now show in your order.",
+      });
+      onDone();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save order",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Moves the dragged photo into the place of the one it's held over
+  const handleDragOver = (e: React.DragEvent, targetId: number) => {
+    e.preventDefault();
+    if (draggedId === null || draggedId === targetId) return;
+
+    setOrderedIds(() => {
+      const current = orderedPhotos.map(photo => photo.id);
+      const next = current.filter(id => id !== draggedId);
+      next.splice(current.indexOf(targetId), 0, draggedId);
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-2">Drag the photos into the order the memory should tell them.</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 gap-2">
+        {orderedPhotos.map((photo, index) => (
+          <div
+            key={photo.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDraggedId(photo.id);
+            }}
+            onDragOver={(e) => handleDragOver(e, photo.id)}
+            onDrop={(e) => e.preventDefault()}
+            onDragEnd={() => setDraggedId(null)}
+            className={`relative cursor-grab overflow-hidden rounded-md border-2 border-dashed border-[#E6B89C] active:cursor-grabbing ${
+              draggedId === photo.id ? 'opacity-40' : ''
+            }`}
+          >
+            <img
+              src={getImageUrl(photo.filePath, "thumbnail")}
+              alt={photo.title || `Photo ${index + 1}`}
+              draggable={false}
+              className="w-full h-20 object-cover"
+            />
+            <span className="absolute top-1 left-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-black/50 px-1 text-xs text-white">
+              {index + 1}
+            </span>
+            <GripVertical className="absolute top-1 right-1 h-4 w-4 text-white drop-shadow" />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <Button variant="outline" size="sm" onClick={onDone} disabled={saveMutation.isPending}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          className="bg-[#9C7178] hover:bg-opacity-90 text-white"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+        >
+          {saveMutation.isPending ? "Saving..." : "Save order"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import TagInput from "@/components/TagInput";
+import MovePhotosModal from "@/components/modals/MovePhotosModal";
+import CoverPhotoModal from "@/components/modals/CoverPhotoModal";
+import { BookImage, CheckSquare, Download, FolderInput, Heart, HeartOff, Tag as TagIcon, Trash2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { Photo } from "@shared/schema";
+
+interface BulkPhotoToolbarProps {
+  photos: Photo[];
+  selectedIds: number[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: () => void;
+  // The memory the grid shows, if it shows just one
+  collectionId?: number | null;
+  spaceId?: number | null;
+}
+
+function describeCount(count: number) {
+  return count === 1 ? "1 photo" : `${count} photos`;
+}
+
+export default function BulkPhotoToolbar({ photos, selectedIds, onSelectAll, onClear, onDone, collectionId, spaceId }: BulkPhotoToolbarProps) {
+  const { toast } = useToast();
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+  const [isCoverModalOpen, setIsCoverModalOpen] = useState(false);
+  const [isTagPopoverOpen, setIsTagPopoverOpen] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+
+  const selectedPhotos = photos.filter(photo => selectedIds.includes(photo.id));
+  const hasSelection = selectedIds.length > 0;
+
+  // Everything a batch action can change in the grids and lists around it
+  const invalidatePhotos = () => {
+    [
+      API_ENDPOINTS.photos,
+      ...Array.from(new Set(selectedPhotos.map(photo => photo.collectionId)))
+        .filter((id): id is number => !!id)
+        .map(id => API_ENDPOINTS.collectionPhotos(id)),
+      ...selectedIds.map(id => API_ENDPOINTS.photoReactions(id)),
+      ...selectedIds.map(id => API_ENDPOINTS.photoTags(id)),
+      API_ENDPOINTS.collectionsWithThumbnails,
+      API_ENDPOINTS.collectionsInRange,
+      API_ENDPOINTS.timeline,
+      API_ENDPOINTS.tags,
+      API_ENDPOINTS.trash,
+    ].forEach(endpoint => queryClient.invalidateQueries({ queryKey: [endpoint] }));
+  };
+
+  const handleError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", API_ENDPOINTS.batchDeletePhotos, { photoIds: selectedIds }),
+    onSuccess: () => {
+      toast({
+        title: "Moved to trash",
+        description: `${describeCount(selectedIds.length)} can be restored from the trash.`,
+      });
+      invalidatePhotos();
+      setIsConfirmingDelete(false);
+      onClear();
+    },
+    onError: (error) => {
+      handleError("Failed to delete photos")(error);
+      setIsConfirmingDelete(false);
+    },
+  });
+
+  const likeMutation = useMutation({
+    mutationFn: (liked: boolean) => apiRequest("POST", API_ENDPOINTS.batchLikePhotos, { photoIds: selectedIds, liked }),
+    onSuccess: (_response, liked) => {
+      toast({
+        title: liked ? "Photos liked" : "Likes removed",
+        description: `${describeCount(selectedIds.length)} ${liked ? "liked" : "unliked"}.`,
+      });
+      invalidatePhotos();
+    },
+    onError: handleError("Failed to update likes"),
+  });
+
+  const tagMutation = useMutation({
+    mutationFn: () => apiRequest("POST", API_ENDPOINTS.batchTagPhotos, { photoIds: selectedIds, tags }),
+    onSuccess: () => {
+      toast({
+        title: "Tags added",
+        description: `Tagged ${describeCount(selectedIds.length)}.`,
+      });
+      invalidatePhotos();
+      setTags([]);
+      setIsTagPopoverOpen(false);
+    },
+    onError: handleError("Failed to tag photos"),
+  });
+
+  // Downloads the originals one after another; browsers may ask once to allow several downloads
+  const handleDownload = () => {
+    selectedPhotos.forEach((photo, index) => {
+      setTimeout(() => {
+        const link = document.createElement("a");
+        const filePath = photo.originalPath ?? photo.filePath;
+        link.href = filePath;
+        link.download = filePath.split("/").pop() ?? photo.fileName;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+      }, index * 300);
+    });
+  };
+
+  const handleDelete = () => {
+    if (isConfirmingDelete) {
+      deleteMutation.mutate();
+    } else {
+      setIsConfirmingDelete(true);
+    }
+  };
+
+  const isBusy = deleteMutation.isPending || likeMutation.isPending || tagMutation.isPending;
+
+  return (
+    <>
+      <div className="fixed bottom-4 left-1/2 z-40 -translate-x-1/2 w-[calc(100%-2rem)] max-w-3xl">
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-[#E6B89C]/50 bg-white/95 p-3 shadow-lg backdrop-blur-sm font-lato">
+          <span className="mr-auto font-quicksand font-semibold text-[#4A4A4A]">
+            {hasSelection ? `${describeCount(selectedIds.length)} selected` : "Select photos"}
+          </span>
+
+          <Button size="sm" variant="ghost" onClick={selectedIds.length === photos.length ? onClear : onSelectAll}>
+            <CheckSquare className="mr-1 h-4 w-4" />
+            {selectedIds.length === photos.length ? "Select none" : "Select all"}
+          </Button>
+
+          <Button size="sm" variant="outline" onClick={() => likeMutation.mutate(true)} disabled={!hasSelection || isBusy} title="Like">
+            <Heart className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => likeMutation.mutate(false)} disabled={!hasSelection || isBusy} title="Remove like">
+            <HeartOff className="h-4 w-4" />
+          </Button>
+
+          <Popover open={isTagPopoverOpen} onOpenChange={setIsTagPopoverOpen}>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="outline" disabled={!hasSelection || isBusy} title="Add tags">
+                <TagIcon className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 space-y-3" side="top">
+              <p className="text-sm font-quicksand font-semibold">Add tags to {describeCount(selectedIds.length)}</p>
+              <TagInput value={tags} onChange={setTags} spaceId={spaceId} />
+              <Button
+                size="sm"
+                className="w-full bg-[#9C7178] hover:bg-opacity-90 text-white"
+                onClick={() => tagMutation.mutate()}
+                disabled={tags.length === 0 || tagMutation.isPending}
+              >
+                {tagMutation.isPending ? "Adding..." : "Add tags"}
+              </Button>
+            </PopoverContent>
+          </Popover>
+
+          <Button size="sm" variant="outline" onClick={handleDownload} disabled={!hasSelection} title="Download">
+            <Download className="h-4 w-4" />
+          </Button>
+
+          <Button size="sm" variant="outline" onClick={() => setIsMoveModalOpen(true)} disabled={!hasSelection || isBusy} title="Move to memory…">
+            <FolderInput className="h-4 w-4" />
+          </Button>
+
+          {collectionId && (
+            <Button size="sm" variant="outline" onClick={() => setIsCoverModalOpen(true)} disabled={selectedPhotos.length !== 1 || isBusy} title="Set as cover">
+              <BookImage className="h-4 w-4" />
+            </Button>
+          )}
+
+          <Button
+            size="sm"
+            variant={isConfirmingDelete ? "destructive" : "outline"}
+            onClick={handleDelete}
+            disabled={!hasSelection || isBusy}
+            title="Move to trash"
+          >
+            <Trash2 className="h-4 w-4" />
+            {isConfirmingDelete && <span className="ml-1">Move to Trash?</span>}
+          </Button>
+
+          <Button size="sm" variant="ghost" onClick={onDone} title="Done selecting">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isMoveModalOpen && (
+        <MovePhotosModal
+          photoIds={selectedIds}
+          currentCollectionId={collectionId}
+          isOpen={isMoveModalOpen}
+          onClose={() => setIsMoveModalOpen(false)}
+          onTransferred={(mode) => mode === "move" && onClear()}
+        />
+      )}
+
+      {isCoverModalOpen && collectionId && selectedPhotos.length === 1 && (
+        <CoverPhotoModal
+          collectionId={collectionId}
+          photo={selectedPhotos[0]}
+          isOpen={isCoverModalOpen}
+          onClose={() => setIsCoverModalOpen(false)}
+        />
+      )}
+    </>
+  );
+}
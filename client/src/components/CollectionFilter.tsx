@@ -1,21 +1,56 @@
 import { HandDrawn } from "@/components/ui/hand-drawn";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search } from "lucide-react";
+import { Search, ArrowRight, Tag as TagIcon, X } from "lucide-react";
+import { useLocation } from "wouter";
+import { TagWithUsage } from "@shared/schema";
 
 interface SimplifiedFilterProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
   sortOrder: string;
   onSortChange: (order: string) => void;
+  tags: TagWithUsage[];
+  selectedTags: string[];
+  onSelectedTagsChange: (tags: string[]) => void;
 }
 
+// Only the most used tags get a chip so the filter bar stays short
+const MAX_TAG_CHIPS = 12;
+
 export default function SimplifiedFilter({
   searchQuery,
   onSearchChange,
   sortOrder,
-  onSortChange
+  onSortChange,
+  tags,
+  selectedTags,
+  onSelectedTagsChange
 }: SimplifiedFilterProps) {
+  const [, navigate] = useLocation();
+  const trimmedQuery = searchQuery.trim();
+
+  // The box filters memories as you type; Enter searches photos and comments too
+  const searchEverything = () => {
+    if (trimmedQuery.length >= 2) {
+      navigate(`/search?q=${encodeURIComponent(trimmedQuery)}`);
+    }
+  };
+
+  const toggleTag = (name: string) => {
+    onSelectedTagsChange(
+      selectedTags.includes(name)
+        ? selectedTags.filter(tag => tag !== name)
+        : [...selectedTags, name]
+    );
+  };
+
+  // Selected tags always stay visible, even if they aren't among the most used
+  const chipTags = [
+    ...tags.filter(tag => selectedTags.includes(tag.name)),
+    ...tags.filter(tag => !selectedTags.includes(tag.name)),
+  ].slice(0, Math.max(MAX_TAG_CHIPS, selectedTags.length));
+
   return (
     <section className="container mx-auto px-4 py-8">
       <div className="flex flex-wrap items-center justify-between mb-6">
@@ -33,9 +68,24 @@ export default function SimplifiedFilter({
                 className="pl-10 pr-4 py-2 bg-white border border-[#E6B89C] font-lato"
                 value={searchQuery}
                 onChange={(e) => onSearchChange(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    searchEverything();
+                  }
+                }}
               />
             </div>
           </HandDrawn>
+          {trimmedQuery.length >= 2 && (
+            <button
+              type="button"
+              onClick={searchEverything}
+              className="mt-2 flex items-center text-sm text-[#9C7178] hover:underline"
+            >
+              Search photos and comments for "{trimmedQuery}"
+              <ArrowRight className="ml-1 h-3 w-3" />
+            </button>
+          )}
         </div>
         
         <div className="flex items-center">
@@ -54,6 +104,42 @@ export default function SimplifiedFilter({
           </HandDrawn>
         </div>
       </div>
+
+      {chipTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {chipTags.map(tag => {
+            const selected = selectedTags.includes(tag.name);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggleTag(tag.name)}
+                aria-pressed={selected}
+                className={`flex items-center gap-1 rounded-full border px-3 py-1 text-sm transition-colors ${
+                  selected
+                    ? 'border-[#88B9B0] bg-[#88B9B0] text-white'
+                    : 'border-[#E6B89C] bg-white text-[#4A4A4A] hover:bg-[#F4F1EA]'
+                }`}
+              >
+                <TagIcon className="h-3 w-3" />
+                {tag.name}
+                <span className={selected ? 'text-white/80' : 'text-gray-500'}>
+                  {tag.photoCount + tag.collectionCount}
+                </span>
+              </button>
+            );
+          })}
+          {selectedTags.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onSelectedTagsChange([])}
+              className="flex items-center text-sm text-gray-500 hover:text-[#9C7178]"
+            >
+              <X className="mr-1 h-3 w-3" /> Clear tags
+            </button>
+          )}
+        </div>
+      )}
     </section>
   );
 }
@@ -10,7 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { MessageCircle, Send, Trash2, Edit, MoreVertical, X } from "lucide-react";
+import { MessageCircle, Send, Trash2, Edit, MoreVertical, X, Reply, ChevronDown, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger, DropdownMenuItem } from "@/components/ui/dropdown-menu";
 import { HandDrawn } from "@/components/ui/hand-drawn";
@@ -24,6 +24,34 @@ interface CommentWithUser extends Comment {
   } | null;
 }
 
+interface CommentNode extends CommentWithUser {
+  replies: CommentNode[];
+}
+
+// Replies nest visually up to this depth; deeper replies line up with their parent
+const MAX_INDENT_DEPTH = 3;
+
+// The API returns comments flat; nest replies under their parents, oldest first
+function buildCommentTree(comments: CommentWithUser[]): CommentNode[] {
+  const nodes = new Map<number, CommentNode>();
+  comments.forEach(comment => nodes.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+}
+
+function countReplies(node: CommentNode): number {
+  return node.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+}
+
 interface CommentsSidebarProps {
   photoId: string;
   photoTitle?: string;
@@ -37,6 +65,8 @@ export function CommentsSidebar({ photoId, photoTitle, isOpen, onOpenChange, isD
   const [newComment, setNewComment] = useState("");
   const [editingComment, setEditingComment] = useState<{ id: number; content: string } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<{ id: number; content: string } | null>(null);
+  const [collapsedThreads, setCollapsedThreads] = useState<Set<number>>(new Set());
 
   // Fetch comments
   const {
@@ -71,6 +101,29 @@ export function CommentsSidebar({ photoId, photoTitle, isOpen, onOpenChange, isD
     }
   });
 
+  // Reply to comment mutation
+  const replyMutation = useMutation({
+    mutationFn: ({ id, content }: { id: number; content: string }) =>
+      apiRequest("POST", API_ENDPOINTS.commentReplies(photoId, id), { content }),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photoComments(photoId)] });
+      setReplyingTo(null);
+      // Make sure the new reply is visible
+      setCollapsedThreads(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add reply",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Update comment mutation
   const updateCommentMutation = useMutation({
     mutationFn: ({ id, content }: { id: number; content: string }) => 
@@ -132,6 +185,30 @@ export function CommentsSidebar({ photoId, photoTitle, isOpen, onOpenChange, isD
     deleteCommentMutation.mutate(commentId);
   };
 
+  const handleSubmitReply = () => {
+    if (!replyingTo || !replyingTo.content.trim()) return;
+
+    replyMutation.mutate({
+      id: replyingTo.id,
+      content: replyingTo.content.trim()
+    });
+  };
+
+  const toggleThread = (commentId: number) => {
+    setCollapsedThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
+  const commentTree = buildCommentTree(comments);
+  const visibleCommentCount = comments.filter(comment => !comment.deletedAt).length;
+
   const formatCommentDate = (dateString: string | null) => {
     if (!dateString) return "Unknown date";
     const date = new Date(dateString);
@@ -146,6 +223,159 @@ export function CommentsSidebar({ photoId, photoTitle, isOpen, onOpenChange, isD
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
+  const renderComment = (comment: CommentNode, depth: number): JSX.Element => {
+    const isDeleted = !!comment.deletedAt;
+    const isCollapsed = collapsedThreads.has(comment.id);
+    const replyCount = countReplies(comment);
+
+    return (
+      <div key={comment.id} className="space-y-2">
+        <HandDrawn className={`p-3 ${isDeleted ? 'bg-gray-50' : 'bg-white'}`}>
+          <div className="flex gap-3">
+            <Avatar className="w-8 h-8 flex-shrink-0">
+              <AvatarImage 
+                src={comment.user?.profilePicture || undefined} 
+                alt={comment.user?.displayName || "User"} 
+              />
+              <AvatarFallback className="bg-[#E6B89C] text-white text-xs">
+                {comment.user?.displayName?.charAt(0) || "?"}
+              </AvatarFallback>
+            </Avatar>
+            
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-sm font-medium text-[#4A4A4A]">
+                  {isDeleted ? "" : comment.user?.displayName || "Unknown User"}
+                </p>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-gray-400">
+                    {formatCommentDate(comment.createdAt ? comment.createdAt.toString() : null)}
+                  </span>
+                  
+                  {comment.user && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                          <MoreVertical className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => setEditingComment({ id: comment.id, content: comment.content })}
+                          className="flex items-center gap-2"
+                        >
+                          <Edit className="h-3 w-3" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleDeleteComment(comment.id)}
+                          className="flex items-center gap-2 text-red-600"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              </div>
+              
+              {editingComment && editingComment.id === comment.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editingComment.content}
+                    onChange={(e) => setEditingComment({ ...editingComment, content: e.target.value })}
+                    className="min-h-[60px] text-sm"
+                    placeholder="Update your comment..."
+                  />
+                  <div className="flex gap-2">
+                    <Button 
+                      size="sm" 
+                      onClick={handleUpdateComment}
+                      disabled={updateCommentMutation.isPending}
+                      className="bg-[#88B9B0] hover:bg-opacity-90 text-white"
+                    >
+                      {updateCommentMutation.isPending ? "Saving..." : "Save"}
+                    </Button>
+                    <Button 
+                      size="sm" 
+                      variant="outline" 
+                      onClick={() => setEditingComment(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className={`text-sm whitespace-pre-wrap ${isDeleted ? 'italic text-gray-400' : 'text-[#4A4A4A]'}`}>
+                  {comment.content}
+                </p>
+              )}
+
+              <div className="flex items-center gap-3 mt-2">
+                {!isDeleted && (
+                  <button
+                    className="flex items-center gap-1 text-xs text-gray-500 hover:text-[#9C7178]"
+                    onClick={() => setReplyingTo({ id: comment.id, content: "" })}
+                  >
+                    <Reply className="h-3 w-3" />
+                    Reply
+                  </button>
+                )}
+                {replyCount > 0 && (
+                  <button
+                    className="flex items-center gap-1 text-xs text-gray-500 hover:text-[#9C7178]"
+                    onClick={() => toggleThread(comment.id)}
+                  >
+                    {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                    {isCollapsed
+                      ? `Show ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`
+                      : 'Hide replies'}
+                  </button>
+                )}
+              </div>
+
+              {replyingTo && replyingTo.id === comment.id && (
+                <div className="space-y-2 mt-2">
+                  <Textarea
+                    value={replyingTo.content}
+                    onChange={(e) => setReplyingTo({ ...replyingTo, content: e.target.value })}
+                    className="min-h-[60px] text-sm"
+                    placeholder={`Reply to ${comment.user?.displayName || "this comment"}...`}
+                    autoFocus
+                  />
+                  <div className="flex gap-2">
+                    <Button 
+                      size="sm" 
+                      onClick={handleSubmitReply}
+                      disabled={!replyingTo.content.trim() || replyingTo.content.length > 500 || replyMutation.isPending}
+                      className="bg-[#88B9B0] hover:bg-opacity-90 text-white"
+                    >
+                      {replyMutation.isPending ? "Replying..." : "Reply"}
+                    </Button>
+                    <Button 
+                      size="sm" 
+                      variant="outline" 
+                      onClick={() => setReplyingTo(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </HandDrawn>
+
+        {!isCollapsed && comment.replies.length > 0 && (
+          <div className={depth < MAX_INDENT_DEPTH ? "ml-4 pl-3 border-l-2 border-[#E6B89C]/40 space-y-2" : "space-y-2"}>
+            {comment.replies.map(reply => renderComment(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const content = (
     <div className="flex flex-col h-full">
       <div className="p-4 pb-2 border-b">
@@ -187,92 +417,7 @@ export function CommentsSidebar({ photoId, photoTitle, isOpen, onOpenChange, isD
         
         {!commentsLoading && !commentsError && comments.length > 0 && (
           <div className="space-y-4">
-            {comments.map((comment) => (
-              <HandDrawn key={comment.id} className="bg-white p-3">
-                <div className="flex gap-3">
-                  <Avatar className="w-8 h-8 flex-shrink-0">
-                    <AvatarImage 
-                      src={comment.user?.profilePicture || undefined} 
-                      alt={comment.user?.displayName || "User"} 
-                    />
-                    <AvatarFallback className="bg-[#E6B89C] text-white text-xs">
-                      {comment.user?.displayName?.charAt(0) || "?"}
-                    </AvatarFallback>
-                  </Avatar>
-                  
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between mb-1">
-                      <p className="text-sm font-medium text-[#4A4A4A]">
-                        {comment.user?.displayName || "Unknown User"}
-                      </p>
-                      <div className="flex items-center gap-1">
-                        <span className="text-xs text-gray-400">
-                          {formatCommentDate(comment.createdAt ? comment.createdAt.toString() : null)}
-                        </span>
-                        
-                        {comment.user && (
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                                <MoreVertical className="h-3 w-3" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem
-                                onClick={() => setEditingComment({ id: comment.id, content: comment.content })}
-                                className="flex items-center gap-2"
-                              >
-                                <Edit className="h-3 w-3" />
-                                Edit
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => handleDeleteComment(comment.id)}
-                                className="flex items-center gap-2 text-red-600"
-                              >
-                                <Trash2 className="h-3 w-3" />
-                                Delete
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        )}
-                      </div>
-                    </div>
-                    
-                    {editingComment && editingComment.id === comment.id ? (
-                      <div className="space-y-2">
-                        <Textarea
-                          value={editingComment.content}
-                          onChange={(e) => setEditingComment({ ...editingComment, content: e.target.value })}
-                          className="min-h-[60px] text-sm"
-                          placeholder="Update your comment..."
-                        />
-                        <div className="flex gap-2">
-                          <Button 
-                            size="sm" 
-                            onClick={handleUpdateComment}
-                            disabled={updateCommentMutation.isPending}
-                            className="bg-[#88B9B0] hover:bg-opacity-90 text-white"
-                          >
-                            {updateCommentMutation.isPending ? "Saving..." : "Save"}
-                          </Button>
-                          <Button 
-                            size="sm" 
-                            variant="outline" 
-                            onClick={() => setEditingComment(null)}
-                          >
-                            Cancel
-                          </Button>
-                        </div>
-                      </div>
-                    ) : (
-                      <p className="text-sm text-[#4A4A4A] whitespace-pre-wrap">
-                        {comment.content}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </HandDrawn>
-            ))}
+            {commentTree.map(comment => renderComment(comment, 0))}
           </div>
         )}
       </ScrollArea>
@@ -340,7 +485,7 @@ export function CommentsSidebar({ photoId, photoTitle, isOpen, onOpenChange, isD
       <SheetTrigger asChild>
         <Button variant="outline" className="flex items-center gap-2">
           <MessageCircle className="h-5 w-5" />
-          Comments {comments.length > 0 && `(${comments.length})`}
+          Comments {visibleCommentCount > 0 && `(${visibleCommentCount})`}
         </Button>
       </SheetTrigger>
       <SheetContent side="right" className="w-[400px] sm:w-[440px] p-0">
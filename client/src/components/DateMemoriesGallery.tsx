@@ -1,24 +1,19 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
 import { Collection } from "@shared/schema";
+import { getImageUrl, getImageSrcSet, getObjectPosition, FocusPoint } from "@shared/images";
 import { HandDrawn } from "@/components/ui/hand-drawn";
 import { Button } from "@/components/ui/button";
 import { Heart, Edit, Maximize, Calendar, Image } from "lucide-react";
-import { formatDate } from "@/lib/constants";
+import { formatDate, GALLERY_IMAGE_SIZES } from "@/lib/constants";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { API_ENDPOINTS } from "@/lib/constants";
 import { Skeleton } from "@/components/ui/skeleton";
 
-// Extend the Collection type to include date property and thumbnailUrl
-interface DateMemory extends Collection {
-  date?: string;
-  thumbnailUrl?: string;
-}
-
 interface DateMemoriesGalleryProps {
-  dateMemories: (Collection & { thumbnailUrl?: string })[];
+  dateMemories: (Collection & { thumbnailUrl?: string; thumbnailFocus?: FocusPoint })[];
   isLoading: boolean;
   onCreateCollection: () => void;
 }
@@ -27,7 +22,7 @@ export default function DateMemoriesGallery({ dateMemories, isLoading, onCreateC
   const [, navigate] = useLocation();
 
   // Get thumbnail URL - use first photo or placeholder
-  const getThumbnailUrl = (memory: Collection & { thumbnailUrl?: string }) => {
+  const getThumbnailUrl = (memory: Collection & { thumbnailUrl?: string; thumbnailFocus?: FocusPoint }) => {
     return memory.thumbnailUrl || 'https://placehold.co/600x400';
   };
 
@@ -85,8 +80,6 @@ export default function DateMemoriesGallery({ dateMemories, isLoading, onCreateC
     <section className="container mx-auto px-4 py-6 relative">
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
         {dateMemories.map((memory, index) => {
-          // Cast to DateMemory to handle the date property
-          const dateMemory = memory as DateMemory;
           return (
             <div 
               key={memory.id} 
@@ -95,9 +88,13 @@ export default function DateMemoriesGallery({ dateMemories, isLoading, onCreateC
             >
               <div className="relative overflow-hidden" style={{ height: "220px" }}>
                 <img 
-                  src={getThumbnailUrl(memory)}
+                  src={getImageUrl(getThumbnailUrl(memory), "medium")}
+                  srcSet={getImageSrcSet(getThumbnailUrl(memory))}
+                  sizes={GALLERY_IMAGE_SIZES}
                   alt={memory.name} 
+                  loading="lazy"
                   className="w-full h-full object-cover transition-transform duration-300 hover:scale-105"
+                  style={{ objectPosition: getObjectPosition(memory.thumbnailFocus) }}
                 />
                 <div className="absolute bottom-0 right-0 bg-white bg-opacity-80 px-2 py-1 m-2 rounded text-xs flex items-center">
                   <Image size={12} className="mr-1" />
@@ -110,7 +107,7 @@ export default function DateMemoriesGallery({ dateMemories, isLoading, onCreateC
                 <div className="flex justify-between items-center">
                   <span className="text-xs text-gray-500 flex items-center">
                     <Calendar className="h-3 w-3 mr-1" />
-                    {dateMemory.date ? formatDate(dateMemory.date) : formatDate(memory.createdAt || new Date())}
+                    {formatDate(memory.memoryDate)}
                   </span>
                   <div className="flex space-x-2">
                     <button className="text-[#88B9B0] hover:text-opacity-80">
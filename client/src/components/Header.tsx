@@ -1,14 +1,19 @@
 import { HandDrawn } from "@/components/ui/hand-drawn";
 import { Button } from "@/components/ui/button";
-import { Camera, BookOpen, Compass, Plus } from "lucide-react";
+import { Camera, BookOpen, Compass, Plus, History, CalendarDays } from "lucide-react";
+import { useLocation } from "wouter";
 import { motion } from "framer-motion";
 import UserAccountMenu from "@/components/UserAccountMenu";
+import NotificationBell from "@/components/NotificationBell";
+import SpaceSwitcher from "@/components/SpaceSwitcher";
 
 interface HeaderProps {
   onCreateCollection: () => void;
 }
 
 export default function Header({ onCreateCollection }: HeaderProps) {
+  const [, navigate] = useLocation();
+
   return (
     <header className="relative overflow-hidden">
       {/* Cloud decoration */}
@@ -50,6 +55,8 @@ export default function Header({ onCreateCollection }: HeaderProps) {
           <h1 className="font-quicksand font-bold text-2xl md:text-3xl text-[#9C7178]">Our Date Gallery</h1>
         </div>
         <div className="flex items-center gap-4">
+          <SpaceSwitcher />
+          <NotificationBell />
           <UserAccountMenu />
           <HandDrawn>
             <Button 
@@ -72,10 +79,31 @@ export default function Header({ onCreateCollection }: HeaderProps) {
         </p>
         <div className="flex flex-wrap justify-center gap-4">
           <HandDrawn>
-            <Button className="bg-[#88B9B0] hover:bg-opacity-90 text-white px-6 py-6 font-quicksand text-lg">
+            <Button
+              className="bg-[#88B9B0] hover:bg-opacity-90 text-white px-6 py-6 font-quicksand text-lg"
+              onClick={() => navigate("/")}
+            >
               <BookOpen className="mr-2 h-5 w-5" /> Our Dates
             </Button>
           </HandDrawn>
+          <HandDrawn>
+            <Button
+              variant="outline"
+              className="bg-white border-2 border-[#9C7178] hover:bg-[#9C7178] hover:bg-opacity-10 text-[#9C7178] px-6 py-6 font-quicksand text-lg"
+              onClick={() => navigate("/timeline")}
+            >
+              <History className="mr-2 h-5 w-5" /> Timeline
+            </Button>
+          </HandDrawn>
+          <HandDrawn>
+            <Button
+              variant="outline"
+              className="bg-white border-2 border-[#E6B89C] hover:bg-[#E6B89C] hover:bg-opacity-10 text-[#9C7178] px-6 py-6 font-quicksand text-lg"
+              onClick={() => navigate("/calendar")}
+            >
+              <CalendarDays className="mr-2 h-5 w-5" /> Calendar
+            </Button>
+          </HandDrawn>
           <HandDrawn>
             <Button 
               variant="outline" 
@@ -0,0 +1,164 @@
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Bell } from "lucide-react";
+import { useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { Notification } from "@shared/schema";
+
+interface NotificationWithDetails extends Notification {
+  actor: { id: number; username: string; displayName: string; profilePicture: string | null } | null;
+  collection: { id: number; name: string } | null;
+  photo: { id: number; title: string } | null;
+}
+
+interface NotificationsResponse {
+  notifications: NotificationWithDetails[];
+  unreadCount: number;
+}
+
+function describeNotification(notification: NotificationWithDetails) {
+  const actor = notification.actor?.displayName || "Someone";
+  const photo = notification.photo?.title ? `"${notification.photo.title}"` : "a photo";
+  const memory = notification.collection?.name || "a memory";
+
+  switch (notification.type) {
+    case "comment":
+      return `${actor} commented on ${photo}`;
+    case "reply":
+      return `${actor} replied to your comment on ${photo}`;
+    case "photos_added":
+      return notification.count > 1
+        ? `${actor} added ${notification.count} photos to ${memory}`
+        : `${actor} added a photo to ${memory}`;
+    case "invitation":
+      return `${actor} invited you to ${memory}`;
+    case "invitation_accepted":
+      return `${actor} joined ${memory}`;
+  }
+}
+
+// Comments open the photo; everything else opens the memory.
+// Invitations go home, where they can be accepted.
+function getNotificationLink(notification: NotificationWithDetails) {
+  if ((notification.type === "comment" || notification.type === "reply") && notification.photoId) {
+    return `/photo/${notification.photoId}`;
+  }
+  if (notification.type !== "invitation" && notification.collectionId) {
+    return `/date-memory/${notification.collectionId}`;
+  }
+  return "/";
+}
+
+export default function NotificationBell() {
+  const [, navigate] = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data } = useQuery<NotificationsResponse>({
+    queryKey: [API_ENDPOINTS.notifications],
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("PATCH", API_ENDPOINTS.notification(id), { read: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.notifications] });
+    }
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest("PATCH", API_ENDPOINTS.notifications, { read: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.notifications] });
+    }
+  });
+
+  const handleNotificationClick = (notification: NotificationWithDetails) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    setIsOpen(false);
+    navigate(getNotificationLink(notification));
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="relative h-10 w-10 rounded-full border-2 border-[#9C7178]/20 hover:border-[#9C7178]/40 bg-white flex items-center justify-center transition-colors focus:outline-none focus:ring-2 focus:ring-[#9C7178]/50 focus:ring-offset-2"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-5 w-5 text-[#9C7178]" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-[#9C7178] text-white text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 font-lato">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-quicksand font-semibold text-[#4A4A4A]">Notifications</p>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-[#9C7178]"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center">
+            <Bell className="h-8 w-8 text-gray-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-500">You're all caught up</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => handleNotificationClick(notification)}
+                className={`w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-[#F4F1EA] transition-colors ${
+                  notification.readAt ? '' : 'bg-[#E6B89C]/10'
+                }`}
+              >
+                <Avatar className="h-8 w-8 flex-shrink-0">
+                  <AvatarImage
+                    src={notification.actor?.profilePicture || undefined}
+                    alt={notification.actor?.displayName || "User"}
+                  />
+                  <AvatarFallback className="bg-[#E6B89C] text-white text-xs">
+                    {notification.actor?.displayName?.charAt(0) || "?"}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-[#4A4A4A]">{describeNotification(notification)}</p>
+                  {notification.createdAt && (
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                {!notification.readAt && (
+                  <span className="mt-1.5 h-2 w-2 rounded-full bg-[#9C7178] flex-shrink-0" />
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
+import { History, X } from "lucide-react";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { getImageUrl } from "@shared/images";
+import { OnThisDayResponse } from "@shared/memories";
+import { useSpace } from "@/contexts/SpaceContext";
+
+const INCLUDE_WEEK_STORAGE_KEY = "memri:onThisDayIncludeWeek";
+const DISMISSED_STORAGE_KEY = "memri:onThisDayDismissed";
+
+function describeYearsAgo(yearsAgo: number) {
+  return yearsAgo === 1 ? "1 year ago" : `${yearsAgo} years ago`;
+}
+
+export default function OnThisDayBanner() {
+  const [, navigate] = useLocation();
+  const { currentSpace } = useSpace();
+  // The user's own calendar day, not the server's
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [includeWeek, setIncludeWeek] = useState(() => localStorage.getItem(INCLUDE_WEEK_STORAGE_KEY) === "true");
+  // Dismissing hides the banner until tomorrow
+  const [dismissedOn, setDismissedOn] = useState(() => localStorage.getItem(DISMISSED_STORAGE_KEY));
+
+  const { data: dayMemories } = useQuery<OnThisDayResponse>({
+    queryKey: [API_ENDPOINTS.onThisDay(today, false, currentSpace?.id)],
+    enabled: dismissedOn !== today && !includeWeek,
+  });
+
+  const dayIsEmpty = !!dayMemories && dayMemories.collections.length === 0 && dayMemories.photos.length === 0;
+
+  // Fall back to the surrounding week when nothing happened on this exact day
+  const { data: weekMemories } = useQuery<OnThisDayResponse>({
+    queryKey: [API_ENDPOINTS.onThisDay(today, true, currentSpace?.id)],
+    enabled: dismissedOn !== today && (includeWeek || dayIsEmpty),
+  });
+
+  const memories = includeWeek || dayIsEmpty ? weekMemories : dayMemories;
+  const showingWeek = includeWeek || dayIsEmpty;
+
+  if (dismissedOn === today || !memories || (memories.collections.length === 0 && memories.photos.length === 0)) {
+    return null;
+  }
+
+  const handleIncludeWeekChange = (checked: boolean) => {
+    localStorage.setItem(INCLUDE_WEEK_STORAGE_KEY, String(checked));
+    setIncludeWeek(checked);
+  };
+
+  const dismiss = () => {
+    localStorage.setItem(DISMISSED_STORAGE_KEY, today);
+    setDismissedOn(today);
+  };
+
+  return (
+    <section className="container mx-auto px-4 pt-8 relative">
+      <HandDrawn className="relative overflow-hidden bg-[#E6B89C] bg-opacity-20 p-6 md:p-8">
+        <WatercolorOverlay opacity={0.1} />
+        <div className="relative z-10">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+            <div>
+              <h2 className="font-quicksand font-bold text-2xl text-[#4A4A4A] flex items-center">
+                <History className="mr-2 h-6 w-6 text-[#9C7178]" />
+                {showingWeek ? "This week in years past" : "On this day"}
+              </h2>
+              <p className="text-[#4A4A4A]">
+                {showingWeek
+                  ? "Memories from around this time of year."
+                  : `Memories from ${format(new Date(), "MMMM d")} in earlier years.`}
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              {!dayIsEmpty && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="on-this-day-week"
+                    checked={includeWeek}
+                    onCheckedChange={handleIncludeWeekChange}
+                  />
+                  <Label htmlFor="on-this-day-week" className="text-sm">Include this week</Label>
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={dismiss}
+                aria-label="Hide until tomorrow"
+                title="Hide until tomorrow"
+                className="text-gray-500 hover:text-[#4A4A4A]"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {memories.collections.map(collection => (
+              <button
+                key={`collection-${collection.id}`}
+                type="button"
+                onClick={() => navigate(`/date-memory/${collection.id}`)}
+                className="w-48 flex-shrink-0 bg-white rounded-lg shadow-md overflow-hidden text-left transition-transform hover:-translate-y-1"
+              >
+                {collection.thumbnailUrl ? (
+                  <img
+                    src={getImageUrl(collection.thumbnailUrl, "thumbnail")}
+                    alt={collection.name}
+                    loading="lazy"
+                    className="h-28 w-full object-cover"
+                  />
+                ) : (
+                  <div className="h-28 bg-[#F4F1EA]" />
+                )}
+                <div className="p-3">
+                  <p className="font-quicksand font-semibold truncate">{collection.name}</p>
+                  <p className="text-xs text-[#9C7178]">
+                    {describeYearsAgo(collection.yearsAgo)} · {formatDate(collection.memoryDate)}
+                  </p>
+                </div>
+              </button>
+            ))}
+
+            {memories.photos.map(photo => (
+              <button
+                key={`photo-${photo.id}`}
+                type="button"
+                onClick={() => navigate(`/photo/${photo.id}`)}
+                className="w-48 flex-shrink-0 bg-white rounded-lg shadow-md overflow-hidden text-left transition-transform hover:-translate-y-1"
+              >
+                <img
+                  src={getImageUrl(photo.filePath, "thumbnail")}
+                  alt={photo.title}
+                  loading="lazy"
+                  className="h-28 w-full object-cover"
+                />
+                <div className="p-3">
+                  <p className="font-quicksand font-semibold truncate">{photo.title}</p>
+                  <p className="text-xs text-[#9C7178] truncate">
+                    {describeYearsAgo(photo.yearsAgo)} · {photo.collectionName}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      </HandDrawn>
+    </section>
+  );
+}
@@ -0,0 +1,95 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Button } from "@/components/ui/button";
+import { Mail, Check, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { CollectionInvitation } from "@shared/schema";
+
+interface InvitationWithDetails extends CollectionInvitation {
+  collection: { id: number; name: string; memoryDate: string } | null;
+  inviter: { id: number; username: string; displayName: string; profilePicture: string | null } | null;
+}
+
+export default function PendingInvitations() {
+  const { toast } = useToast();
+
+  const { data: invitations = [] } = useQuery<InvitationWithDetails[]>({
+    queryKey: [API_ENDPOINTS.invitations],
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ id, accept }: { id: number; accept: boolean }) =>
+      apiRequest("POST", accept ? API_ENDPOINTS.acceptInvitation(id) : API_ENDPOINTS.declineInvitation(id)),
+    onSuccess: (_, { accept }) => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.invitations] });
+      if (accept) {
+        queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collections] });
+        queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
+      }
+      toast({
+        title: accept ? "Invitation accepted" : "Invitation declined",
+        description: accept
+          ? "The shared memory has been added to your gallery."
+          : "You won't see this memory in your gallery.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to respond to invitation",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="container mx-auto px-4 pb-2">
+      <div className="space-y-3">
+        {invitations.map(invitation => (
+          <HandDrawn key={invitation.id} className="bg-white p-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center">
+              <Mail className="h-5 w-5 text-[#9C7178] mr-3 flex-shrink-0" />
+              <p className="text-[#4A4A4A]">
+                <span className="font-semibold">{invitation.inviter?.displayName || "Someone"}</span>
+                {" invited you to "}
+                <span className="font-semibold">{invitation.collection?.name || "a memory"}</span>
+                {invitation.collection && (
+                  <span className="text-sm text-gray-500"> ({formatDate(invitation.collection.memoryDate)})</span>
+                )}
+                <span className="text-sm text-gray-500">
+                  {invitation.role === "editor" ? " as an editor" : " as a viewer"}
+                </span>
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="bg-[#88B9B0] hover:bg-opacity-90 text-white font-quicksand"
+                onClick={() => respondMutation.mutate({ id: invitation.id, accept: true })}
+                disabled={respondMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-1" /> Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="font-quicksand"
+                onClick={() => respondMutation.mutate({ id: invitation.id, accept: false })}
+                disabled={respondMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" /> Decline
+              </Button>
+            </div>
+          </HandDrawn>
+        ))}
+      </div>
+    </section>
+  );
+}
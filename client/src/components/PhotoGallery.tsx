@@ -1,16 +1,17 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
 import { Photo } from "@shared/schema";
+import { getImageUrl, getImageSrcSet } from "@shared/images";
 import { HandDrawn } from "@/components/ui/hand-drawn";
 import { Button } from "@/components/ui/button";
-import { Heart, Edit, Maximize } from "lucide-react";
-import { formatDate } from "@/lib/constants";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import { queryClient } from "@/lib/queryClient";
-import { API_ENDPOINTS } from "@/lib/constants";
+import { Edit, Maximize, CheckSquare, Check } from "lucide-react";
+import { formatDate, GALLERY_IMAGE_SIZES } from "@/lib/constants";
 import { Skeleton } from "@/components/ui/skeleton";
 import PhotoModal from "@/components/modals/PhotoModal";
+import PhotoReactions from "@/components/PhotoReactions";
+import { MediaBadge } from "@/components/PhotoMedia";
+import BulkPhotoToolbar from "@/components/BulkPhotoToolbar";
+import { usePhotoSelection } from "@/hooks/use-photo-selection";
 
 interface PhotoGalleryProps {
   photos: Photo[];
@@ -20,22 +21,14 @@ interface PhotoGalleryProps {
 export default function PhotoGallery({ photos, isLoading }: PhotoGalleryProps) {
   const [, navigate] = useLocation();
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
+  const selection = usePhotoSelection(photos?.map(photo => photo.id) ?? []);
 
-  // Toggle like mutation
-  const likeMutation = useMutation({
-    mutationFn: (photoId: number) => apiRequest("POST", API_ENDPOINTS.likePhoto(photoId), {}),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photos] });
+  const handlePhotoClick = (photo: Photo, e: React.MouseEvent) => {
+    if (selection.isSelecting) {
+      selection.toggle(photo.id, e.shiftKey);
+    } else {
+      navigate(`/photo/${photo.id}`);
     }
-  });
-
-  const handleLike = (photoId: number, e: React.MouseEvent) => {
-    e.stopPropagation();
-    likeMutation.mutate(photoId);
-  };
-
-  const handlePhotoClick = (photo: Photo) => {
-    navigate(`/photo/${photo.id}`);
   };
 
   const openPhotoModal = (photo: Photo, e: React.MouseEvent) => {
@@ -88,35 +81,52 @@ export default function PhotoGallery({ photos, isLoading }: PhotoGalleryProps) {
 
   return (
     <section className="container mx-auto px-4 py-6 relative">
+      {!selection.isSelecting && (
+        <div className="flex justify-end mb-4">
+          <Button variant="outline" size="sm" onClick={selection.start}>
+            <CheckSquare className="mr-2 h-4 w-4" />
+            Select
+          </Button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
         {photos.map((photo) => (
           <div 
             key={photo.id} 
-            className="photo-card relative bg-white rounded-lg overflow-hidden shadow-md cursor-pointer transition-transform hover:-translate-y-1 hover:shadow-lg"
-            onClick={() => handlePhotoClick(photo)}
+            className={`photo-card relative bg-white rounded-lg overflow-hidden shadow-md cursor-pointer transition-transform hover:-translate-y-1 hover:shadow-lg ${
+              selection.isSelected(photo.id) ? 'ring-4 ring-[#9C7178]' : ''
+            }`}
+            onClick={(e) => handlePhotoClick(photo, e)}
           >
             <div className="relative overflow-hidden" style={{ height: "220px" }}>
+              {selection.isSelecting && (
+                <span
+                  className={`absolute top-2 left-2 z-10 flex h-6 w-6 items-center justify-center rounded-full border-2 border-white shadow ${
+                    selection.isSelected(photo.id) ? 'bg-[#9C7178]' : 'bg-black/30'
+                  }`}
+                >
+                  {selection.isSelected(photo.id) && <Check className="h-4 w-4 text-white" />}
+                </span>
+              )}
               <img 
-                src={photo.filePath} 
+                src={getImageUrl(photo.filePath, "medium")} 
+                srcSet={getImageSrcSet(photo.filePath)}
+                sizes={GALLERY_IMAGE_SIZES}
                 alt={photo.title} 
+                loading="lazy"
                 className="w-full h-full object-cover transition-transform duration-300 hover:scale-105"
               />
-              <button 
-                className="absolute top-2 right-2 bg-white bg-opacity-70 hover:bg-opacity-90 text-[#9C7178] p-2 rounded-full"
-                onClick={(e) => handleLike(photo.id, e)}
-              >
-                {photo.isLiked ? (
-                  <Heart className="h-4 w-4 fill-[#9C7178]" />
-                ) : (
-                  <Heart className="h-4 w-4" />
-                )}
-              </button>
+              <MediaBadge photo={photo} />
             </div>
             <div className="p-4">
               <h3 className="font-quicksand font-semibold text-lg mb-1">{photo.title}</h3>
               <p className="text-sm text-gray-600 mb-3">{photo.description}</p>
+              <div className="mb-3">
+                <PhotoReactions photoId={photo.id} compact />
+              </div>
               <div className="flex justify-between items-center">
-                <span className="text-xs text-gray-500">{formatDate(photo.uploadedAt)}</span>
+                <span className="text-xs text-gray-500">{formatDate(photo.takenAt ?? photo.uploadedAt)}</span>
                 <div className="flex space-x-2">
                   <button className="text-[#88B9B0] hover:text-opacity-80">
                     <Edit className="h-4 w-4" />
@@ -144,6 +154,16 @@ export default function PhotoGallery({ photos, isLoading }: PhotoGalleryProps) {
         </div>
       )}
 
+      {selection.isSelecting && (
+        <BulkPhotoToolbar
+          photos={photos}
+          selectedIds={selection.selectedIds}
+          onSelectAll={selection.selectAll}
+          onClear={selection.clear}
+          onDone={selection.stop}
+        />
+      )}
+
       {selectedPhoto && (
         <PhotoModal 
           photo={selectedPhoto} 
@@ -0,0 +1,106 @@
+import { useRef, useState } from "react";
+import { Photo } from "@shared/schema";
+import { getImageUrl, getImageSrcSet } from "@shared/images";
+import { formatDuration } from "@/lib/constants";
+import { Play } from "lucide-react";
+
+interface PhotoMediaProps {
+  photo: Photo;
+  alt: string;
+  className?: string;
+}
+
+// A photo at full size: videos get a player, Live Photos play their motion
+// while hovered or pressed, and plain photos are a responsive image
+export default function PhotoMedia({ photo, alt, className }: PhotoMediaProps) {
+  const motionRef = useRef<HTMLVideoElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  if (photo.mediaKind === "video") {
+    return (
+      <video
+        key={photo.id}
+        src={photo.filePath}
+        poster={getImageUrl(photo.filePath, "large")}
+        controls
+        playsInline
+        preload="metadata"
+        className={className}
+      />
+    );
+  }
+
+  const image = (
+    <img
+      src={getImageUrl(photo.filePath, "large")}
+      srcSet={getImageSrcSet(photo.filePath)}
+      sizes="100vw"
+      alt={alt}
+      className={className}
+      draggable={false}
+    />
+  );
+
+  if (photo.mediaKind !== "live" || !photo.motionPath) {
+    return image;
+  }
+
+  const play = () => {
+    const motion = motionRef.current;
+    if (!motion) return;
+    motion.currentTime = 0;
+    motion.play().then(() => setIsPlaying(true)).catch(() => setIsPlaying(false));
+  };
+
+  const stop = () => {
+    motionRef.current?.pause();
+    setIsPlaying(false);
+  };
+
+  return (
+    <div
+      className="relative"
+      onMouseEnter={play}
+      onMouseLeave={stop}
+      onTouchStart={play}
+      onTouchEnd={stop}
+    >
+      {image}
+      <video
+        key={photo.id}
+        ref={motionRef}
+        src={photo.motionPath}
+        muted
+        playsInline
+        preload="none"
+        onEnded={stop}
+        className={`absolute inset-0 h-full w-full object-contain transition-opacity ${isPlaying ? 'opacity-100' : 'opacity-0'}`}
+      />
+      <span className="absolute top-2 left-2 rounded-full bg-black/50 px-2 py-0.5 text-xs font-semibold tracking-wide text-white">
+        LIVE
+      </span>
+    </div>
+  );
+}
+
+// Marks a thumbnail as a video or Live Photo; renders nothing for plain photos
+export function MediaBadge({ photo }: { photo: Pick<Photo, "mediaKind" | "duration"> }) {
+  if (photo.mediaKind === "video") {
+    return (
+      <span className="pointer-events-none absolute bottom-1 left-1 flex items-center gap-1 rounded-full bg-black/50 px-1.5 py-0.5 text-xs text-white">
+        <Play className="h-3 w-3 fill-white" />
+        {formatDuration(photo.duration)}
+      </span>
+    );
+  }
+
+  if (photo.mediaKind === "live") {
+    return (
+      <span className="pointer-events-none absolute bottom-1 left-1 rounded-full bg-black/50 px-1.5 py-0.5 text-[10px] font-semibold tracking-wide text-white">
+        LIVE
+      </span>
+    );
+  }
+
+  return null;
+}
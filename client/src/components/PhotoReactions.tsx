@@ -0,0 +1,143 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { SmilePlus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS, PHOTO_REACTIONS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { PhotoReaction, PhotoReactionType } from "@shared/schema";
+
+interface PhotoReactionWithUser extends PhotoReaction {
+  user: { id: number; username: string; displayName: string; profilePicture: string | null } | null;
+}
+
+interface PhotoReactionsProps {
+  photoId: number;
+  // Compact mode fits gallery cards: chips only, without the "who reacted" summary
+  compact?: boolean;
+}
+
+export default function PhotoReactions({ photoId, compact = false }: PhotoReactionsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: reactions = [] } = useQuery<PhotoReactionWithUser[]>({
+    queryKey: [API_ENDPOINTS.photoReactions(photoId)],
+  });
+
+  const hasReacted = (reaction: PhotoReactionType) =>
+    reactions.some(r => r.reaction === reaction && r.userId === user?.id);
+
+  const toggleMutation = useMutation({
+    mutationFn: (reaction: PhotoReactionType) =>
+      hasReacted(reaction)
+        ? apiRequest("DELETE", API_ENDPOINTS.photoReaction(photoId, reaction))
+        : apiRequest("POST", API_ENDPOINTS.photoReactions(photoId), { reaction }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photoReactions(photoId)] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to react",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const getName = (reaction: PhotoReactionWithUser) =>
+    reaction.userId === user?.id ? "You" : reaction.user?.displayName || "Someone";
+
+  // The heart is always shown so it doubles as the like button; other reactions only once used
+  const shownReactions = PHOTO_REACTIONS.filter(option =>
+    option.value === "heart" || reactions.some(r => r.reaction === option.value)
+  );
+
+  // Who reacted with what, e.g. "You ❤️ 😂 · Alex 😍"
+  const reactors = reactions.reduce<{ name: string; emojis: string[] }[]>((acc, reaction) => {
+    const name = getName(reaction);
+    const emoji = PHOTO_REACTIONS.find(option => option.value === reaction.reaction)?.emoji || "";
+    const existing = acc.find(entry => entry.name === name);
+    if (existing) {
+      existing.emojis.push(emoji);
+    } else {
+      acc.push({ name, emojis: [emoji] });
+    }
+    return acc;
+  }, []);
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <div onClick={(e) => e.stopPropagation()}>
+        <div className="flex flex-wrap items-center gap-1">
+          {shownReactions.map(option => {
+            const matching = reactions.filter(r => r.reaction === option.value);
+            const mine = hasReacted(option.value);
+            return (
+              <Tooltip key={option.value}>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    onClick={() => toggleMutation.mutate(option.value)}
+                    disabled={toggleMutation.isPending}
+                    aria-pressed={mine}
+                    aria-label={option.label}
+                    className={`flex items-center gap-1 rounded-full border px-2 py-0.5 transition-colors ${compact ? 'text-xs' : 'text-sm'} ${
+                      mine
+                        ? 'border-[#9C7178] bg-[#9C7178]/10 text-[#9C7178]'
+                        : 'border-[#E6B89C]/50 bg-white hover:bg-[#F4F1EA] text-[#4A4A4A]'
+                    }`}
+                  >
+                    <span>{option.emoji}</span>
+                    {matching.length > 0 && <span>{matching.length}</span>}
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {matching.length > 0
+                    ? matching.map(getName).join(", ")
+                    : option.label}
+                </TooltipContent>
+              </Tooltip>
+            );
+          })}
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                type="button"
+                aria-label="Add reaction"
+                className={`rounded-full border border-[#E6B89C]/50 bg-white hover:bg-[#F4F1EA] text-gray-500 ${compact ? 'p-1' : 'p-1.5'}`}
+              >
+                <SmilePlus className={compact ? "h-3 w-3" : "h-4 w-4"} />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-1" onClick={(e) => e.stopPropagation()}>
+              <div className="flex gap-1">
+                {PHOTO_REACTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    title={option.label}
+                    onClick={() => toggleMutation.mutate(option.value)}
+                    disabled={toggleMutation.isPending}
+                    className={`rounded-md p-1.5 text-xl hover:bg-[#F4F1EA] ${hasReacted(option.value) ? 'bg-[#9C7178]/10' : ''}`}
+                  >
+                    {option.emoji}
+                  </button>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {!compact && reactors.length > 0 && (
+          <p className="mt-2 text-sm text-gray-500">
+            {reactors.map(entry => `${entry.name} ${entry.emojis.join(" ")}`).join(" · ")}
+          </p>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+}
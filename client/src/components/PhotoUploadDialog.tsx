@@ -10,6 +10,11 @@ import { API_ENDPOINTS } from "@/lib/constants";
 import { queryClient } from "@/lib/queryClient";
 import { CloudUpload, X, Upload, Image as ImageIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useChunkedUploads } from "@/hooks/use-chunked-uploads";
+import { useDuplicateWarning } from "@/hooks/use-duplicate-warning";
+import UploadProgress from "@/components/UploadProgress";
+import UploadPreview from "@/components/UploadPreview";
+import { UPLOAD_ACCEPT } from "@shared/uploads";
 
 interface PhotoUpload {
   file: File;
@@ -28,60 +33,55 @@ export function PhotoUploadDialog({ isOpen, onOpenChange, collectionId, onUpload
   const { toast } = useToast();
   const [uploadPhotos, setUploadPhotos] = useState<PhotoUpload[]>([]);
 
-  // Upload photos mutation
+  const uploads = useChunkedUploads();
+  const warnDuplicates = useDuplicateWarning();
+  const hasFailedUploads = uploadPhotos.some(photo => uploads.getState(photo.preview)?.status === "error");
+
+  // Upload photos mutation. Large photos go up in parts, so a dropped connection
+  // only costs the part in flight and "Resume upload" carries on from there.
   const uploadMutation = useMutation({
     mutationFn: async (photos: PhotoUpload[]) => {
-      const uploadPromises = photos.map(async (photo) => {
-        const formData = new FormData();
-        formData.append('photo', photo.file);
-        formData.append('title', photo.title || 'Uploaded Photo');
-        formData.append('description', 'Added to memory');
-        formData.append('collectionId', collectionId);
-
-        const response = await fetch(API_ENDPOINTS.photos, {
-          method: 'POST',
-          body: formData,
-          credentials: 'include'
-        });
+      const { uploaded, failed, duplicates } = await uploads.uploadAll(
+        photos.map(photo => ({
+          key: photo.preview,
+          file: photo.file,
+          title: photo.title || 'Uploaded Photo',
+          description: 'Added to memory',
+        })),
+        parseInt(collectionId)
+      );
 
-        if (!response.ok) {
-          let errorMessage = "Failed to upload photo";
-          try {
-            const errorData = await response.json();
-            if (errorData.code === 'DATABASE_TIMEOUT') {
-              errorMessage = "Database connection timeout. Please try again in a moment.";
-            } else if (errorData.code === 'CONNECTION_RESET') {
-              errorMessage = "Connection was reset. Please try again.";
-            } else {
-              errorMessage = errorData.message || errorMessage;
-            }
-          } catch {
-            errorMessage = response.statusText || errorMessage;
-          }
-          throw new Error(errorMessage);
+      if (failed.length > 0) {
+        if (uploaded.length > 0) {
+          queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionPhotos(collectionId)] });
         }
+        throw new Error(`${failed.length} of ${photos.length} photos didn't finish uploading (${failed[0].error}). Try again to resume.`);
+      }
 
-        return await response.json();
-      });
-
-      return await Promise.all(uploadPromises);
+      return { uploaded, duplicates };
     },
-    onSuccess: (uploadedPhotos) => {
+    onSuccess: ({ uploaded: uploadedPhotos, duplicates }) => {
       // Invalidate queries to refresh the gallery
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionPhotos(collectionId)] });
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photos] });
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
       
-      toast({
-        title: "Photos uploaded successfully!",
-        description: `${uploadedPhotos.length} photo${uploadedPhotos.length !== 1 ? 's' : ''} added to this memory.`,
-      });
+      // Only one toast shows at a time, and the warning says enough about the upload
+      if (duplicates.length > 0) {
+        warnDuplicates(duplicates);
+      } else {
+        toast({
+          title: "Photos uploaded successfully!",
+          description: `${uploadedPhotos.length} photo${uploadedPhotos.length !== 1 ? 's' : ''} added to this memory.`,
+        });
+      }
       
       // Clean up and close dialog
       uploadPhotos.forEach(photo => {
         URL.revokeObjectURL(photo.preview);
       });
       setUploadPhotos([]);
+      uploads.reset();
       onOpenChange(false);
       
       // Call optional callback
@@ -128,9 +128,7 @@ export function PhotoUploadDialog({ isOpen, onOpenChange, collectionId, onUpload
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.bmp', '.webp']
-    },
+    accept: UPLOAD_ACCEPT,
     multiple: true
   });
 
@@ -155,6 +153,7 @@ export function PhotoUploadDialog({ isOpen, onOpenChange, collectionId, onUpload
       URL.revokeObjectURL(photo.preview);
     });
     setUploadPhotos([]);
+    uploads.reset();
     onOpenChange(false);
   };
 
@@ -230,16 +229,19 @@ export function PhotoUploadDialog({ isOpen, onOpenChange, collectionId, onUpload
                         {uploadPhotos.map((photo, index) => (
                           <div key={index} className="relative group bg-white rounded-lg p-3">
                             <div className="aspect-square rounded-lg overflow-hidden bg-gray-100 mb-3 relative">
-                              <img 
-                                src={photo.preview} 
-                                alt={`Upload ${index + 1}`} 
+                              <UploadPreview
+                                file={photo.file}
+                                src={photo.preview}
+                                alt={`Upload ${index + 1}`}
                                 className="w-full h-full object-cover"
                               />
+                              <UploadProgress state={uploads.getState(photo.preview)} />
                               <Button 
                                 variant="destructive" 
                                 size="sm"
                                 className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity rounded-full w-6 h-6 p-0"
                                 onClick={() => removeUploadPhoto(index)}
+                                disabled={uploadMutation.isPending}
                               >
                                 <X className="h-3 w-3" />
                               </Button>
@@ -282,6 +284,11 @@ export function PhotoUploadDialog({ isOpen, onOpenChange, collectionId, onUpload
           >
             {uploadMutation.isPending ? (
               <>Uploading...</>
+            ) : hasFailedUploads ? (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Resume upload
+              </>
             ) : (
               <>
                 <Upload className="mr-2 h-4 w-4" />
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Users, Copy, KeyRound, Plus, LogIn } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { useSpace } from "@/contexts/SpaceContext";
+import { Space } from "@shared/schema";
+
+interface SpaceMember {
+  id: number;
+  username: string;
+  displayName: string;
+  profilePicture: string | null;
+}
+
+interface SpaceInviteCode {
+  code: string;
+  expiresAt: string;
+}
+
+function SpaceRow({ space }: { space: Space }) {
+  const { toast } = useToast();
+  const [invite, setInvite] = useState<SpaceInviteCode | null>(null);
+
+  const { data: members = [] } = useQuery<SpaceMember[]>({
+    queryKey: [API_ENDPOINTS.spaceMembers(space.id)],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", API_ENDPOINTS.spaceInvites(space.id));
+      return await response.json() as SpaceInviteCode;
+    },
+    onSuccess: (data) => setInvite(data),
+    onError: (error) => {
+      toast({
+        title: "Failed to create invite code",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const inviteLink = invite ? `${window.location.origin}/register?code=${invite.code}` : "";
+
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast({
+        title: "Invite link copied",
+        description: "Send it to the person you want to share memories with.",
+      });
+    } catch {
+      toast({
+        title: "Could not copy",
+        description: "Copy the code manually instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="font-quicksand font-semibold text-[#4A4A4A] truncate">{space.name}</p>
+          <p className="text-sm text-gray-500 truncate">
+            {members.map(member => member.displayName).join(", ") || "Just you"}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inviteMutation.mutate()}
+          disabled={inviteMutation.isPending}
+          className="border-[#9C7178] text-[#9C7178] hover:bg-[#9C7178] hover:text-white flex-shrink-0"
+        >
+          <KeyRound className="w-4 h-4 mr-2" />
+          {inviteMutation.isPending ? "Creating..." : "Invite code"}
+        </Button>
+      </div>
+
+      {invite && (
+        <div className="rounded-lg bg-[#F4F1EA] p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono text-xl tracking-widest text-[#4A4A4A]">{invite.code}</span>
+            <Button type="button" variant="ghost" size="sm" onClick={copyInviteLink}>
+              <Copy className="w-4 h-4 mr-2" /> Copy link
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Works once, until {formatDate(invite.expiresAt)}. New users enter it when signing up; existing users can join below.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SpaceSettings() {
+  const { toast } = useToast();
+  const { spaces, setCurrentSpaceId } = useSpace();
+  const [joinCode, setJoinCode] = useState("");
+  const [newSpaceName, setNewSpaceName] = useState("");
+
+  const onSpaceAdded = (space: Space) => {
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.spaces] });
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.users] });
+    setCurrentSpaceId(space.id);
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", API_ENDPOINTS.joinSpace, { code: joinCode.trim() });
+      return await response.json() as Space;
+    },
+    onSuccess: (space) => {
+      onSpaceAdded(space);
+      setJoinCode("");
+      toast({
+        title: "Joined space",
+        description: `You're now part of ${space.name}.`,
+      });
+    },
+    onError: showError("Failed to join space"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", API_ENDPOINTS.spaces, { name: newSpaceName.trim() });
+      return await response.json() as Space;
+    },
+    onSuccess: (space) => {
+      onSpaceAdded(space);
+      setNewSpaceName("");
+      toast({
+        title: "Space created",
+        description: `Create an invite code to bring people into ${space.name}.`,
+      });
+    },
+    onError: showError("Failed to create space"),
+  });
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm border-[#E6B89C]/30 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-[#4A4A4A]">
+          <Users className="w-5 h-5" />
+          Spaces
+        </CardTitle>
+        <CardDescription>
+          A space holds the memories you share with your partner or family
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {spaces.map((space, index) => (
+          <div key={space.id} className="space-y-6">
+            {index > 0 && <Separator className="bg-[#E6B89C]/20" />}
+            <SpaceRow space={space} />
+          </div>
+        ))}
+
+        <Separator className="bg-[#E6B89C]/20" />
+
+        <div className="space-y-2">
+          <Label htmlFor="joinCode">Join a space</Label>
+          <div className="flex gap-2">
+            <Input
+              id="joinCode"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              placeholder="Invite code"
+              className="border-[#E6B89C]/50 focus:border-[#9C7178] tracking-widest"
+            />
+            <Button
+              type="button"
+              onClick={() => joinMutation.mutate()}
+              disabled={!joinCode.trim() || joinMutation.isPending}
+              className="bg-[#9C7178] hover:bg-[#9C7178]/90 text-white"
+            >
+              <LogIn className="w-4 h-4 mr-2" /> Join
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="newSpaceName">Create another space</Label>
+          <div className="flex gap-2">
+            <Input
+              id="newSpaceName"
+              value={newSpaceName}
+              onChange={(e) => setNewSpaceName(e.target.value)}
+              placeholder="E.g., Family Trips"
+              className="border-[#E6B89C]/50 focus:border-[#9C7178]"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => createMutation.mutate()}
+              disabled={!newSpaceName.trim() || createMutation.isPending}
+              className="border-[#9C7178] text-[#9C7178] hover:bg-[#9C7178] hover:text-white"
+            >
+              <Plus className="w-4 h-4 mr-2" /> Create
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import { useLocation } from "wouter";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Users, Check, ChevronDown, Settings } from "lucide-react";
+import { useSpace } from "@/contexts/SpaceContext";
+
+export default function SpaceSwitcher() {
+  const [, navigate] = useLocation();
+  const { spaces, currentSpace, setCurrentSpaceId } = useSpace();
+
+  if (!currentSpace) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="hidden sm:flex items-center gap-2 px-3 py-2 rounded-full bg-white/70 hover:bg-white border border-[#E6B89C]/40 text-[#4A4A4A] font-quicksand text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-[#9C7178]/50">
+          <Users className="h-4 w-4 text-[#9C7178]" />
+          <span className="max-w-[160px] truncate">{currentSpace.name}</span>
+          <ChevronDown className="h-3 w-3 opacity-60" />
+        </button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent
+        className="w-56 bg-white/95 backdrop-blur-sm border-[#E6B89C]/30 shadow-lg"
+        align="end"
+        sideOffset={5}
+      >
+        <DropdownMenuLabel className="font-quicksand text-xs text-[#4A4A4A]/70">
+          Your spaces
+        </DropdownMenuLabel>
+        {spaces.map(space => (
+          <DropdownMenuItem
+            key={space.id}
+            onClick={() => setCurrentSpaceId(space.id)}
+            className="cursor-pointer hover:bg-[#E6B89C]/10 focus:bg-[#E6B89C]/10 text-[#4A4A4A]"
+          >
+            <Check className={`mr-2 h-4 w-4 ${space.id === currentSpace.id ? 'opacity-100' : 'opacity-0'}`} />
+            <span className="font-lato truncate">{space.name}</span>
+          </DropdownMenuItem>
+        ))}
+
+        <DropdownMenuSeparator className="bg-[#E6B89C]/20" />
+
+        <DropdownMenuItem
+          onClick={() => navigate('/profile')}
+          className="cursor-pointer hover:bg-[#E6B89C]/10 focus:bg-[#E6B89C]/10 text-[#4A4A4A]"
+        >
+          <Settings className="mr-2 h-4 w-4" />
+          <span className="font-lato">Manage spaces</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { X, Tag as TagIcon } from "lucide-react";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { TagWithUsage } from "@shared/schema";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Suggestions come from the tags already used in this space
+  spaceId?: number | null;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Same normalization the server applies, so chips match what gets saved
+function normalizeTag(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, " ").slice(0, 32);
+}
+
+export default function TagInput({ id, value, onChange, spaceId, placeholder = "Add a tag..." }: TagInputProps) {
+  const [input, setInput] = useState("");
+  // Index of the suggestion picked with the arrow keys; -1 means the typed text
+  const [highlighted, setHighlighted] = useState(-1);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const { data: allTags = [] } = useQuery<TagWithUsage[]>({
+    queryKey: [API_ENDPOINTS.tags],
+  });
+
+  const query = normalizeTag(input);
+  const suggestions = allTags
+    .filter(tag => !spaceId || tag.spaceId === spaceId)
+    .filter(tag => !value.includes(tag.name) && tag.name.includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (name: string) => {
+    const tag = normalizeTag(name);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setInput("");
+    setHighlighted(-1);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(existing => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(suggestions[highlighted]?.name ?? input);
+    } else if (e.key === "Backspace" && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(Math.min(highlighted + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(Math.max(highlighted - 1, -1));
+    }
+  };
+
+  const showSuggestions = isFocused && query.length > 0;
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-[#E6B89C] bg-white px-2 py-1">
+        {value.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 rounded-full bg-[#88B9B0]/20 px-2 py-0.5 text-xs text-[#4A4A4A]"
+          >
+            <TagIcon className="h-3 w-3" />
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              aria-label={`Remove tag ${tag}`}
+              className="text-gray-500 hover:text-red-600"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={value.length === 0 ? placeholder : ""}
+          className="h-7 min-w-[120px] flex-1 border-0 p-1 shadow-none focus-visible:ring-0 font-lato"
+        />
+      </div>
+
+      {showSuggestions && (
+        // Suggestions keep focus on mousedown so the list doesn't close before the click lands
+        <ul className="absolute z-50 mt-1 w-full overflow-hidden rounded-md border border-[#E6B89C]/50 bg-white shadow-md">
+          {suggestions.map((tag, index) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                className={`flex w-full items-center justify-between px-3 py-1.5 text-left text-sm ${
+                  index === highlighted ? 'bg-[#F4F1EA]' : 'hover:bg-[#F4F1EA]'
+                }`}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-gray-500">{tag.photoCount + tag.collectionCount}</span>
+              </button>
+            </li>
+          ))}
+          {!suggestions.some(tag => tag.name === query) && !value.includes(query) && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(query)}
+                className="w-full px-3 py-1.5 text-left text-sm text-[#9C7178] hover:bg-[#F4F1EA]"
+              >
+                Create "{query}"
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { ImageIcon } from "lucide-react";
+import { getUploadType, isHeicType, isVideoType } from "@shared/uploads";
+
+interface UploadPreviewProps {
+  file: File;
+  src: string;
+  alt: string;
+  className?: string;
+}
+
+// Preview of a file picked for upload. Most browsers can't show HEIC photos
+// until the server has converted them, so those get a placeholder.
+export default function UploadPreview({ file, src, alt, className }: UploadPreviewProps) {
+  const type = getUploadType(file.name, file.type);
+
+  if (isVideoType(type)) {
+    return <video src={src} muted playsInline className={className} />;
+  }
+
+  if (isHeicType(type)) {
+    return (
+      <div className={`${className ?? ""} flex flex-col items-center justify-center gap-1 bg-[#F4F1EA] text-[#9C7178]`} title={file.name}>
+        <ImageIcon className="h-6 w-6" />
+        <span className="text-xs font-semibold">HEIC</span>
+      </div>
+    );
+  }
+
+  return <img src={src} alt={alt} className={className} />;
+}
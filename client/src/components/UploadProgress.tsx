@@ -0,0 +1,30 @@
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, Check } from "lucide-react";
+import { UploadState } from "@/hooks/use-chunked-uploads";
+
+// Progress laid over a photo preview while it uploads
+export default function UploadProgress({ state }: { state?: UploadState }) {
+  if (!state) return null;
+
+  if (state.status === "done") {
+    return (
+      <span className="absolute top-1 left-1 flex h-5 w-5 items-center justify-center rounded-full bg-[#88B9B0] shadow" title="Uploaded">
+        <Check className="h-3 w-3 text-white" />
+      </span>
+    );
+  }
+
+  if (state.status === "error") {
+    return (
+      <span className="absolute top-1 left-1 flex h-5 w-5 items-center justify-center rounded-full bg-red-500 shadow" title={state.error}>
+        <AlertCircle className="h-3 w-3 text-white" />
+      </span>
+    );
+  }
+
+  return (
+    <div className="absolute inset-x-1 bottom-1">
+      <Progress value={Math.round(state.progress * 100)} className="h-1.5 bg-white/70" />
+    </div>
+  );
+}
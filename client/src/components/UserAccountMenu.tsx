@@ -8,7 +8,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { User, Settings, LogOut } from "lucide-react";
+import { User, Settings, Trash2, Copy, LogOut } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 
@@ -100,6 +100,22 @@ export default function UserAccountMenu() {
           <span className="font-lato">Preferences</span>
         </DropdownMenuItem>
         
+        <DropdownMenuItem 
+          onClick={() => navigate('/trash')}
+          className="cursor-pointer hover:bg-[#E6B89C]/10 focus:bg-[#E6B89C]/10 text-[#4A4A4A]"
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          <span className="font-lato">Trash</span>
+        </DropdownMenuItem>
+        
+        <DropdownMenuItem 
+          onClick={() => navigate('/duplicates')}
+          className="cursor-pointer hover:bg-[#E6B89C]/10 focus:bg-[#E6B89C]/10 text-[#4A4A4A]"
+        >
+          <Copy className="mr-2 h-4 w-4" />
+          <span className="font-lato">Duplicates</span>
+        </DropdownMenuItem>
+        
         <DropdownMenuSeparator className="bg-[#E6B89C]/20" />
         
         <DropdownMenuItem 
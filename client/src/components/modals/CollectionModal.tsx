@@ -7,15 +7,23 @@ import { Label } from "@/components/ui/label";
 import { HandDrawn } from "@/components/ui/hand-drawn";
 import { Calendar, CloudUpload, Trash2 } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import { API_ENDPOINTS } from "@/lib/constants";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
 import { useToast } from "@/hooks/use-toast";
 import { useDropzone } from "react-dropzone";
+import { useSpace } from "@/contexts/SpaceContext";
+import TagInput from "@/components/TagInput";
+import UploadProgress from "@/components/UploadProgress";
+import UploadPreview from "@/components/UploadPreview";
+import { UPLOAD_ACCEPT } from "@shared/uploads";
+import { useChunkedUploads } from "@/hooks/use-chunked-uploads";
+import { useDuplicateWarning } from "@/hooks/use-duplicate-warning";
 
 interface CollectionModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Day to start from (YYYY-MM-DD), e.g. when picked on the calendar
+  initialDate?: string;
 }
 
 interface PhotoUpload {
@@ -24,14 +32,20 @@ interface PhotoUpload {
   title: string;
 }
 
-export default function CollectionModal({ isOpen, onClose }: CollectionModalProps) {
+export default function CollectionModal({ isOpen, onClose, initialDate }: CollectionModalProps) {
   const { toast } = useToast();
+  const { currentSpace } = useSpace();
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [dateValue, setDateValue] = useState<string>(
-    new Date().toISOString().substring(0, 10) // Default to today
+    initialDate || new Date().toISOString().substring(0, 10) // Default to today
   );
   const [photos, setPhotos] = useState<PhotoUpload[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  // Set once the memory exists, so retrying after a failed upload only resumes the photos
+  const [createdCollectionId, setCreatedCollectionId] = useState<number | null>(null);
+  const uploads = useChunkedUploads();
+  const warnDuplicates = useDuplicateWarning();
 
   // File dropzone handling
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -58,10 +72,7 @@ export default function CollectionModal({ isOpen, onClose }: CollectionModalProp
   
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.webp']
-    },
-    maxSize: 5 * 1024 * 1024, // 5MB
+    accept: UPLOAD_ACCEPT,
   });
 
   const removePhoto = (index: number) => {
@@ -74,6 +85,48 @@ export default function CollectionModal({ isOpen, onClose }: CollectionModalProp
     });
   };
 
+  const invalidateMemories = () => {
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collections] });
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsInRange] });
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.tags] });
+  };
+
+  // Creates the memory without photos; they are uploaded into it afterwards
+  const createCollection = async (): Promise<number> => {
+    const formData = new FormData();
+    formData.append('name', name);
+    formData.append('description', description);
+    formData.append('type', 'custom'); // Changed from 'date' to 'custom'
+    
+    if (currentSpace) {
+      formData.append('spaceId', String(currentSpace.id));
+    }
+    
+    // Explicitly convert date to string and store as additional metadata
+    if (dateValue) {
+      formData.append('date', dateValue);
+    }
+    
+    tags.forEach(tag => {
+      formData.append('tag', tag);
+    });
+    
+    const response = await fetch(API_ENDPOINTS.collections, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include'
+    });
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || "Failed to create memory");
+    }
+    
+    const collection = await response.json();
+    return collection.id;
+  };
+
   // Create date entry mutation
   const createMutation = useMutation({
     mutationFn: async () => {
@@ -81,42 +134,32 @@ export default function CollectionModal({ isOpen, onClose }: CollectionModalProp
         throw new Error("Memory name required");
       }
       
-      const formData = new FormData();
-      formData.append('name', name);
-      formData.append('description', description);
-      formData.append('type', 'custom'); // Changed from 'date' to 'custom'
-      
-      // Explicitly convert date to string and store as additional metadata
-      if (dateValue) {
-        formData.append('date', dateValue);
+      let collectionId = createdCollectionId;
+      if (collectionId === null) {
+        collectionId = await createCollection();
+        setCreatedCollectionId(collectionId);
       }
       
-      // Add photos if any
-      photos.forEach((photo, index) => {
-        formData.append(`photo`, photo.file);
-        formData.append(`photoTitle`, photo.title);
-      });
-      
-      const response = await fetch(API_ENDPOINTS.collections, {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(errorText || "Failed to create memory");
+      const { failed, duplicates } = await uploads.uploadAll(
+        photos.map(photo => ({ key: photo.preview, file: photo.file, title: photo.title })),
+        collectionId
+      );
+      if (failed.length > 0) {
+        invalidateMemories();
+        throw new Error(`The memory was saved, but ${failed.length} of ${photos.length} photos didn't finish uploading (${failed[0].error}). Try again to resume.`);
       }
-      
-      return await response.json();
+      return duplicates;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collections] });
-      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
-      toast({
-        title: "Date memory added",
-        description: "Your new date memory has been successfully created.",
-      });
+    onSuccess: (duplicates) => {
+      invalidateMemories();
+      if (duplicates.length > 0) {
+        warnDuplicates(duplicates);
+      } else {
+        toast({
+          title: "Date memory added",
+          description: "Your new date memory has been successfully created.",
+        });
+      }
       handleClose();
     },
     onError: (error) => {
@@ -148,16 +191,15 @@ export default function CollectionModal({ isOpen, onClose }: CollectionModalProp
     
     setName("");
     setDescription("");
-    setDateValue(new Date().toISOString().substring(0, 10));
+    setDateValue(initialDate || new Date().toISOString().substring(0, 10));
     setPhotos([]);
+    setTags([]);
+    setCreatedCollectionId(null);
+    uploads.reset();
     onClose();
   };
 
-  const formattedDate = dateValue ? new Date(dateValue).toLocaleDateString('en-US', {
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric'
-  }) : '';
+  const formattedDate = dateValue ? formatDate(dateValue) : '';
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
@@ -218,6 +260,19 @@ export default function CollectionModal({ isOpen, onClose }: CollectionModalProp
             </HandDrawn>
           </div>
           
+          <div className="space-y-2">
+            <Label htmlFor="memory-tags" className="font-quicksand font-medium text-[#4A4A4A]">
+              Tags
+            </Label>
+            <TagInput
+              id="memory-tags"
+              value={tags}
+              onChange={setTags}
+              spaceId={currentSpace?.id}
+              placeholder="E.g., beach, anniversary, road trip"
+            />
+          </div>
+          
           {/* Photo upload area */}
           <div className="space-y-2">
             <Label className="font-quicksand font-medium text-[#4A4A4A] flex items-center justify-between">
@@ -257,11 +312,13 @@ export default function CollectionModal({ isOpen, onClose }: CollectionModalProp
               <div className="grid grid-cols-3 gap-2 max-h-40 overflow-y-auto p-2 bg-gray-50 rounded-lg">
                 {photos.map((photo, index) => (
                   <div key={index} className="relative group">
-                    <img 
-                      src={photo.preview} 
-                      alt={`Preview ${index + 1}`} 
+                    <UploadPreview
+                      file={photo.file}
+                      src={photo.preview}
+                      alt={`Preview ${index + 1}`}
                       className="w-full h-20 object-cover rounded-md"
                     />
+                    <UploadProgress state={uploads.getState(photo.preview)} />
                     <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-all flex items-center justify-center">
                       <Button 
                         variant="ghost" 
@@ -305,7 +362,7 @@ export default function CollectionModal({ isOpen, onClose }: CollectionModalProp
               onClick={handleSubmit}
               disabled={!name.trim() || createMutation.isPending}
             >
-              {createMutation.isPending ? 'Saving...' : 'Save Memory'}
+              {createMutation.isPending ? 'Saving...' : createdCollectionId !== null ? 'Resume Upload' : 'Save Memory'}
             </Button>
           </HandDrawn>
         </DialogFooter>
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Photo } from "@shared/schema";
+import { getImageUrl, getObjectPosition, FocusPoint } from "@shared/images";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+
+interface CoverPhotoModalProps {
+  collectionId: number;
+  photo: Photo;
+  // Focus point already saved for this cover, if the photo is the current cover
+  initialFocus?: FocusPoint | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function CoverPhotoModal({ collectionId, photo, initialFocus, isOpen, onClose }: CoverPhotoModalProps) {
+  const { toast } = useToast();
+  const [focus, setFocus] = useState<FocusPoint>(initialFocus ?? { x: 0.5, y: 0.5 });
+
+  const coverMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", API_ENDPOINTS.collectionCover(collectionId), {
+      photoId: photo.id,
+      focusX: focus.x,
+      focusY: focus.y,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collection(collectionId)] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsInRange] });
+      toast({
+        title: "Cover updated",
+        description: "This photo now represents the memory.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Clicking the photo picks the point the card crop keeps in view
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocus({
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-white font-lato max-w-2xl">
+        <DialogTitle className="font-quicksand font-bold text-xl text-center">
+          <HandDrawn>
+            Set as cover
+          </HandDrawn>
+        </DialogTitle>
+        <DialogDescription className="text-center">
+          Click the part of the photo that should stay in view on the memory's card.
+        </DialogDescription>
+
+        <div className="grid gap-4 md:grid-cols-[1fr,200px] items-start">
+          <div className="flex justify-center">
+            {/* Sized to the image itself so click positions map straight onto it */}
+            <div className="relative inline-block">
+              <img
+                src={getImageUrl(photo.filePath, "medium")}
+                alt={photo.title}
+                onClick={handleImageClick}
+                className="block max-w-full max-h-[50vh] rounded-md cursor-crosshair"
+              />
+              <span
+                className="pointer-events-none absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-[#9C7178]/60 shadow"
+                style={{ left: `${focus.x * 100}%`, top: `${focus.y * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-500 mb-2">Card preview</p>
+            <div className="overflow-hidden rounded-lg shadow-md" style={{ height: "220px" }}>
+              <img
+                src={getImageUrl(photo.filePath, "medium")}
+                alt=""
+                className="w-full h-full object-cover"
+                style={{ objectPosition: getObjectPosition(focus) }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button variant="outline" onClick={() => setFocus({ x: 0.5, y: 0.5 })}>
+            Reset to centre
+          </Button>
+          <Button
+            className="bg-[#9C7178] hover:bg-opacity-90 text-white"
+            onClick={() => coverMutation.mutate()}
+            disabled={coverMutation.isPending}
+          >
+            {coverMutation.isPending ? "Saving..." : "Use as cover"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
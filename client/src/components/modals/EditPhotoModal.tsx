@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { HandDrawn } from "@/components/ui/hand-drawn";
@@ -13,8 +13,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Collection, Photo } from "@shared/schema";
-import { useMutation } from "@tanstack/react-query";
+import TagInput from "@/components/TagInput";
+import { Collection, Photo, Tag } from "@shared/schema";
+import { getImageUrl } from "@shared/images";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { API_ENDPOINTS } from "@/lib/constants";
@@ -32,18 +34,40 @@ export default function EditPhotoModal({ photo, collections, isOpen, onClose }:
   const [title, setTitle] = useState(photo.title);
   const [description, setDescription] = useState(photo.description || "");
   const [collectionId, setCollectionId] = useState(String(photo.collectionId));
+  const [tags, setTags] = useState<string[]>([]);
+
+  const { data: photoTags } = useQuery<Tag[]>({
+    queryKey: [API_ENDPOINTS.photoTags(photo.id)],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (photoTags) {
+      setTags(photoTags.map(tag => tag.name));
+    }
+  }, [photoTags]);
+
+  const selectedCollection = collections.find(collection => String(collection.id) === collectionId);
 
   // Update photo mutation
   const updateMutation = useMutation({
-    mutationFn: () => 
-      apiRequest("PUT", API_ENDPOINTS.photo(photo.id), {
-        title,
-        description,
-        collectionId: parseInt(collectionId)
-      }),
+    mutationFn: async () => {
+      await apiRequest("PUT", API_ENDPOINTS.photo(photo.id), { title, description });
+      if (collectionId !== String(photo.collectionId)) {
+        await apiRequest("POST", API_ENDPOINTS.movePhotos, {
+          photoIds: [photo.id],
+          collectionId: parseInt(collectionId)
+        });
+      }
+      // Tags are saved after a move so they land in the new memory's space
+      await apiRequest("PUT", API_ENDPOINTS.photoTags(photo.id), { tags });
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photos] });
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photo(photo.id)] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photoTags(photo.id)] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.tags] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
       toast({
         title: "Photo updated",
         description: "Your photo has been updated successfully.",
@@ -118,9 +142,19 @@ export default function EditPhotoModal({ photo, collections, isOpen, onClose }:
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            <TagInput
+              id="tags"
+              value={tags}
+              onChange={setTags}
+              spaceId={selectedCollection?.spaceId}
+            />
+          </div>
+
           <div className="py-2">
             <img 
-              src={photo.filePath} 
+              src={getImageUrl(photo.filePath, "medium")} 
               alt={photo.title} 
               className="max-h-[200px] object-contain mx-auto rounded-md"
             />
@@ -131,7 +165,7 @@ export default function EditPhotoModal({ photo, collections, isOpen, onClose }:
               <Button 
                 type="submit" 
                 className="w-full"
-                disabled={!title || !collectionId || updateMutation.isPending}
+                disabled={!title || !collectionId || !photoTags || updateMutation.isPending}
               >
                 {updateMutation.isPending ? 'Updating...' : 'Save Changes'}
               </Button>
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Collection, Photo } from "@shared/schema";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+
+type TransferMode = "move" | "copy";
+
+interface MovePhotosModalProps {
+  photoIds: number[];
+  // The memory the photos are in now; it's left out of the destinations
+  currentCollectionId?: number | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onTransferred?: (mode: TransferMode, photos: Photo[]) => void;
+}
+
+export default function MovePhotosModal({ photoIds, currentCollectionId, isOpen, onClose, onTransferred }: MovePhotosModalProps) {
+  const { toast } = useToast();
+  const [collectionId, setCollectionId] = useState("");
+
+  const { data: collections = [] } = useQuery<Collection[]>({
+    queryKey: [API_ENDPOINTS.collections],
+    enabled: isOpen,
+  });
+
+  const destinations = collections.filter(collection => collection.id !== currentCollectionId);
+  const destination = destinations.find(collection => String(collection.id) === collectionId);
+  const photoLabel = photoIds.length === 1 ? "this photo" : `${photoIds.length} photos`;
+
+  const transferMutation = useMutation({
+    mutationFn: async (mode: TransferMode) => {
+      const response = await apiRequest(
+        "POST",
+        mode === "move" ? API_ENDPOINTS.movePhotos : API_ENDPOINTS.copyPhotos,
+        { photoIds, collectionId: parseInt(collectionId) }
+      );
+      return await response.json() as Photo[];
+    },
+    onSuccess: (photos, mode) => {
+      [
+        API_ENDPOINTS.photos,
+        ...(currentCollectionId ? [API_ENDPOINTS.collectionPhotos(currentCollectionId)] : []),
+        API_ENDPOINTS.collectionPhotos(collectionId),
+        ...photoIds.map(photoId => API_ENDPOINTS.photo(photoId)),
+        API_ENDPOINTS.collectionsWithThumbnails,
+        API_ENDPOINTS.collectionsInRange,
+        API_ENDPOINTS.timeline,
+        API_ENDPOINTS.tags,
+      ].forEach(endpoint => queryClient.invalidateQueries({ queryKey: [endpoint] }));
+
+      toast({
+        title: mode === "move" ? "Photos moved" : "Photos copied",
+        description: `${photos.length === 1 ? "1 photo" : `${photos.length} photos`} ${mode === "move" ? "moved" : "copied"} to ${destination?.name ?? "the memory"}.`,
+      });
+      onTransferred?.(mode, photos);
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-white font-lato">
+        <DialogTitle className="font-quicksand font-bold text-xl text-center">
+          <HandDrawn>
+            Move to memory
+          </HandDrawn>
+        </DialogTitle>
+        <DialogDescription className="text-center">
+          Pick the memory {photoLabel} should go to. Copying keeps the original where it is.
+        </DialogDescription>
+
+        <div className="space-y-2">
+          <Label htmlFor="destination">Memory</Label>
+          <Select value={collectionId} onValueChange={setCollectionId}>
+            <SelectTrigger id="destination">
+              <SelectValue placeholder="Select a memory" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {destinations.map(collection => (
+                  <SelectItem key={collection.id} value={String(collection.id)}>
+                    {collection.name} · {formatDate(collection.memoryDate)}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          {destinations.length === 0 && (
+            <p className="text-sm text-gray-500">There are no other memories to move photos to yet.</p>
+          )}
+        </div>
+
+        <DialogFooter className="pt-4 gap-2">
+          <Button
+            variant="outline"
+            onClick={() => transferMutation.mutate("copy")}
+            disabled={!destination || transferMutation.isPending}
+          >
+            {transferMutation.isPending && transferMutation.variables === "copy" ? "Copying..." : "Copy"}
+          </Button>
+          <Button
+            className="bg-[#9C7178] hover:bg-opacity-90 text-white"
+            onClick={() => transferMutation.mutate("move")}
+            disabled={!destination || transferMutation.isPending}
+          >
+            {transferMutation.isPending && transferMutation.variables === "move" ? "Moving..." : "Move"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,13 +2,13 @@ import { useState } from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Collection, Photo } from "@shared/schema";
+import { getImageUrl, getImageSrcSet } from "@shared/images";
 import { formatDate } from "@/lib/constants";
-import { Heart, Share2, X, Edit } from "lucide-react";
-import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import { queryClient } from "@/lib/queryClient";
+import { Share2, X, Edit } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import { API_ENDPOINTS } from "@/lib/constants";
 import EditPhotoModal from "./EditPhotoModal";
+import PhotoReactions from "@/components/PhotoReactions";
 
 interface PhotoModalProps {
   photo: Photo;
@@ -25,18 +25,6 @@ export default function PhotoModal({ photo, isOpen, onClose }: PhotoModalProps)
     enabled: isEditModalOpen,
   });
 
-  // Toggle like mutation
-  const likeMutation = useMutation({
-    mutationFn: () => apiRequest("POST", API_ENDPOINTS.likePhoto(photo.id), {}),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photos] });
-    }
-  });
-
-  const handleLike = () => {
-    likeMutation.mutate();
-  };
-  
   const handleEditClick = () => {
     setIsEditModalOpen(true);
   };
@@ -55,7 +43,9 @@ export default function PhotoModal({ photo, isOpen, onClose }: PhotoModalProps)
           
           <div className="max-h-[80vh] flex items-center justify-center bg-black">
             <img 
-              src={photo.filePath} 
+              src={getImageUrl(photo.filePath, "large")} 
+              srcSet={getImageSrcSet(photo.filePath)}
+              sizes="100vw"
               alt={photo.title} 
               className="max-w-full max-h-[80vh] object-contain"
             />
@@ -64,18 +54,12 @@ export default function PhotoModal({ photo, isOpen, onClose }: PhotoModalProps)
           <div className="bg-white p-6">
             <h3 className="font-quicksand font-bold text-xl mb-2">{photo.title}</h3>
             <p className="text-[#4A4A4A] mb-3">{photo.description}</p>
+            <div className="mb-3">
+              <PhotoReactions photoId={photo.id} />
+            </div>
             <div className="flex justify-between items-center">
-              <span className="text-sm text-gray-500">{formatDate(photo.uploadedAt)}</span>
+              <span className="text-sm text-gray-500">{formatDate(photo.takenAt ?? photo.uploadedAt)}</span>
               <div className="flex space-x-4">
-                <Button 
-                  variant="ghost" 
-                  className={`flex items-center gap-2 ${photo.isLiked ? 'text-[#9C7178]' : ''}`}
-                  onClick={handleLike}
-                  disabled={likeMutation.isPending}
-                >
-                  <Heart className={`h-5 w-5 ${photo.isLiked ? 'fill-[#9C7178]' : ''}`} />
-                  {photo.isLiked ? 'Liked' : 'Like'}
-                </Button>
                 <Button variant="ghost" className="flex items-center gap-2">
                   <Share2 className="h-5 w-5" />
                   Share
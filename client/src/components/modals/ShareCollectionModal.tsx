@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Dialog, DialogContent, DialogTitle, DialogHeader, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserPlus, Trash2, Clock } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS, COLLECTION_ROLES } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { CollectionInvitation, CollectionRole } from "@shared/schema";
+
+interface PublicUser {
+  id: number;
+  username: string;
+  displayName: string;
+  profilePicture: string | null;
+}
+
+interface CollectionMembersResponse {
+  members: {
+    userId: number;
+    role: CollectionRole;
+    createdAt: string | null;
+    user: PublicUser | null;
+  }[];
+  invitations: (CollectionInvitation & { invitee: PublicUser | null })[];
+}
+
+interface ShareCollectionModalProps {
+  collectionId: string;
+  spaceId?: number | null;
+  isOwner: boolean;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<CollectionRole, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+function getInitials(name: string) {
+  return name
+    .split(' ')
+    .map(part => part.charAt(0))
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+export default function ShareCollectionModal({ collectionId, spaceId, isOwner, isOpen, onClose }: ShareCollectionModalProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const [inviteeId, setInviteeId] = useState("");
+  const [inviteRole, setInviteRole] = useState("viewer");
+
+  const { data: sharing, isLoading } = useQuery<CollectionMembersResponse>({
+    queryKey: [API_ENDPOINTS.collectionMembers(collectionId)],
+    enabled: isOpen,
+  });
+
+  // Collections can only be shared with people in the same space
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: [spaceId ? API_ENDPOINTS.spaceMembers(spaceId) : API_ENDPOINTS.users],
+    enabled: isOpen && isOwner,
+  });
+
+  const members = sharing?.members ?? [];
+  const invitations = sharing?.invitations ?? [];
+
+  // Only offer users who don't already have access or a pending invitation
+  const invitableUsers = users.filter(candidate =>
+    !members.some(member => member.userId === candidate.id) &&
+    !invitations.some(invitation => invitation.inviteeId === candidate.id)
+  );
+
+  const invalidateSharing = () => {
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionMembers(collectionId)] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", API_ENDPOINTS.collectionInvitations(collectionId), {
+        userId: parseInt(inviteeId),
+        role: inviteRole,
+      }),
+    onSuccess: () => {
+      invalidateSharing();
+      setInviteeId("");
+      toast({
+        title: "Invitation sent",
+        description: "They'll see your invitation next time they open the gallery.",
+      });
+    },
+    onError: showError("Failed to send invitation"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: string }) =>
+      apiRequest("PATCH", API_ENDPOINTS.collectionMember(collectionId, userId), { role }),
+    onSuccess: () => {
+      invalidateSharing();
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collection(collectionId)] });
+    },
+    onError: showError("Failed to change role"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest("DELETE", API_ENDPOINTS.collectionMember(collectionId, userId)),
+    onSuccess: (_, userId) => {
+      // Leaving a memory takes you back to the gallery
+      if (userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collections] });
+        queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
+        toast({
+          title: "You left this memory",
+          description: "It will no longer appear in your gallery.",
+        });
+        navigate("/");
+        return;
+      }
+      invalidateSharing();
+      toast({
+        title: "Access removed",
+        description: "They no longer have access to this memory.",
+      });
+    },
+    onError: showError("Failed to remove access"),
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (invitationId: number) =>
+      apiRequest("DELETE", API_ENDPOINTS.invitation(invitationId)),
+    onSuccess: invalidateSharing,
+    onError: showError("Failed to revoke invitation"),
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto font-lato">
+        <DialogHeader>
+          <DialogTitle className="font-quicksand font-bold text-2xl text-[#4A4A4A] text-center">
+            Share Memory
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            Choose who can see and add to this memory.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <Label className="font-quicksand font-medium text-[#4A4A4A]">Invite someone</Label>
+            <div className="flex gap-2">
+              <Select value={inviteeId} onValueChange={setInviteeId}>
+                <SelectTrigger className="flex-grow bg-white border border-[#E6B89C]">
+                  <SelectValue placeholder={invitableUsers.length ? "Select a person" : "Everyone is invited"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {invitableUsers.map(candidate => (
+                    <SelectItem key={candidate.id} value={String(candidate.id)}>
+                      {candidate.displayName} (@{candidate.username})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={inviteRole} onValueChange={setInviteRole}>
+                <SelectTrigger className="w-[120px] bg-white border border-[#E6B89C]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COLLECTION_ROLES.map(role => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <HandDrawn>
+              <Button
+                className="w-full bg-[#9C7178] hover:bg-opacity-90 text-white font-quicksand"
+                onClick={() => inviteMutation.mutate()}
+                disabled={!inviteeId || inviteMutation.isPending}
+              >
+                <UserPlus className="mr-2 h-4 w-4" />
+                {inviteMutation.isPending ? 'Inviting...' : 'Send Invitation'}
+              </Button>
+            </HandDrawn>
+          </div>
+        )}
+
+        {isOwner && <Separator className="bg-[#E6B89C]/30" />}
+
+        <div className="space-y-3">
+          <Label className="font-quicksand font-medium text-[#4A4A4A]">People with access</Label>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            members.map(member => {
+              const displayName = member.user?.displayName || "Unknown user";
+              const isSelf = member.userId === user?.id;
+              return (
+                <div key={member.userId} className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.user?.profilePicture || undefined} alt={displayName} />
+                    <AvatarFallback className="bg-[#E6B89C] text-white text-xs font-quicksand">
+                      {getInitials(displayName)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-grow min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {displayName}{isSelf && <span className="text-gray-500"> (you)</span>}
+                    </p>
+                    {member.user && (
+                      <p className="text-xs text-gray-500 truncate">@{member.user.username}</p>
+                    )}
+                  </div>
+                  {isOwner ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role })}
+                    >
+                      <SelectTrigger className="w-[110px] h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as CollectionRole[]).map(role => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-xs text-[#9C7178]">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-500 hover:text-red-600"
+                      onClick={() => removeMemberMutation.mutate(member.userId)}
+                      disabled={removeMemberMutation.isPending}
+                      title={isSelf ? "Leave memory" : "Remove access"}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+
+          {invitations.map(invitation => (
+            <div key={invitation.id} className="flex items-center gap-3 opacity-75">
+              <div className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center">
+                <Clock className="h-4 w-4 text-gray-500" />
+              </div>
+              <div className="flex-grow min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {invitation.invitee?.displayName || "Unknown user"}
+                </p>
+                <p className="text-xs text-gray-500">Invited · {ROLE_LABELS[invitation.role]}</p>
+              </div>
+              {isOwner && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-gray-500 hover:text-red-600"
+                  onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                  disabled={revokeInvitationMutation.isPending}
+                >
+                  Revoke
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
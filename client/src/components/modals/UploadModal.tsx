@@ -13,6 +13,11 @@ import { queryClient } from "@/lib/queryClient";
 import { API_ENDPOINTS } from "@/lib/constants";
 import { Collection } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useChunkedUploads } from "@/hooks/use-chunked-uploads";
+import { useDuplicateWarning } from "@/hooks/use-duplicate-warning";
+import UploadProgress from "@/components/UploadProgress";
+import UploadPreview from "@/components/UploadPreview";
+import { UPLOAD_ACCEPT } from "@shared/uploads";
 
 interface UploadModalProps {
   isOpen: boolean;
@@ -33,6 +38,10 @@ export default function UploadModal({ isOpen, onClose, collections }: UploadModa
   const [collectionId, setCollectionId] = useState<string>("");
   const [dateValue, setDateValue] = useState<string>("");
   const [photos, setPhotos] = useState<PhotoUpload[]>([]);
+  // The memory the photos are going into, fixed once the first attempt starts
+  const [targetCollectionId, setTargetCollectionId] = useState<number | null>(null);
+  const uploads = useChunkedUploads();
+  const warnDuplicates = useDuplicateWarning();
 
   // File dropzone handling
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -59,10 +68,7 @@ export default function UploadModal({ isOpen, onClose, collections }: UploadModa
   
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.webp']
-    },
-    maxSize: 5 * 1024 * 1024, // 5MB
+    accept: UPLOAD_ACCEPT,
   });
 
   const removePhoto = (index: number) => {
@@ -75,46 +81,65 @@ export default function UploadModal({ isOpen, onClose, collections }: UploadModa
     });
   };
 
-  // Upload mutation
+  const createCollection = async (): Promise<number> => {
+    const formData = new FormData();
+    formData.append('name', momentTitle);
+    formData.append('description', memoryDescription);
+    formData.append('date', dateValue);
+    
+    const response = await fetch(API_ENDPOINTS.collections, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include'
+    });
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || "Failed to create memory");
+    }
+    
+    const collection = await response.json();
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collections] });
+    return collection.id;
+  };
+
+  // Upload mutation. Photos go up in parts into the chosen memory, or a new one
+  // made from the title and date; trying again resumes the photos that didn't finish.
   const uploadMutation = useMutation({
     mutationFn: async () => {
       if (photos.length === 0 || !momentTitle || !dateValue) {
         throw new Error("Missing required fields");
       }
       
-      const formData = new FormData();
-      formData.append('momentTitle', momentTitle);
-      formData.append('memoryDescription', memoryDescription);
-      formData.append('collectionId', collectionId);
-      formData.append('dateValue', dateValue);
-      
-      // Add all photos to the form data
-      photos.forEach((photo, index) => {
-        formData.append(`photos[${index}]`, photo.file);
-        formData.append(`photoTitles[${index}]`, photo.title);
-      });
-      
-      // Note: This is just UI preparation, backend will need updating later
-      const response = await fetch(API_ENDPOINTS.photos, {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(errorText || "Failed to upload photos");
+      let targetId = targetCollectionId;
+      if (targetId === null) {
+        targetId = collectionId && collectionId !== "new"
+          ? parseInt(collectionId)
+          : await createCollection();
+        setTargetCollectionId(targetId);
       }
       
-      return await response.json();
+      const { failed, duplicates } = await uploads.uploadAll(
+        photos.map(photo => ({ key: photo.preview, file: photo.file, title: photo.title, description: memoryDescription })),
+        targetId
+      );
+      if (failed.length > 0) {
+        queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
+        throw new Error(`${failed.length} of ${photos.length} photos didn't finish uploading (${failed[0].error}). Try again to resume.`);
+      }
+      return duplicates;
     },
-    onSuccess: () => {
+    onSuccess: (duplicates) => {
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photos] });
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
-      toast({
-        title: "Date memory saved",
-        description: `${photos.length} photo${photos.length !== 1 ? 's' : ''} from your date have been added.`,
-      });
+      if (duplicates.length > 0) {
+        warnDuplicates(duplicates);
+      } else {
+        toast({
+          title: "Date memory saved",
+          description: `${photos.length} photo${photos.length !== 1 ? 's' : ''} from your date have been added.`,
+        });
+      }
       handleClose();
     },
     onError: (error) => {
@@ -141,6 +166,8 @@ export default function UploadModal({ isOpen, onClose, collections }: UploadModa
     setCollectionId("");
     setDateValue("");
     setPhotos([]);
+    setTargetCollectionId(null);
+    uploads.reset();
     onClose();
   };
 
@@ -228,11 +255,13 @@ export default function UploadModal({ isOpen, onClose, collections }: UploadModa
               <div className="grid grid-cols-3 gap-2 max-h-40 overflow-y-auto p-2 bg-gray-50 rounded-lg">
                 {photos.map((photo, index) => (
                   <div key={index} className="relative group">
-                    <img 
-                      src={photo.preview} 
-                      alt={`Preview ${index + 1}`} 
+                    <UploadPreview
+                      file={photo.file}
+                      src={photo.preview}
+                      alt={`Preview ${index + 1}`}
                       className="w-full h-20 object-cover rounded-md"
                     />
+                    <UploadProgress state={uploads.getState(photo.preview)} />
                     <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-all flex items-center justify-center">
                       <Button 
                         variant="ghost" 
@@ -312,7 +341,7 @@ export default function UploadModal({ isOpen, onClose, collections }: UploadModa
               onClick={handleSubmit}
               disabled={photos.length === 0 || !momentTitle || !dateValue || uploadMutation.isPending}
             >
-              {uploadMutation.isPending ? 'Saving...' : `Save Memory`}
+              {uploadMutation.isPending ? 'Saving...' : targetCollectionId !== null ? 'Resume Upload' : 'Save Memory'}
             </Button>
           </HandDrawn>
         </DialogFooter>
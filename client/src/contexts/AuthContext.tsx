@@ -8,10 +8,19 @@ interface User {
   profilePicture?: string;
 }
 
+interface RegisterData {
+  username: string;
+  password: string;
+  displayName: string;
+  inviteCode?: string;
+  spaceName?: string;
+}
+
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   login: (username: string, password: string) => Promise<boolean>;
+  register: (data: RegisterData) => Promise<{ success: boolean; message?: string }>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -95,6 +104,30 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const register = async (data: RegisterData): Promise<{ success: boolean; message?: string }> => {
+    try {
+      const response = await fetch('/api/auth/register', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setUser(result.user);
+        return { success: true };
+      } else {
+        return { success: false, message: result.message };
+      }
+    } catch (error) {
+      console.error('Registration error:', error);
+      return { success: false };
+    }
+  };
+
   const logout = async (): Promise<void> => {
     try {
       await fetch('/api/auth/logout', {
@@ -117,6 +150,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     user,
     loading,
     login,
+    register,
     logout,
     refreshUser,
   };
@@ -0,0 +1,68 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { API_ENDPOINTS } from '@/lib/constants';
+import { useAuth } from '@/contexts/AuthContext';
+import { Space } from '@shared/schema';
+
+const CURRENT_SPACE_STORAGE_KEY = 'memri:currentSpaceId';
+
+interface SpaceContextType {
+  spaces: Space[];
+  currentSpace: Space | null;
+  loading: boolean;
+  setCurrentSpaceId: (spaceId: number) => void;
+}
+
+const SpaceContext = createContext<SpaceContextType | undefined>(undefined);
+
+export function useSpace() {
+  const context = useContext(SpaceContext);
+  if (context === undefined) {
+    throw new Error('useSpace must be used within a SpaceProvider');
+  }
+  return context;
+}
+
+interface SpaceProviderProps {
+  children: ReactNode;
+}
+
+export function SpaceProvider({ children }: SpaceProviderProps) {
+  const { user } = useAuth();
+  const [currentSpaceId, setCurrentSpaceIdState] = useState<number | null>(() => {
+    const stored = localStorage.getItem(CURRENT_SPACE_STORAGE_KEY);
+    return stored ? parseInt(stored) : null;
+  });
+
+  const { data: spaces = [], isLoading } = useQuery<Space[]>({
+    queryKey: [API_ENDPOINTS.spaces],
+    enabled: !!user,
+  });
+
+  // Fall back to the first space if the stored one is gone (or belongs to another account)
+  const currentSpace = spaces.find(space => space.id === currentSpaceId) || spaces[0] || null;
+
+  useEffect(() => {
+    if (currentSpace && currentSpace.id !== currentSpaceId) {
+      setCurrentSpaceIdState(currentSpace.id);
+    }
+  }, [currentSpace, currentSpaceId]);
+
+  const setCurrentSpaceId = (spaceId: number) => {
+    localStorage.setItem(CURRENT_SPACE_STORAGE_KEY, String(spaceId));
+    setCurrentSpaceIdState(spaceId);
+  };
+
+  const value: SpaceContextType = {
+    spaces,
+    currentSpace,
+    loading: isLoading,
+    setCurrentSpaceId,
+  };
+
+  return (
+    <SpaceContext.Provider value={value}>
+      {children}
+    </SpaceContext.Provider>
+  );
+}
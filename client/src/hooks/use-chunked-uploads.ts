@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { uploadPhotoInChunks } from "@/lib/chunkedUpload";
+import { Photo } from "@shared/schema";
+import { getUploadType, isVideoType } from "@shared/uploads";
+import { DuplicateWarning } from "@shared/duplicates";
+
+export interface UploadState {
+  status: "uploading" | "done" | "error";
+  progress: number; // 0 to 1
+  error?: string;
+  photoId?: number; // Once done
+}
+
+export interface UploadItem {
+  key: string;
+  file: File;
+  title: string;
+  description?: string;
+}
+
+function isVideoFile(file: File) {
+  return isVideoType(getUploadType(file.name, file.type));
+}
+
+function getBaseName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, "").toLowerCase();
+}
+
+// A phone exports a Live Photo as a still and a clip with the same name, e.g.
+// IMG_1234.JPG and IMG_1234.MOV. Maps the key of each such clip to its still.
+function findLivePhotoPairs(items: UploadItem[]): Map<string, UploadItem> {
+  const stills = new Map<string, UploadItem>();
+  for (const item of items) {
+    if (!isVideoFile(item.file)) {
+      stills.set(getBaseName(item.file.name), item);
+    }
+  }
+
+  const pairs = new Map<string, UploadItem>();
+  for (const item of items) {
+    const still = isVideoFile(item.file) ? stills.get(getBaseName(item.file.name)) : undefined;
+    if (still) {
+      pairs.set(item.key, still);
+    }
+  }
+  return pairs;
+}
+
+// Uploads a batch of photos one at a time, tracking each file's progress by key.
+// Files that already finished are skipped, so calling it again after a failure
+// only resumes the ones that didn't make it. Live Photo clips go up after the
+// stills and are attached to them rather than added as separate videos.
+export function useChunkedUploads() {
+  const [states, setStates] = useState<Record<string, UploadState>>({});
+
+  const setState = (key: string, state: UploadState) => {
+    setStates(prev => ({ ...prev, [key]: state }));
+  };
+
+  const uploadAll = async (items: UploadItem[], collectionId: number) => {
+    const uploaded: Photo[] = [];
+    const failed: { item: UploadItem; error: string }[] = [];
+    const duplicates: DuplicateWarning[] = [];
+    // Ids of the photos finished so far, including in earlier attempts
+    const photoIds = new Map(Object.entries(states).map(([key, state]) => [key, state.photoId]));
+
+    const livePhotoPairs = findLivePhotoPairs(items);
+    const ordered = [
+      ...items.filter(item => !livePhotoPairs.has(item.key)),
+      ...items.filter(item => livePhotoPairs.has(item.key)),
+    ];
+
+    for (const item of ordered) {
+      if (states[item.key]?.status === "done") continue;
+
+      setState(item.key, { status: "uploading", progress: 0 });
+      try {
+        const still = livePhotoPairs.get(item.key);
+        const livePhotoId = still ? photoIds.get(still.key) : undefined;
+        if (still && !livePhotoId) {
+          throw new Error("The still of this Live Photo didn't upload");
+        }
+
+        const photo = await uploadPhotoInChunks(item.file, {
+          collectionId,
+          title: item.title || item.file.name,
+          description: item.description,
+          livePhotoId,
+          onProgress: progress => setState(item.key, { status: "uploading", progress }),
+        });
+        if (!still) {
+          uploaded.push(photo);
+        }
+        if (photo.duplicates && photo.duplicates.length > 0) {
+          duplicates.push({ photoId: photo.id, title: photo.title, matches: photo.duplicates });
+        }
+        photoIds.set(item.key, photo.id);
+        setState(item.key, { status: "done", progress: 1, photoId: photo.id });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "An unknown error occurred";
+        failed.push({ item, error: message });
+        setState(item.key, { status: "error", progress: 0, error: message });
+      }
+    }
+
+    return { uploaded, failed, duplicates };
+  };
+
+  return {
+    getState: (key: string): UploadState | undefined => states[key],
+    uploadAll,
+    reset: () => setStates({}),
+  };
+}
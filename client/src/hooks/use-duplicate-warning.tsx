@@ -0,0 +1,31 @@
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { DuplicateWarning } from "@shared/duplicates";
+
+// Tells the uploader when photos they just added look like ones already in
+// their memories, with a shortcut to the duplicates page to tidy them up
+export function useDuplicateWarning() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  return (warnings: DuplicateWarning[]) => {
+    if (warnings.length === 0) return;
+
+    const [first] = warnings;
+    const match = first.matches[0];
+    const description = warnings.length === 1
+      ? `"${first.title}" ${match.exact ? "is the same photo as" : "looks like"} "${match.title}" in ${match.collectionName}.`
+      : `${warnings.length} of the photos look like ones already in your memories.`;
+
+    toast({
+      title: warnings.length === 1 ? "This photo may be a duplicate" : "Some photos may be duplicates",
+      description,
+      action: (
+        <ToastAction altText="Review duplicates" onClick={() => navigate("/duplicates")}>
+          Review
+        </ToastAction>
+      ),
+    });
+  };
+}
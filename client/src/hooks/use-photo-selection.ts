@@ -0,0 +1,52 @@
+import { useState, useEffect } from "react";
+
+// Selection state for a photo grid. Shift-click selects the range from the last
+// photo clicked, in the order the grid shows them.
+export function usePhotoSelection(photoIds: number[]) {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [anchorId, setAnchorId] = useState<number | null>(null);
+
+  // Drop photos that left the grid (deleted, moved) from the selection
+  const idsKey = photoIds.join(",");
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => photoIds.includes(id)));
+  }, [idsKey]);
+
+  const toggle = (photoId: number, shiftKey = false) => {
+    if (shiftKey && anchorId !== null && photoIds.includes(anchorId)) {
+      const from = photoIds.indexOf(anchorId);
+      const to = photoIds.indexOf(photoId);
+      const range = photoIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setSelectedIds(prev => Array.from(new Set([...prev, ...range])));
+    } else {
+      setSelectedIds(prev => prev.includes(photoId) ? prev.filter(id => id !== photoId) : [...prev, photoId]);
+    }
+    setAnchorId(photoId);
+  };
+
+  const selectAll = () => setSelectedIds(photoIds);
+
+  const clear = () => {
+    setSelectedIds([]);
+    setAnchorId(null);
+  };
+
+  const start = () => setIsSelecting(true);
+
+  const stop = () => {
+    setIsSelecting(false);
+    clear();
+  };
+
+  return {
+    isSelecting,
+    selectedIds,
+    isSelected: (photoId: number) => selectedIds.includes(photoId),
+    toggle,
+    selectAll,
+    clear,
+    start,
+    stop,
+  };
+}
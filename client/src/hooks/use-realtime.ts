@@ -0,0 +1,102 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { useAuth } from "@/contexts/AuthContext";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+
+// Reconnect delays grow up to this cap while the server is unreachable
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+function invalidate(...endpoints: string[]) {
+  endpoints.forEach(endpoint => {
+    queryClient.invalidateQueries({ queryKey: [endpoint] });
+  });
+}
+
+// Refetch whatever the event may have changed
+function handleEvent(event: RealtimeEvent) {
+  switch (event.type) {
+    case "collection":
+      invalidate(
+        API_ENDPOINTS.collections,
+        API_ENDPOINTS.collectionsWithThumbnails,
+        API_ENDPOINTS.collectionsInRange,
+        API_ENDPOINTS.collection(event.collectionId),
+        API_ENDPOINTS.collectionPhotos(event.collectionId),
+        API_ENDPOINTS.collectionMembers(event.collectionId),
+        API_ENDPOINTS.collectionTags(event.collectionId),
+        API_ENDPOINTS.tags,
+        API_ENDPOINTS.timeline,
+        API_ENDPOINTS.trash,
+      );
+      break;
+    case "photo":
+      if (event.action === "reacted") {
+        invalidate(API_ENDPOINTS.photoReactions(event.photoId));
+        break;
+      }
+      invalidate(
+        API_ENDPOINTS.photos,
+        API_ENDPOINTS.collectionPhotos(event.collectionId),
+        API_ENDPOINTS.collectionsWithThumbnails,
+        API_ENDPOINTS.collectionsInRange,
+        API_ENDPOINTS.photo(event.photoId),
+        API_ENDPOINTS.photoTags(event.photoId),
+        API_ENDPOINTS.tags,
+        API_ENDPOINTS.timeline,
+        API_ENDPOINTS.trash,
+      );
+      break;
+    case "comment":
+      invalidate(API_ENDPOINTS.photoComments(event.photoId));
+      break;
+    case "notification":
+      invalidate(API_ENDPOINTS.notifications);
+      break;
+  }
+}
+
+// Keep React Query data in sync with changes made by other people (or other tabs)
+export function useRealtimeUpdates() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data) as RealtimeEvent);
+        } catch (error) {
+          console.error("Invalid realtime message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [user?.id]);
+}
@@ -0,0 +1,132 @@
+import { API_ENDPOINTS } from "@/lib/constants";
+import { Photo } from "@shared/schema";
+import { UploadSession } from "@shared/uploads";
+import { DuplicateMatch } from "@shared/duplicates";
+
+// A finished upload, with any photos it looks like that were already in the user's memories
+export type UploadedPhoto = Photo & { duplicates?: DuplicateMatch[] };
+
+interface ChunkedUploadOptions {
+  collectionId: number;
+  title: string;
+  description?: string;
+  // Uploads the file as the motion clip of this Live Photo instead of as a new photo
+  livePhotoId?: number;
+  // Fraction of the file sent so far, from 0 to 1
+  onProgress?: (progress: number) => void;
+}
+
+const CHUNK_ATTEMPTS = 3;
+
+// Upload ids are remembered per file so an interrupted upload picks up where it
+// stopped, even after the page was reloaded and the same file picked again
+function getResumeKey(file: File, collectionId: number) {
+  return `memri:upload:${collectionId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  try {
+    const data = await response.json();
+    return new Error(data.message || fallback);
+  } catch {
+    return new Error(response.statusText || fallback);
+  }
+}
+
+async function request<T>(method: string, url: string, data?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw await readError(response, "Upload failed");
+  }
+  return await response.json();
+}
+
+// The upload to continue for this file, if the server still has it
+async function findResumableSession(resumeKey: string): Promise<UploadSession | null> {
+  const uploadId = localStorage.getItem(resumeKey);
+  if (!uploadId) return null;
+
+  const response = await fetch(API_ENDPOINTS.upload(uploadId), { credentials: "include" });
+  if (!response.ok) {
+    localStorage.removeItem(resumeKey);
+    return null;
+  }
+  return await response.json();
+}
+
+// Sends one part with XHR, which unlike fetch reports upload progress
+function sendChunk(session: UploadSession, index: number, blob: Blob, onProgress: (loaded: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", API_ENDPOINTS.uploadChunk(session.id, index));
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = xhr.statusText || "Failed to upload part of the photo";
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // Not JSON; keep the status text
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error("The connection was interrupted"));
+    xhr.send(blob);
+  });
+}
+
+// Uploads a photo in parts, resuming an earlier attempt for the same file when there
+// is one. Each part is retried a few times before giving up; the upload can then be
+// resumed by calling this again with the same file.
+export async function uploadPhotoInChunks(file: File, { collectionId, title, description, livePhotoId, onProgress }: ChunkedUploadOptions): Promise<UploadedPhoto> {
+  const resumeKey = getResumeKey(file, collectionId);
+
+  let session = await findResumableSession(resumeKey);
+  if (!session) {
+    session = await request<UploadSession>("POST", API_ENDPOINTS.uploads, {
+      collectionId,
+      livePhotoId,
+      title,
+      description,
+      fileName: file.name,
+      fileType: file.type,
+      size: file.size,
+    });
+    localStorage.setItem(resumeKey, session.id);
+  }
+
+  const chunkSize = session.chunkSize;
+  let sentBytes = session.receivedChunks.reduce((total, index) => total + Math.min(chunkSize, file.size - index * chunkSize), 0);
+  onProgress?.(sentBytes / file.size);
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (session.receivedChunks.includes(index)) continue;
+
+    const blob = file.slice(index * chunkSize, Math.min(file.size, (index + 1) * chunkSize));
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await sendChunk(session, index, blob, loaded => onProgress?.((sentBytes + loaded) / file.size));
+        break;
+      } catch (error) {
+        if (attempt >= CHUNK_ATTEMPTS) throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+    sentBytes += blob.size;
+    onProgress?.(sentBytes / file.size);
+  }
+
+  const photo = await request<UploadedPhoto>("POST", API_ENDPOINTS.completeUpload(session.id));
+  localStorage.removeItem(resumeKey);
+  return photo;
+}
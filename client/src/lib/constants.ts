@@ -38,17 +38,102 @@ export const STOCK_IMAGES = {
   ]
 };
 
+// Rendered width of a card in the 1/2/3/4 column photo grids, for <img sizes>
+export const GALLERY_IMAGE_SIZES = "(min-width: 1024px) 25vw, (min-width: 768px) 33vw, (min-width: 640px) 50vw, 100vw";
+
 export const API_ENDPOINTS = {
   photos: '/api/photos',
   collections: '/api/collections',
   collectionsWithThumbnails: '/api/collections/with-thumbnails',
+  collectionsInRange: '/api/collections/range',
   photo: (id: string | number) => `/api/photos/${id}`,
   collection: (id: string | number) => `/api/collections/${id}`,
   likePhoto: (id: string | number) => `/api/photos/${id}/like`,
+  movePhotos: '/api/photos/move',
+  copyPhotos: '/api/photos/copy',
+  batchDeletePhotos: '/api/photos/batch/delete',
+  batchLikePhotos: '/api/photos/batch/like',
+  batchTagPhotos: '/api/photos/batch/tags',
+  duplicates: '/api/duplicates',
+  mergeDuplicates: '/api/duplicates/merge',
   photosByCollection: (collectionId: string | number) => `/api/photos?collectionId=${collectionId}`,
   collectionPhotos: (collectionId: string | number) => `/api/photos?collectionId=${collectionId}`,
   photoComments: (photoId: string | number) => `/api/photos/${photoId}/comments`,
-  comment: (id: string | number) => `/api/comments/${id}`
+  commentReplies: (photoId: string | number, commentId: string | number) => `/api/photos/${photoId}/comments/${commentId}/replies`,
+  comment: (id: string | number) => `/api/comments/${id}`,
+  photoReactions: (photoId: string | number) => `/api/photos/${photoId}/reactions`,
+  photoReaction: (photoId: string | number, reaction: string) => `/api/photos/${photoId}/reactions/${reaction}`,
+  users: '/api/users',
+  register: '/api/auth/register',
+  spaces: '/api/spaces',
+  joinSpace: '/api/spaces/join',
+  spaceMembers: (spaceId: string | number) => `/api/spaces/${spaceId}/members`,
+  spaceInvites: (spaceId: string | number) => `/api/spaces/${spaceId}/invites`,
+  leaveSpace: (spaceId: string | number) => `/api/spaces/${spaceId}/members/me`,
+  collectionMembers: (collectionId: string | number) => `/api/collections/${collectionId}/members`,
+  collectionMember: (collectionId: string | number, userId: string | number) => `/api/collections/${collectionId}/members/${userId}`,
+  collectionInvitations: (collectionId: string | number) => `/api/collections/${collectionId}/invitations`,
+  timeline: '/api/timeline',
+  onThisDay: (date: string, includeWeek: boolean, spaceId?: number) =>
+    `/api/memories/on-this-day?${new URLSearchParams({ date, includeWeek: String(includeWeek), ...(spaceId ? { spaceId: String(spaceId) } : {}) })}`,
+  tags: '/api/tags',
+  photoTags: (photoId: string | number) => `/api/photos/${photoId}/tags`,
+  collectionTags: (collectionId: string | number) => `/api/collections/${collectionId}/tags`,
+  collectionCover: (collectionId: string | number) => `/api/collections/${collectionId}/cover`,
+  collectionPhotoOrder: (collectionId: string | number) => `/api/collections/${collectionId}/photos/order`,
+  collectionExport: (collectionId: string | number) => `/api/collections/${collectionId}/export`,
+  accountExport: '/api/account/export',
+  accountExportJob: (id: string) => `/api/account/export/${id}`,
+  accountExportDownload: (id: string) => `/api/account/export/${id}/download`,
+  uploads: '/api/uploads',
+  upload: (uploadId: string) => `/api/uploads/${uploadId}`,
+  uploadChunk: (uploadId: string, index: number) => `/api/uploads/${uploadId}/chunks/${index}`,
+  completeUpload: (uploadId: string) => `/api/uploads/${uploadId}/complete`,
+  notifications: '/api/notifications',
+  notification: (id: string | number) => `/api/notifications/${id}`,
+  search: (query: string, spaceId?: number) =>
+    `/api/search?${new URLSearchParams({ q: query, ...(spaceId ? { spaceId: String(spaceId) } : {}) })}`,
+  trash: '/api/trash',
+  trashedCollection: (id: string | number) => `/api/trash/collections/${id}`,
+  restoreTrashedCollection: (id: string | number) => `/api/trash/collections/${id}/restore`,
+  trashedPhoto: (id: string | number) => `/api/trash/photos/${id}`,
+  restoreTrashedPhoto: (id: string | number) => `/api/trash/photos/${id}/restore`,
+  invitations: '/api/invitations',
+  invitation: (id: string | number) => `/api/invitations/${id}`,
+  acceptInvitation: (id: string | number) => `/api/invitations/${id}/accept`,
+  declineInvitation: (id: string | number) => `/api/invitations/${id}/decline`
+};
+
+// Reactions a photo can get, in display order; "heart" is the like
+export const PHOTO_REACTIONS = [
+  { value: "heart", emoji: "❤️", label: "Love it" },
+  { value: "laugh", emoji: "😂", label: "Haha" },
+  { value: "love", emoji: "😍", label: "Adorable" },
+  { value: "wow", emoji: "😮", label: "Wow" },
+  { value: "sad", emoji: "😢", label: "Miss this" },
+] as const;
+
+// Roles a collection can be shared with
+export const COLLECTION_ROLES = [
+  { value: "editor", label: "Can edit", description: "Add, edit and delete photos" },
+  { value: "viewer", label: "Can view", description: "View, like and comment" },
+];
+
+// Ways a memory can order its photos
+export const PHOTO_ORDERS = [
+  { value: "taken", label: "When taken" },
+  { value: "uploaded", label: "When uploaded" },
+  { value: "manual", label: "Custom order" },
+] as const;
+
+// Parse a date value, treating date-only strings (YYYY-MM-DD) as local days
+// so that memory dates don't shift by a day in timezones behind UTC
+export const parseDate = (date: string | Date) => {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  return new Date(date);
 };
 
 // Format date in a human-readable way
@@ -57,5 +142,14 @@ export const formatDate = (date: string | Date | null) => {
     date = new Date();
   }
   const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
-  return new Date(date).toLocaleDateString('en-US', options);
+  return parseDate(date).toLocaleDateString('en-US', options);
+};
+
+// Length of a video clip as m:ss
+export const formatDuration = (seconds: number | null) => {
+  if (seconds === null) {
+    return "";
+  }
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
 };
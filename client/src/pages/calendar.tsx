@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek } from "date-fns";
+import { DayContentProps } from "react-day-picker";
+import Header from "@/components/Header";
+import CollectionModal from "@/components/modals/CollectionModal";
+import { Calendar } from "@/components/ui/calendar";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { Button } from "@/components/ui/button";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
+import { ArrowLeft } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { getImageUrl, getObjectPosition, FocusPoint } from "@shared/images";
+import { Collection } from "@shared/schema";
+import { useSpace } from "@/contexts/SpaceContext";
+
+type CalendarMemory = Collection & { thumbnailUrl?: string; thumbnailFocus?: FocusPoint };
+
+export default function CalendarPage() {
+  const [, navigate] = useLocation();
+  const { currentSpace } = useSpace();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  // Day picked for a new memory (YYYY-MM-DD); the modal is open while set
+  const [newMemoryDate, setNewMemoryDate] = useState<string | null>(null);
+  const [isCollectionModalOpen, setIsCollectionModalOpen] = useState(false);
+
+  // Cover the whole visible grid, including the days shown from the months around it
+  const from = format(startOfWeek(startOfMonth(month)), "yyyy-MM-dd");
+  const to = format(endOfWeek(endOfMonth(month)), "yyyy-MM-dd");
+
+  const { data: memories = [] } = useQuery<CalendarMemory[]>({
+    queryKey: [API_ENDPOINTS.collectionsInRange, from, to, currentSpace?.id],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      if (currentSpace) params.set("spaceId", String(currentSpace.id));
+      const response = await apiRequest("GET", `${API_ENDPOINTS.collectionsInRange}?${params}`);
+      return await response.json();
+    },
+    // Keep the marks on screen while the next month loads
+    placeholderData: keepPreviousData,
+  });
+
+  const memoriesByDay = memories.reduce<Record<string, CalendarMemory[]>>((days, memory) => {
+    (days[memory.memoryDate] ??= []).push(memory);
+    return days;
+  }, {});
+
+  const memoryDays = Object.keys(memoriesByDay).map(day => {
+    const [year, monthIndex, date] = day.split("-").map(Number);
+    return new Date(year, monthIndex - 1, date);
+  });
+
+  const handleDayClick = (day: Date) => {
+    const dayMemories = memoriesByDay[format(day, "yyyy-MM-dd")];
+    if (dayMemories?.length) {
+      navigate(`/date-memory/${dayMemories[0].id}`);
+    } else {
+      setNewMemoryDate(format(day, "yyyy-MM-dd"));
+    }
+  };
+
+  function DayContent({ date }: DayContentProps) {
+    const dayMemories = memoriesByDay[format(date, "yyyy-MM-dd")];
+    if (!dayMemories) {
+      return <span>{date.getDate()}</span>;
+    }
+
+    return (
+      <HoverCard openDelay={150} closeDelay={50}>
+        <HoverCardTrigger asChild>
+          <span className="flex h-full w-full flex-col items-center justify-center gap-1">
+            <span>{date.getDate()}</span>
+            <span className="h-1.5 w-1.5 rounded-full bg-[#9C7178]" />
+          </span>
+        </HoverCardTrigger>
+        <HoverCardContent className="w-64 p-2" onClick={(e) => e.stopPropagation()}>
+          <div className="space-y-2">
+            {dayMemories.map(memory => (
+              <button
+                key={memory.id}
+                type="button"
+                onClick={() => navigate(`/date-memory/${memory.id}`)}
+                className="flex w-full items-center gap-3 rounded-md p-1 text-left hover:bg-[#F4F1EA]"
+              >
+                {memory.thumbnailUrl ? (
+                  <img
+                    src={getImageUrl(memory.thumbnailUrl, "thumbnail")}
+                    alt={memory.name}
+                    className="h-14 w-14 flex-shrink-0 rounded object-cover"
+                    style={{ objectPosition: getObjectPosition(memory.thumbnailFocus) }}
+                  />
+                ) : (
+                  <div className="h-14 w-14 flex-shrink-0 rounded bg-[#F4F1EA]" />
+                )}
+                <span className="min-w-0">
+                  <span className="block font-quicksand font-semibold text-sm truncate">{memory.name}</span>
+                  {memory.description && (
+                    <span className="block text-xs text-gray-500 line-clamp-2">{memory.description}</span>
+                  )}
+                </span>
+              </button>
+            ))}
+          </div>
+        </HoverCardContent>
+      </HoverCard>
+    );
+  }
+
+  return (
+    <div className="bg-[#F4F1EA] min-h-screen relative font-lato text-[#4A4A4A]">
+      <WatercolorOverlay />
+
+      <Header onCreateCollection={() => setIsCollectionModalOpen(true)} />
+
+      <section className="container mx-auto px-4 py-8 relative">
+        <div className="flex items-center gap-2 mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="text-[#4A4A4A] hover:text-[#9C7178]"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <h2 className="font-quicksand font-bold text-2xl">Our Calendar</h2>
+        </div>
+
+        <HandDrawn className="bg-white p-4 md:p-6 max-w-3xl mx-auto overflow-visible">
+          <Calendar
+            month={month}
+            onMonthChange={setMonth}
+            onDayClick={handleDayClick}
+            modifiers={{ hasMemory: memoryDays }}
+            modifiersClassNames={{ hasMemory: "bg-[#E6B89C]/30 font-semibold text-[#9C7178]" }}
+            components={{ DayContent }}
+            className="p-0"
+            classNames={{
+              months: "w-full",
+              month: "w-full space-y-4",
+              caption_label: "font-quicksand font-bold text-xl text-[#4A4A4A]",
+              head_row: "grid grid-cols-7",
+              head_cell: "text-muted-foreground font-normal text-sm text-center",
+              row: "grid grid-cols-7 mt-2 gap-1",
+              cell: "relative p-0 text-center",
+              day: "h-14 md:h-20 w-full rounded-md text-sm hover:bg-[#F4F1EA] transition-colors",
+              day_today: "ring-2 ring-[#88B9B0]",
+            }}
+          />
+          <p className="mt-4 text-center text-sm text-gray-500">
+            Hover a marked day to see its memories, or pick an empty day to add one.
+          </p>
+        </HandDrawn>
+      </section>
+
+      {(isCollectionModalOpen || newMemoryDate) && (
+        <CollectionModal
+          isOpen
+          initialDate={newMemoryDate ?? undefined}
+          onClose={() => {
+            setIsCollectionModalOpen(false);
+            setNewMemoryDate(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
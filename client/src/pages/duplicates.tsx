@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import CollectionModal from "@/components/modals/CollectionModal";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
+import { ArrowLeft, Check, Copy, Merge, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { getImageUrl } from "@shared/images";
+import { DuplicateGroup } from "@shared/duplicates";
+import { MergeDuplicatesRequest } from "@shared/schema";
+import { useSpace } from "@/contexts/SpaceContext";
+import { MediaBadge } from "@/components/PhotoMedia";
+
+// Everything a merge or delete can change
+function invalidateAfterDuplicatesChange() {
+  [
+    API_ENDPOINTS.duplicates,
+    API_ENDPOINTS.trash,
+    API_ENDPOINTS.collectionsWithThumbnails,
+    API_ENDPOINTS.photos,
+    API_ENDPOINTS.tags,
+    API_ENDPOINTS.timeline,
+  ].forEach(endpoint => queryClient.invalidateQueries({ queryKey: [endpoint] }));
+}
+
+// A group is known by its earliest photo, which stays put as the copies are removed
+function getGroupKey(group: DuplicateGroup) {
+  return group.photos[0].id;
+}
+
+export default function DuplicatesPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { currentSpace } = useSpace();
+  const [isCollectionModalOpen, setIsCollectionModalOpen] = useState(false);
+  // The photo to keep in each group, by group key; the earliest upload unless chosen
+  const [keptIds, setKeptIds] = useState<Record<number, number>>({});
+
+  const { data: groups, isLoading } = useQuery<DuplicateGroup[]>({
+    queryKey: [API_ENDPOINTS.duplicates, currentSpace?.id],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (currentSpace) params.set("spaceId", String(currentSpace.id));
+      const response = await apiRequest("GET", `${API_ENDPOINTS.duplicates}?${params}`);
+      return await response.json();
+    },
+  });
+
+  const getKeptId = (group: DuplicateGroup) => {
+    const keptId = keptIds[getGroupKey(group)];
+    return group.photos.some(photo => photo.id === keptId) ? keptId : group.photos[0].id;
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: (data: MergeDuplicatesRequest) => apiRequest("POST", API_ENDPOINTS.mergeDuplicates, data),
+    onSuccess: (_response, data) => {
+      const count = data.photoIds.length - 1;
+      toast({
+        title: "Duplicates merged",
+        description: `${count} cop${count === 1 ? "y" : "ies"} moved to the trash. Their comments, reactions and tags are on the photo you kept.`,
+      });
+      invalidateAfterDuplicatesChange();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to merge photos",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (photoId: number) => apiRequest("POST", API_ENDPOINTS.batchDeletePhotos, { photoIds: [photoId] }),
+    onSuccess: () => {
+      toast({
+        title: "Photo moved to trash",
+        description: "You can restore it from the trash if you change your mind.",
+      });
+      invalidateAfterDuplicatesChange();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete photo",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const isPending = mergeMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="bg-[#F4F1EA] min-h-screen relative font-lato text-[#4A4A4A]">
+      <WatercolorOverlay />
+
+      <Header onCreateCollection={() => setIsCollectionModalOpen(true)} />
+
+      <section className="container mx-auto px-4 py-8 relative">
+        <div className="flex items-center gap-2 mb-2">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="text-[#4A4A4A] hover:text-[#9C7178]"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <h2 className="font-quicksand font-bold text-2xl">Duplicates</h2>
+        </div>
+        <p className="text-sm text-gray-500 mb-8">
+          Photos that were uploaded more than once, or look almost the same. Pick the one to keep and merge the rest into it, or delete copies one by one.
+        </p>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            {[...Array(2)].map((_, index) => (
+              <Skeleton key={index} className="h-64 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : !groups || groups.length === 0 ? (
+          <HandDrawn className="bg-white p-8 max-w-lg mx-auto text-center">
+            <h3 className="font-quicksand font-bold text-xl mb-2 text-[#9C7178]">No duplicates</h3>
+            <p>Every photo in your memories is one of a kind.</p>
+          </HandDrawn>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => {
+              const keptId = getKeptId(group);
+              return (
+                <HandDrawn key={getGroupKey(group)} className="bg-white p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                    <span className="flex items-center gap-2 text-sm text-gray-600">
+                      <Copy className="h-4 w-4 text-[#9C7178]" />
+                      {group.exact ? "Identical files" : "Similar photos"} · {group.photos.length} copies
+                    </span>
+                    <Button
+                      size="sm"
+                      onClick={() => mergeMutation.mutate({ keepPhotoId: keptId, photoIds: group.photos.map(photo => photo.id) })}
+                      disabled={isPending}
+                      className="bg-[#9C7178] hover:bg-[#9C7178]/90 text-white"
+                    >
+                      <Merge className="mr-1 h-4 w-4" /> Keep selected, merge the rest
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                    {group.photos.map(photo => {
+                      const isKept = photo.id === keptId;
+                      return (
+                        <div
+                          key={photo.id}
+                          className={`rounded-lg border-2 overflow-hidden cursor-pointer ${isKept ? "border-[#9C7178]" : "border-transparent"}`}
+                          onClick={() => setKeptIds(prev => ({ ...prev, [getGroupKey(group)]: photo.id }))}
+                        >
+                          <div className="relative">
+                            <img
+                              src={getImageUrl(photo.filePath, "thumbnail")}
+                              alt={photo.title}
+                              loading="lazy"
+                              className="h-36 w-full object-cover"
+                            />
+                            <MediaBadge photo={photo} />
+                            {isKept && (
+                              <span className="absolute top-2 left-2 flex items-center gap-1 rounded-full bg-[#9C7178] px-2 py-0.5 text-xs text-white">
+                                <Check className="h-3 w-3" /> Keep
+                              </span>
+                            )}
+                          </div>
+                          <div className="p-2">
+                            <h4 className="font-quicksand font-semibold text-sm truncate">{photo.title}</h4>
+                            <p className="text-xs text-gray-500 truncate">In {photo.collectionName}</p>
+                            <p className="text-xs text-gray-500">
+                              {formatDate(photo.takenAt ?? photo.uploadedAt)}
+                              {photo.width && photo.height ? ` · ${photo.width}×${photo.height}` : ""}
+                            </p>
+                            {!isKept && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="mt-2 w-full"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deleteMutation.mutate(photo.id);
+                                }}
+                                disabled={isPending}
+                              >
+                                <Trash2 className="mr-1 h-3 w-3" /> Delete
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </HandDrawn>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {isCollectionModalOpen && (
+        <CollectionModal
+          isOpen={isCollectionModalOpen}
+          onClose={() => setIsCollectionModalOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
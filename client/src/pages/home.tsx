@@ -4,35 +4,59 @@ import Header from "@/components/Header";
 import SimplifiedFilter from "@/components/CollectionFilter";
 import DateMemoriesGallery from "@/components/DateMemoriesGallery";
 import NewCollectionBanner from "@/components/NewCollectionBanner";
+import PendingInvitations from "@/components/PendingInvitations";
+import OnThisDayBanner from "@/components/OnThisDayBanner";
 import CollectionModal from "@/components/modals/CollectionModal";
-import { API_ENDPOINTS } from "@/lib/constants";
+import { API_ENDPOINTS, parseDate } from "@/lib/constants";
 import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
-import { Collection } from "@shared/schema";
+import { Collection, TagWithUsage } from "@shared/schema";
+import { FocusPoint } from "@shared/images";
+import { useSpace } from "@/contexts/SpaceContext";
 
 export default function Home() {
   const [isCollectionModalOpen, setIsCollectionModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortOrder, setSortOrder] = useState("newest");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
 
   // Fetch collections (using as date memories)
-  const { data: dateMemories = [], isLoading: dateMemoriesLoading } = useQuery<(Collection & { thumbnailUrl?: string })[]>({
+  const { data: dateMemories = [], isLoading: dateMemoriesLoading } = useQuery<(Collection & { thumbnailUrl?: string; thumbnailFocus?: FocusPoint; tags: string[] })[]>({
     queryKey: [API_ENDPOINTS.collectionsWithThumbnails],
   });
 
+  const { data: allTags = [] } = useQuery<TagWithUsage[]>({
+    queryKey: [API_ENDPOINTS.tags],
+  });
+
+  const { currentSpace } = useSpace();
+
+  // Only show memories from the current space
+  const spaceMemories = currentSpace
+    ? dateMemories.filter(memory => memory.spaceId === currentSpace.id)
+    : dateMemories;
+  const spaceTags = currentSpace
+    ? allTags.filter(tag => tag.spaceId === currentSpace.id)
+    : allTags;
+
+  // A memory matches when it (or one of its photos) has every selected tag
+  const taggedMemories = selectedTags.length > 0
+    ? spaceMemories.filter(memory => selectedTags.every(tag => memory.tags.includes(tag)))
+    : spaceMemories;
+
   // Filter date memories based on search query
   const filteredMemories = searchQuery 
-    ? dateMemories.filter(memory => 
+    ? taggedMemories.filter(memory => 
         memory.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
         (memory.description && memory.description.toLowerCase().includes(searchQuery.toLowerCase()))
       )
-    : dateMemories;
+    : taggedMemories;
 
-  // Sort date memories based on sort order
+  // Sort date memories based on sort order, using the day the memory happened
   const sortedMemories = [...filteredMemories].sort((a, b) => {
     if (sortOrder === "newest") {
-      return new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime();
+      return parseDate(b.memoryDate).getTime() - parseDate(a.memoryDate).getTime();
     } else if (sortOrder === "oldest") {
-      return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
+      return parseDate(a.memoryDate).getTime() - parseDate(b.memoryDate).getTime();
     } else if (sortOrder === "name") {
       return a.name.localeCompare(b.name);
     }
@@ -45,11 +69,18 @@ export default function Home() {
       
       <Header onCreateCollection={() => setIsCollectionModalOpen(true)} />
       
+      <PendingInvitations />
+      
+      <OnThisDayBanner />
+      
       <SimplifiedFilter 
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
         sortOrder={sortOrder}
         onSortChange={setSortOrder}
+        tags={spaceTags}
+        selectedTags={selectedTags}
+        onSelectedTagsChange={setSelectedTags}
       />
       
       <DateMemoriesGallery 
@@ -20,6 +20,7 @@ export default function LoginPage() {
   const { user, login } = useAuth();
   const [hoveredUser, setHoveredUser] = useState<string | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -46,23 +47,33 @@ export default function LoginPage() {
     }
   ];
 
+  // Any other account signs in by typing its username
+  const otherAccount: User = {
+    id: "",
+    name: "Someone else",
+    avatar: "+",
+    color: "#9C7178"
+  };
+
   const handleUserSelect = (user: User) => {
     setSelectedUser(user);
+    setUsername("");
     setPassword("");
   };
 
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedUser || !password) return;
+    const loginUsername = selectedUser?.id || username.trim();
+    if (!selectedUser || !loginUsername || !password) return;
 
     setIsLoading(true);
     
     try {
-      const success = await login(selectedUser.id, password);
+      const success = await login(loginUsername, password);
 
       if (success) {
         toast({
-          title: `Welcome back, ${selectedUser.name}!`,
+          title: `Welcome back, ${selectedUser.id ? selectedUser.name : loginUsername}!`,
           description: "You have successfully signed in to Memri.",
         });
         
@@ -89,6 +100,7 @@ export default function LoginPage() {
 
   const handleBack = () => {
     setSelectedUser(null);
+    setUsername("");
     setPassword("");
     setShowPassword(false);
   };
@@ -118,8 +130,8 @@ export default function LoginPage() {
             </div>
 
             {/* User Profiles */}
-            <div className="flex gap-8 md:gap-12">
-              {users.map((user) => (
+            <div className="flex flex-wrap justify-center gap-8 md:gap-12">
+              {[...users, otherAccount].map((user) => (
                 <div
                   key={user.id}
                   className="flex flex-col items-center cursor-pointer group"
@@ -150,6 +162,14 @@ export default function LoginPage() {
                 </div>
               ))}
             </div>
+
+            <Button
+              variant="ghost"
+              onClick={() => navigate('/register')}
+              className="mt-12 text-[#F4F1EA] hover:text-white hover:bg-white/10 transition-colors font-quicksand"
+            >
+              New here? Create an account
+            </Button>
           </>
         ) : (
           /* Password Input Screen */
@@ -189,6 +209,21 @@ export default function LoginPage() {
                   </p>
                 </div>
                 
+                {!selectedUser.id && (
+                  <div className="max-w-md mx-auto">
+                    <Input
+                      type="text"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                      placeholder="Your username..."
+                      className="h-16 text-xl bg-white/10 border-2 border-white/20 focus:border-white/40 focus:ring-0 text-[#F4F1EA] placeholder:text-[#F4F1EA]/60 rounded-xl backdrop-blur-sm"
+                      autoComplete="username"
+                      required
+                      autoFocus
+                    />
+                  </div>
+                )}
+                
                 <div className="relative max-w-md mx-auto">
                   <Input
                     type={showPassword ? "text" : "password"}
@@ -197,7 +232,7 @@ export default function LoginPage() {
                     placeholder="Type your password..."
                     className="h-16 text-xl bg-white/10 border-2 border-white/20 focus:border-white/40 focus:ring-0 text-[#F4F1EA] placeholder:text-[#F4F1EA]/60 rounded-xl backdrop-blur-sm"
                     required
-                    autoFocus
+                    autoFocus={!!selectedUser.id}
                   />
                   <Button
                     type="button"
@@ -218,7 +253,7 @@ export default function LoginPage() {
               <div className="text-center">
                 <Button
                   type="submit"
-                  disabled={!password || isLoading}
+                  disabled={!password || (!selectedUser.id && !username.trim()) || isLoading}
                   className="h-14 px-12 text-lg font-quicksand font-medium bg-[#F4F1EA] text-[#4A4A4A] hover:bg-white transition-all duration-200 rounded-xl shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isLoading ? "Signing in..." : "Continue"}
@@ -9,6 +9,9 @@ import { HandDrawn } from "@/components/ui/hand-drawn";
 import { Camera, User, Lock, Save, ArrowLeft, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { WEB_IMAGE_TYPES } from "@shared/uploads";
+import SpaceSettings from "@/components/SpaceSettings";
+import AccountExport from "@/components/AccountExport";
 
 interface User {
   id: number;
@@ -181,7 +184,7 @@ export default function ProfilePage() {
                       <Input
                         id="profilePicture"
                         type="file"
-                        accept="image/*"
+                        accept={WEB_IMAGE_TYPES.join(",")}
                         onChange={handleProfilePictureChange}
                         className="hidden"
                       />
@@ -277,6 +280,14 @@ export default function ProfilePage() {
               </form>
             </CardContent>
           </Card>
+
+          <div className="mt-8">
+            <SpaceSettings />
+          </div>
+
+          <div className="mt-8">
+            <AccountExport />
+          </div>
         </div>
       </div>
     </div>
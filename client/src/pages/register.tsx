@@ -0,0 +1,226 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
+import { Camera, ArrowLeft, Eye, EyeOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+
+export default function RegisterPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user, register } = useAuth();
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  // Invite links look like /register?code=ABCD2345
+  const [inviteCode, setInviteCode] = useState(
+    () => new URLSearchParams(window.location.search).get("code") || ""
+  );
+  const [spaceName, setSpaceName] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Redirect if already logged in
+  useEffect(() => {
+    if (user) {
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Password Mismatch",
+        description: "Passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await register({
+        username: username.trim(),
+        password,
+        displayName: displayName.trim(),
+        inviteCode: inviteCode.trim() || undefined,
+        spaceName: spaceName.trim() || undefined,
+      });
+
+      if (result.success) {
+        toast({
+          title: `Welcome, ${displayName.trim()}!`,
+          description: inviteCode.trim()
+            ? "Your account is ready and you've joined the shared space."
+            : "Your account and space are ready. Invite your partner from your profile.",
+        });
+        navigate("/");
+      } else {
+        toast({
+          title: "Registration Failed",
+          description: result.message || "Could not create your account. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = "h-12 text-lg bg-white/10 border-2 border-white/20 focus:border-white/40 focus:ring-0 text-[#F4F1EA] placeholder:text-[#F4F1EA]/60 rounded-xl backdrop-blur-sm";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#4A4A4A] via-[#9C7178] to-[#E6B89C] relative font-lato">
+      <WatercolorOverlay opacity={0.15} />
+
+      {/* Header */}
+      <div className="relative z-10 p-6">
+        <div className="flex items-center">
+          <Camera className="h-8 w-8 text-[#F4F1EA] mr-3" />
+          <h1 className="text-2xl font-quicksand font-bold text-[#F4F1EA]">
+            Memri
+          </h1>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="relative z-10 flex flex-col items-center justify-center min-h-[calc(100vh-120px)] px-4 py-8">
+        <div className="w-full max-w-lg mx-auto">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/login')}
+            className="mb-8 text-[#F4F1EA] hover:text-white hover:bg-white/10 transition-colors"
+          >
+            <ArrowLeft className="mr-2 h-5 w-5" />
+            Back to sign in
+          </Button>
+
+          <div className="text-center mb-8">
+            <h2 className="text-4xl md:text-5xl font-quicksand font-bold text-[#F4F1EA] mb-2">
+              Start your memory book
+            </h2>
+            <p className="text-[#F4F1EA] opacity-80 text-lg">
+              Create an account, then invite the people you share memories with
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="displayName" className="text-[#F4F1EA]">Your name</Label>
+              <Input
+                id="displayName"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="How should we call you?"
+                className={inputClassName}
+                required
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="username" className="text-[#F4F1EA]">Username</Label>
+              <Input
+                id="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Used to sign in"
+                className={inputClassName}
+                autoComplete="username"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password" className="text-[#F4F1EA]">Password</Label>
+              <div className="relative">
+                <Input
+                  id="password"
+                  type={showPassword ? "text" : "password"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="At least 8 characters"
+                  className={inputClassName}
+                  autoComplete="new-password"
+                  minLength={8}
+                  required
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-2 top-1/2 transform -translate-y-1/2 text-[#F4F1EA]/60 hover:text-[#F4F1EA] hover:bg-transparent"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword" className="text-[#F4F1EA]">Confirm password</Label>
+              <Input
+                id="confirmPassword"
+                type={showPassword ? "text" : "password"}
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Type it again"
+                className={inputClassName}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="inviteCode" className="text-[#F4F1EA]">Invite code (optional)</Label>
+              <Input
+                id="inviteCode"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                placeholder="Joining your partner? Paste their code"
+                className={`${inputClassName} tracking-widest`}
+              />
+            </div>
+
+            {!inviteCode.trim() && (
+              <div className="space-y-2">
+                <Label htmlFor="spaceName" className="text-[#F4F1EA]">Name your space (optional)</Label>
+                <Input
+                  id="spaceName"
+                  value={spaceName}
+                  onChange={(e) => setSpaceName(e.target.value)}
+                  placeholder={displayName.trim() ? `${displayName.trim()}'s Memories` : "E.g., Our Memories"}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            <div className="text-center pt-4">
+              <Button
+                type="submit"
+                disabled={!username || !displayName || !password || !confirmPassword || isLoading}
+                className="h-14 px-12 text-lg font-quicksand font-medium bg-[#F4F1EA] text-[#4A4A4A] hover:bg-white transition-all duration-200 rounded-xl shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? "Creating account..." : "Create account"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="relative z-10 text-center pb-6">
+        <p className="text-[#F4F1EA] text-sm opacity-80">
+          Capture and cherish your most precious moments
+        </p>
+      </div>
+    </div>
+  );
+}
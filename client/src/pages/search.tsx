@@ -0,0 +1,222 @@
+import { useState, useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import CollectionModal from "@/components/modals/CollectionModal";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
+import { Search, ArrowLeft, Calendar, Image, MessageCircle, BookHeart } from "lucide-react";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { getImageUrl } from "@shared/images";
+import { HIGHLIGHT_START, HIGHLIGHT_END, SearchResult, SearchResultType } from "@shared/search";
+import { useSpace } from "@/contexts/SpaceContext";
+
+const RESULT_TYPES: { value: SearchResultType | "all"; label: string }[] = [
+  { value: "all", label: "Everything" },
+  { value: "collection", label: "Memories" },
+  { value: "photo", label: "Photos" },
+  { value: "comment", label: "Comments" },
+];
+
+const RESULT_ICONS = {
+  collection: BookHeart,
+  photo: Image,
+  comment: MessageCircle,
+};
+
+// Render the server's highlight markers as <mark> without injecting HTML
+function Highlight({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START);
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) {
+          return <span key={index}>{part}</span>;
+        }
+        const [matched, rest = ""] = part.split(HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-[#E6B89C]/40 text-inherit rounded px-0.5">{matched}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+export default function SearchPage() {
+  const [, navigate] = useLocation();
+  const searchString = useSearch();
+  const query = new URLSearchParams(searchString).get("q")?.trim() || "";
+  const [input, setInput] = useState(query);
+  const [typeFilter, setTypeFilter] = useState<SearchResultType | "all">("all");
+  const [isCollectionModalOpen, setIsCollectionModalOpen] = useState(false);
+  const { currentSpace } = useSpace();
+
+  // Keep the box in sync when navigating between searches
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const { data: results = [], isLoading, error } = useQuery<SearchResult[]>({
+    queryKey: [API_ENDPOINTS.search(query, currentSpace?.id)],
+    enabled: query.length >= 2,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = input.trim();
+    if (trimmed.length >= 2) {
+      navigate(`/search?q=${encodeURIComponent(trimmed)}`);
+    }
+  };
+
+  const openResult = (result: SearchResult) => {
+    if (result.type === "collection") {
+      navigate(`/date-memory/${result.collectionId}`);
+    } else {
+      navigate(`/photo/${result.photoId}`);
+    }
+  };
+
+  const countFor = (type: SearchResultType | "all") =>
+    type === "all" ? results.length : results.filter(result => result.type === type).length;
+
+  const shownResults = typeFilter === "all"
+    ? results
+    : results.filter(result => result.type === typeFilter);
+
+  return (
+    <div className="bg-[#F4F1EA] min-h-screen relative font-lato text-[#4A4A4A]">
+      <WatercolorOverlay />
+
+      <Header onCreateCollection={() => setIsCollectionModalOpen(true)} />
+
+      <section className="container mx-auto px-4 py-8 relative">
+        <Button
+          variant="ghost"
+          onClick={() => navigate("/")}
+          className="mb-4 text-[#4A4A4A] hover:text-[#9C7178]"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to memories
+        </Button>
+
+        <h2 className="font-quicksand font-bold text-2xl mb-6">
+          {query ? <>Results for "{query}"</> : "Search"}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="max-w-xl mb-6">
+          <HandDrawn>
+            <div className="relative">
+              <Search className="absolute left-3 top-3 text-[#E6B89C]" size={16} />
+              <Input
+                type="text"
+                placeholder="Search memories, photos and comments..."
+                className="pl-10 pr-4 py-2 bg-white border border-[#E6B89C] font-lato"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                autoFocus
+              />
+            </div>
+          </HandDrawn>
+        </form>
+
+        {query.length >= 2 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {RESULT_TYPES.map(type => (
+              <button
+                key={type.value}
+                type="button"
+                onClick={() => setTypeFilter(type.value)}
+                className={`rounded-full border px-3 py-1 text-sm transition-colors ${
+                  typeFilter === type.value
+                    ? 'border-[#9C7178] bg-[#9C7178] text-white'
+                    : 'border-[#E6B89C] bg-white hover:bg-[#F4F1EA]'
+                }`}
+              >
+                {type.label} ({countFor(type.value)})
+              </button>
+            ))}
+          </div>
+        )}
+
+        {query.length < 2 ? (
+          <p className="text-gray-500">Type at least two characters to search.</p>
+        ) : isLoading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, index) => (
+              <Skeleton key={index} className="h-24 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-red-600">
+            {error instanceof Error ? error.message : "Search failed"}
+          </p>
+        ) : shownResults.length === 0 ? (
+          <HandDrawn className="bg-white p-8 max-w-lg text-center">
+            <h3 className="font-quicksand font-bold text-xl mb-2 text-[#9C7178]">Nothing found</h3>
+            <p>Try different words, or search for a place, a person or a feeling.</p>
+          </HandDrawn>
+        ) : (
+          <div className="space-y-3">
+            {shownResults.map(result => {
+              const Icon = RESULT_ICONS[result.type];
+              return (
+                <div
+                  key={`${result.type}-${result.id}`}
+                  onClick={() => openResult(result)}
+                  className="flex gap-4 bg-white rounded-lg shadow-md p-4 cursor-pointer transition-transform hover:-translate-y-0.5 hover:shadow-lg"
+                >
+                  {result.filePath ? (
+                    <img
+                      src={getImageUrl(result.filePath, "thumbnail")}
+                      alt={result.title}
+                      loading="lazy"
+                      className="h-20 w-20 flex-shrink-0 rounded object-cover"
+                    />
+                  ) : (
+                    <div className="h-20 w-20 flex-shrink-0 rounded bg-[#F4F1EA] flex items-center justify-center">
+                      <Icon className="h-8 w-8 text-[#E6B89C]" />
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-grow">
+                    <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                      <Icon className="h-3 w-3" />
+                      <span>
+                        {result.type === "collection" && "Memory"}
+                        {result.type === "photo" && `Photo in ${result.collectionName}`}
+                        {result.type === "comment" && `${result.authorName || "Someone"} commented on ${result.title}`}
+                      </span>
+                    </div>
+                    {result.type !== "comment" && (
+                      <h3 className="font-quicksand font-semibold text-lg truncate">{result.title}</h3>
+                    )}
+                    <p className="text-sm text-gray-600 line-clamp-2">
+                      <Highlight text={result.highlight} />
+                    </p>
+                    <span className="text-xs text-gray-500 flex items-center mt-1">
+                      <Calendar className="h-3 w-3 mr-1" />
+                      {formatDate(result.memoryDate)}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {isCollectionModalOpen && (
+        <CollectionModal
+          isOpen={isCollectionModalOpen}
+          onClose={() => setIsCollectionModalOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState, useEffect, useRef } from "react";
+import { useLocation } from "wouter";
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import CollectionModal from "@/components/modals/CollectionModal";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
+import { ArrowLeft, ArrowUp, Calendar, Image } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { getImageUrl } from "@shared/images";
+import { TimelinePage, TimelineMonthSummary } from "@shared/timeline";
+import { useSpace } from "@/contexts/SpaceContext";
+
+// Months of memories fetched per page
+const MONTHS_PER_PAGE = 6;
+
+function formatMonth(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString("en-US", { year: "numeric", month: "long" });
+}
+
+// Roll the month summary up into years for the scrubber
+function groupByYear(summary: TimelineMonthSummary[]) {
+  return summary.reduce<{ year: string; newestMonth: string; collectionCount: number }[]>((years, entry) => {
+    const year = entry.month.slice(0, 4);
+    const existing = years.find(item => item.year === year);
+    if (existing) {
+      existing.collectionCount += entry.collectionCount;
+    } else {
+      years.push({ year, newestMonth: entry.month, collectionCount: entry.collectionCount });
+    }
+    return years;
+  }, []);
+}
+
+export default function Timeline() {
+  const [, navigate] = useLocation();
+  const { currentSpace } = useSpace();
+  const [isCollectionModalOpen, setIsCollectionModalOpen] = useState(false);
+  // Month the timeline starts from after a jump; null starts at the newest memory
+  const [startMonth, setStartMonth] = useState<string | null>(null);
+  const [pendingScrollMonth, setPendingScrollMonth] = useState<string | null>(null);
+  const [visibleMonth, setVisibleMonth] = useState<string | null>(null);
+  const [jumpValue, setJumpValue] = useState("");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [API_ENDPOINTS.timeline, currentSpace?.id, startMonth],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(MONTHS_PER_PAGE) });
+      if (currentSpace) params.set("spaceId", String(currentSpace.id));
+      if (pageParam) params.set("from", pageParam);
+      const response = await apiRequest("GET", `${API_ENDPOINTS.timeline}?${params}`);
+      return await response.json() as TimelinePage;
+    },
+    initialPageParam: startMonth,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Keep the scrubber on screen while a jump loads
+    placeholderData: keepPreviousData,
+  });
+
+  const months = data?.pages.flatMap(page => page.months) ?? [];
+  const summary = data?.pages[0]?.summary ?? [];
+  const years = groupByYear(summary);
+  const activeYear = (visibleMonth ?? months[0]?.month)?.slice(0, 4);
+
+  // Load older months when the bottom of the timeline scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Track which month is on screen so the scrubber can follow along
+  useEffect(() => {
+    const sections = document.querySelectorAll<HTMLElement>("[data-timeline-month]");
+    const observer = new IntersectionObserver((entries) => {
+      const visible = entries.find(entry => entry.isIntersecting);
+      if (visible) {
+        setVisibleMonth((visible.target as HTMLElement).dataset.timelineMonth ?? null);
+      }
+    }, { rootMargin: "0px 0px -70% 0px" });
+    sections.forEach(section => observer.observe(section));
+    return () => observer.disconnect();
+  }, [months.length]);
+
+  // After jumping to a month that wasn't loaded yet, scroll once it renders
+  useEffect(() => {
+    if (!pendingScrollMonth) return;
+    const section = document.getElementById(`month-${pendingScrollMonth}`);
+    if (section) {
+      section.scrollIntoView({ behavior: "smooth", block: "start" });
+      setPendingScrollMonth(null);
+    }
+  }, [pendingScrollMonth, months.length]);
+
+  const jumpTo = (month: string) => {
+    // Land on the newest month with memories on or before the one asked for
+    const target = summary.find(entry => entry.month <= month)?.month ?? summary[summary.length - 1]?.month;
+    if (!target) return;
+
+    if (!months.some(entry => entry.month === target)) {
+      setStartMonth(target);
+    }
+    setPendingScrollMonth(target);
+  };
+
+  const backToNewest = () => {
+    setStartMonth(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="bg-[#F4F1EA] min-h-screen relative font-lato text-[#4A4A4A]">
+      <WatercolorOverlay />
+
+      <Header onCreateCollection={() => setIsCollectionModalOpen(true)} />
+
+      <section className="container mx-auto px-4 py-8 relative">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => navigate("/")}
+              className="text-[#4A4A4A] hover:text-[#9C7178]"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+            <h2 className="font-quicksand font-bold text-2xl">Our Timeline</h2>
+          </div>
+
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (jumpValue) jumpTo(jumpValue);
+            }}
+          >
+            <label htmlFor="jump-to-date" className="text-sm">Jump to</label>
+            <HandDrawn>
+              <Input
+                id="jump-to-date"
+                type="month"
+                value={jumpValue}
+                onChange={(e) => setJumpValue(e.target.value)}
+                className="bg-white border border-[#E6B89C] font-lato"
+              />
+            </HandDrawn>
+            <Button
+              type="submit"
+              disabled={!jumpValue || summary.length === 0}
+              className="bg-[#9C7178] hover:bg-opacity-90 text-white font-quicksand"
+            >
+              Go
+            </Button>
+          </form>
+        </div>
+
+        <div className="flex gap-8">
+          <div className="flex-grow min-w-0">
+            {startMonth && (
+              <Button
+                variant="outline"
+                onClick={backToNewest}
+                className="mb-6 border-[#88B9B0] text-[#88B9B0] hover:bg-[#88B9B0] hover:text-white"
+              >
+                <ArrowUp className="mr-2 h-4 w-4" /> Show newer memories
+              </Button>
+            )}
+
+            {isLoading ? (
+              <div className="space-y-6">
+                {[...Array(3)].map((_, index) => (
+                  <div key={index} className="space-y-3">
+                    <Skeleton className="h-6 w-40" />
+                    <Skeleton className="h-32 w-full rounded-lg" />
+                  </div>
+                ))}
+              </div>
+            ) : months.length === 0 ? (
+              <HandDrawn className="bg-white p-8 max-w-lg mx-auto text-center">
+                <h3 className="font-quicksand font-bold text-xl mb-4 text-[#9C7178]">No memories yet</h3>
+                <p className="mb-6">Your timeline fills up as you add date memories.</p>
+                <Button
+                  className="bg-[#E6B89C] hover:bg-[#9C7178] text-white"
+                  onClick={() => setIsCollectionModalOpen(true)}
+                >
+                  Add Your First Date Memory
+                </Button>
+              </HandDrawn>
+            ) : (
+              <ol className="relative border-l-2 border-[#E6B89C] ml-3">
+                {months.map(entry => (
+                  <li
+                    key={entry.month}
+                    id={`month-${entry.month}`}
+                    data-timeline-month={entry.month}
+                    className="mb-10 ml-6 scroll-mt-6"
+                  >
+                    <span className="absolute -left-[9px] mt-1.5 h-4 w-4 rounded-full border-2 border-white bg-[#9C7178]" />
+                    <h3 className="font-quicksand font-bold text-xl text-[#9C7178]">{formatMonth(entry.month)}</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      {entry.collectionCount} {entry.collectionCount === 1 ? "memory" : "memories"} · {entry.photoCount} {entry.photoCount === 1 ? "photo" : "photos"}
+                    </p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {entry.collections.map(collection => (
+                        <div
+                          key={collection.id}
+                          onClick={() => navigate(`/date-memory/${collection.id}`)}
+                          className="bg-white rounded-lg shadow-md overflow-hidden cursor-pointer transition-transform hover:-translate-y-1 hover:shadow-lg"
+                        >
+                          {collection.previewPhotos.length > 0 ? (
+                            <div className="grid grid-cols-4 gap-0.5 h-24">
+                              {collection.previewPhotos.map(photo => (
+                                <img
+                                  key={photo.id}
+                                  src={getImageUrl(photo.filePath, "thumbnail")}
+                                  alt={photo.title}
+                                  loading="lazy"
+                                  className="h-full w-full object-cover"
+                                />
+                              ))}
+                            </div>
+                          ) : (
+                            <div className="h-24 bg-[#F4F1EA] flex items-center justify-center text-sm text-gray-500">
+                              No photos yet
+                            </div>
+                          )}
+                          <div className="p-4">
+                            <h4 className="font-quicksand font-semibold text-lg truncate">{collection.name}</h4>
+                            {collection.description && (
+                              <p className="text-sm text-gray-600 line-clamp-2">{collection.description}</p>
+                            )}
+                            <div className="flex justify-between items-center mt-2 text-xs text-gray-500">
+                              <span className="flex items-center">
+                                <Calendar className="h-3 w-3 mr-1" />
+                                {formatDate(collection.memoryDate)}
+                              </span>
+                              <span className="flex items-center">
+                                <Image className="h-3 w-3 mr-1" />
+                                {collection.photoCount}
+                              </span>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div ref={loadMoreRef} className="py-6 text-center">
+              {isFetchingNextPage && <p className="text-sm text-gray-500">Loading older memories...</p>}
+              {hasNextPage && !isFetchingNextPage && (
+                <Button variant="outline" onClick={() => fetchNextPage()}>
+                  Load older memories
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {years.length > 0 && (
+            <aside className="hidden md:block w-28 flex-shrink-0">
+              <nav className="sticky top-6 flex flex-col items-end gap-1" aria-label="Years">
+                {years.map(year => (
+                  <button
+                    key={year.year}
+                    type="button"
+                    onClick={() => jumpTo(year.newestMonth)}
+                    title={`${year.collectionCount} ${year.collectionCount === 1 ? "memory" : "memories"}`}
+                    className={`rounded-full px-3 py-1 font-quicksand text-sm transition-colors ${
+                      year.year === activeYear
+                        ? 'bg-[#9C7178] text-white font-bold'
+                        : 'text-[#4A4A4A] hover:bg-white'
+                    }`}
+                  >
+                    {year.year}
+                  </button>
+                ))}
+              </nav>
+            </aside>
+          )}
+        </div>
+      </section>
+
+      {isCollectionModalOpen && (
+        <CollectionModal
+          isOpen={isCollectionModalOpen}
+          onClose={() => setIsCollectionModalOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { differenceInCalendarDays } from "date-fns";
+import Header from "@/components/Header";
+import CollectionModal from "@/components/modals/CollectionModal";
+import { HandDrawn } from "@/components/ui/hand-drawn";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
+import { ArrowLeft, Calendar, Image, RotateCcw, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS, formatDate } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { getImageUrl } from "@shared/images";
+import { TrashResponse } from "@shared/trash";
+import { useSpace } from "@/contexts/SpaceContext";
+
+type TrashItem = { kind: "collection" | "photo"; id: number };
+
+function describePurge(purgeAt: string) {
+  const days = differenceInCalendarDays(new Date(purgeAt), new Date());
+  if (days <= 0) return "Deleted forever today";
+  return days === 1 ? "Deleted forever tomorrow" : `Deleted forever in ${days} days`;
+}
+
+// Everything a restore or purge can change
+function invalidateAfterTrashChange() {
+  [
+    API_ENDPOINTS.trash,
+    API_ENDPOINTS.collections,
+    API_ENDPOINTS.collectionsWithThumbnails,
+    API_ENDPOINTS.collectionsInRange,
+    API_ENDPOINTS.photos,
+    API_ENDPOINTS.tags,
+    API_ENDPOINTS.timeline,
+  ].forEach(endpoint => queryClient.invalidateQueries({ queryKey: [endpoint] }));
+}
+
+export default function TrashPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { currentSpace } = useSpace();
+  const [isCollectionModalOpen, setIsCollectionModalOpen] = useState(false);
+  // Deleting forever takes a second click, like deleting in the first place
+  const [confirming, setConfirming] = useState<TrashItem | null>(null);
+
+  const { data: trash, isLoading } = useQuery<TrashResponse>({
+    queryKey: [API_ENDPOINTS.trash, currentSpace?.id],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (currentSpace) params.set("spaceId", String(currentSpace.id));
+      const response = await apiRequest("GET", `${API_ENDPOINTS.trash}?${params}`);
+      return await response.json();
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest(
+      "POST",
+      item.kind === "collection"
+        ? API_ENDPOINTS.restoreTrashedCollection(item.id)
+        : API_ENDPOINTS.restoreTrashedPhoto(item.id),
+      {}
+    ),
+    onSuccess: (_response, item) => {
+      toast({
+        title: item.kind === "collection" ? "Memory restored" : "Photo restored",
+        description: "It's back where it was.",
+      });
+      invalidateAfterTrashChange();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest(
+      "DELETE",
+      item.kind === "collection"
+        ? API_ENDPOINTS.trashedCollection(item.id)
+        : API_ENDPOINTS.trashedPhoto(item.id),
+      {}
+    ),
+    onSuccess: (_response, item) => {
+      toast({
+        title: item.kind === "collection" ? "Memory deleted forever" : "Photo deleted forever",
+        description: "This can't be undone.",
+      });
+      setConfirming(null);
+      invalidateAfterTrashChange();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+      setConfirming(null);
+    }
+  });
+
+  const handlePurge = (item: TrashItem) => {
+    if (confirming?.kind === item.kind && confirming.id === item.id) {
+      purgeMutation.mutate(item);
+    } else {
+      setConfirming(item);
+    }
+  };
+
+  const renderActions = (item: TrashItem) => {
+    const isConfirming = confirming?.kind === item.kind && confirming.id === item.id;
+    return (
+      <div className="flex gap-2 mt-3">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => restoreMutation.mutate(item)}
+          disabled={restoreMutation.isPending || purgeMutation.isPending}
+          className="border-[#88B9B0] text-[#88B9B0] hover:bg-[#88B9B0] hover:text-white"
+        >
+          <RotateCcw className="mr-1 h-3 w-3" /> Restore
+        </Button>
+        <Button
+          size="sm"
+          variant={isConfirming ? "destructive" : "outline"}
+          onClick={() => handlePurge(item)}
+          disabled={restoreMutation.isPending || purgeMutation.isPending}
+        >
+          <Trash2 className="mr-1 h-3 w-3" />
+          {isConfirming ? "Delete forever?" : "Delete forever"}
+        </Button>
+      </div>
+    );
+  };
+
+  const isEmpty = !!trash && trash.collections.length === 0 && trash.photos.length === 0;
+
+  return (
+    <div className="bg-[#F4F1EA] min-h-screen relative font-lato text-[#4A4A4A]">
+      <WatercolorOverlay />
+
+      <Header onCreateCollection={() => setIsCollectionModalOpen(true)} />
+
+      <section className="container mx-auto px-4 py-8 relative">
+        <div className="flex items-center gap-2 mb-2">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="text-[#4A4A4A] hover:text-[#9C7178]"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <h2 className="font-quicksand font-bold text-2xl">Trash</h2>
+        </div>
+        {trash && (
+          <p className="text-sm text-gray-500 mb-8">
+            Deleted memories and photos stay here for {trash.retentionDays} days before they're removed for good.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {[...Array(3)].map((_, index) => (
+              <Skeleton key={index} className="h-64 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : isEmpty ? (
+          <HandDrawn className="bg-white p-8 max-w-lg mx-auto text-center">
+            <h3 className="font-quicksand font-bold text-xl mb-2 text-[#9C7178]">The trash is empty</h3>
+            <p>Memories and photos you delete will show up here for a while, in case you change your mind.</p>
+          </HandDrawn>
+        ) : trash && (
+          <div className="space-y-10">
+            {trash.collections.length > 0 && (
+              <div>
+                <h3 className="font-quicksand font-bold text-xl mb-4">Memories</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {trash.collections.map(collection => (
+                    <div key={collection.id} className="bg-white rounded-lg shadow-md overflow-hidden">
+                      {collection.thumbnailUrl ? (
+                        <img
+                          src={getImageUrl(collection.thumbnailUrl, "thumbnail")}
+                          alt={collection.name}
+                          loading="lazy"
+                          className="h-40 w-full object-cover opacity-80"
+                        />
+                      ) : (
+                        <div className="h-40 bg-[#F4F1EA]" />
+                      )}
+                      <div className="p-4">
+                        <h4 className="font-quicksand font-semibold text-lg truncate">{collection.name}</h4>
+                        <div className="flex justify-between items-center mt-1 text-xs text-gray-500">
+                          <span className="flex items-center">
+                            <Calendar className="h-3 w-3 mr-1" />
+                            {formatDate(collection.memoryDate)}
+                          </span>
+                          <span className="flex items-center">
+                            <Image className="h-3 w-3 mr-1" />
+                            {collection.photoCount}
+                          </span>
+                        </div>
+                        <p className="text-xs text-[#9C7178] mt-2">{describePurge(collection.purgeAt)}</p>
+                        {renderActions({ kind: "collection", id: collection.id })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {trash.photos.length > 0 && (
+              <div>
+                <h3 className="font-quicksand font-bold text-xl mb-4">Photos</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {trash.photos.map(photo => (
+                    <div key={photo.id} className="bg-white rounded-lg shadow-md overflow-hidden">
+                      <img
+                        src={getImageUrl(photo.filePath, "thumbnail")}
+                        alt={photo.title}
+                        loading="lazy"
+                        className="h-40 w-full object-cover opacity-80"
+                      />
+                      <div className="p-4">
+                        <h4 className="font-quicksand font-semibold text-lg truncate">{photo.title}</h4>
+                        <p className="text-xs text-gray-500 truncate">From {photo.collectionName}</p>
+                        <p className="text-xs text-[#9C7178] mt-2">{describePurge(photo.purgeAt)}</p>
+                        {renderActions({ kind: "photo", id: photo.id })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      {isCollectionModalOpen && (
+        <CollectionModal
+          isOpen={isCollectionModalOpen}
+          onClose={() => setIsCollectionModalOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { API_ENDPOINTS } from "@/lib/constants";
-import { Collection, Photo } from "@shared/schema";
+import { API_ENDPOINTS, PHOTO_ORDERS } from "@/lib/constants";
+import { Collection, CollectionRole, Photo, PhotoOrder, hasCollectionRole } from "@shared/schema";
+import { getImageUrl, getCoverFocus } from "@shared/images";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient"; 
 import { useState, useRef, useEffect } from "react";
@@ -9,8 +10,23 @@ import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
 import { HandDrawn } from "@/components/ui/hand-drawn";
 import { formatDate } from "@/lib/constants";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { CommentsSidebar } from "@/components/CommentsSidebar";
 import { PhotoUploadDialog } from "@/components/PhotoUploadDialog";
+import ShareCollectionModal from "@/components/modals/ShareCollectionModal";
+import MovePhotosModal from "@/components/modals/MovePhotosModal";
+import CoverPhotoModal from "@/components/modals/CoverPhotoModal";
+import BulkPhotoToolbar from "@/components/BulkPhotoToolbar";
+import ArrangePhotosGrid from "@/components/ArrangePhotosGrid";
+import PhotoMedia, { MediaBadge } from "@/components/PhotoMedia";
+import { usePhotoSelection } from "@/hooks/use-photo-selection";
 import { 
   ArrowLeft, 
   Heart, 
@@ -22,7 +38,14 @@ import {
   Plus,
   MessageCircle,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Check,
+  CheckSquare,
+  FolderInput,
+  BookImage,
+  ArrowDownUp,
+  Download,
+  X
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
@@ -35,6 +58,12 @@ export default function ViewDateMemory() {
   const [activePhotoIndex, setActivePhotoIndex] = useState(0);
   const [isCommentsSidebarOpen, setIsCommentsSidebarOpen] = useState(false);
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
+  const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+  const [isCoverModalOpen, setIsCoverModalOpen] = useState(false);
+  const [isArranging, setIsArranging] = useState(false);
+  const [isEditingDate, setIsEditingDate] = useState(false);
+  const [memoryDateDraft, setMemoryDateDraft] = useState("");
   
   // Touch/swipe handling for photo slider
   const touchStartX = useRef<number | null>(null);
@@ -52,7 +81,7 @@ export default function ViewDateMemory() {
     data: memory, 
     isLoading: memoryLoading, 
     error: memoryError 
-  } = useQuery<Collection>({
+  } = useQuery<Collection & { role: CollectionRole }>({
     queryKey: [API_ENDPOINTS.collection(id)],
   });
 
@@ -67,16 +96,26 @@ export default function ViewDateMemory() {
     enabled: !!memory,
   });
 
+  const selection = usePhotoSelection(photos.map(photo => photo.id));
+
+  // Keep the slider on a photo that still exists after photos are moved or deleted
+  useEffect(() => {
+    if (photos.length > 0 && activePhotoIndex >= photos.length) {
+      setActivePhotoIndex(photos.length - 1);
+    }
+  }, [photos.length]);
+
   // Delete memory mutation
   const deleteMutation = useMutation({
     mutationFn: () => apiRequest("DELETE", API_ENDPOINTS.collection(id), {}),
     onSuccess: () => {
       toast({
-        title: "Memory deleted",
-        description: "The date memory has been successfully deleted.",
+        title: "Moved to trash",
+        description: "The date memory can be restored from the trash.",
       });
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collections] });
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.trash] });
       navigate("/");
     },
     onError: (error) => {
@@ -89,6 +128,57 @@ export default function ViewDateMemory() {
     }
   });
 
+  // Update memory date mutation
+  const updateDateMutation = useMutation({
+    mutationFn: (memoryDate: string) => apiRequest("PUT", API_ENDPOINTS.collection(id), { memoryDate }),
+    onSuccess: () => {
+      toast({
+        title: "Date updated",
+        description: "The date of this memory has been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collection(id)] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collections] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionsWithThumbnails] });
+      setIsEditingDate(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update date",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Change how the memory orders its photos
+  const updateOrderMutation = useMutation({
+    mutationFn: (photoOrder: PhotoOrder) => apiRequest("PUT", API_ENDPOINTS.collection(id), { photoOrder }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collection(id)] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.collectionPhotos(id)] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to change the order",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const startEditingDate = () => {
+    if (memory) {
+      setMemoryDateDraft(memory.memoryDate);
+    }
+    setIsEditingDate(true);
+  };
+
+  const handleSaveDate = () => {
+    if (memoryDateDraft) {
+      updateDateMutation.mutate(memoryDateDraft);
+    }
+  };
+
   const handleDelete = () => {
     if (isDeleting) {
       deleteMutation.mutate();
@@ -203,12 +293,9 @@ export default function ViewDateMemory() {
   }
 
   const activePhoto = photos.length > 0 ? photos[activePhotoIndex] : null;
-  const dateValue = memory.createdAt ? new Date(memory.createdAt) : new Date();
-  const formattedDate = dateValue.toLocaleDateString('en-US', {
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric'
-  });
+  const formattedDate = formatDate(memory.memoryDate);
+  const canEdit = hasCollectionRole(memory.role, "editor");
+  const isOwner = hasCollectionRole(memory.role, "owner");
 
   return (
     <div className="bg-[#F4F1EA] min-h-screen p-4 md:p-8 relative font-lato text-[#4A4A4A]">
@@ -234,11 +321,10 @@ export default function ViewDateMemory() {
                   onTouchMove={handleTouchMove}
                   onTouchEnd={handleTouchEnd}
                 >
-                  <img 
-                    src={activePhoto.filePath} 
-                    alt={activePhoto.title || memory.name} 
+                  <PhotoMedia
+                    photo={activePhoto}
+                    alt={activePhoto.title || memory.name}
                     className="w-full object-contain max-h-[50vh] select-none"
-                    draggable={false}
                   />
                   
                   {/* Navigation arrows - only show if more than 1 photo */}
@@ -273,13 +359,37 @@ export default function ViewDateMemory() {
                 </div>
                 
 
-                <Button 
-                  className="absolute top-4 right-4 bg-[#E6B89C] hover:bg-[#9C7178] text-white font-quicksand"
-                  onClick={() => setIsUploadDialogOpen(true)}
-                >
-                  <Plus className="h-4 w-4 md:mr-2" />
-                  <span className="hidden md:inline">Upload Photos</span>
-                </Button>
+                {canEdit && (
+                  <div className="absolute top-4 right-4 flex gap-2">
+                    <Button 
+                      variant="outline"
+                      className="bg-white/90 font-quicksand"
+                      onClick={() => setIsMoveModalOpen(true)}
+                      title="Move to memory…"
+                    >
+                      <FolderInput className="h-4 w-4 md:mr-2" />
+                      <span className="hidden md:inline">Move to memory…</span>
+                    </Button>
+                    <Button 
+                      variant="outline"
+                      className="bg-white/90 font-quicksand"
+                      onClick={() => setIsCoverModalOpen(true)}
+                      title="Set as cover"
+                    >
+                      <BookImage className="h-4 w-4 md:mr-2" />
+                      <span className="hidden md:inline">
+                        {activePhoto.id === memory.coverPhotoId ? "Adjust cover" : "Set as cover"}
+                      </span>
+                    </Button>
+                    <Button 
+                      className="bg-[#E6B89C] hover:bg-[#9C7178] text-white font-quicksand"
+                      onClick={() => setIsUploadDialogOpen(true)}
+                    >
+                      <Plus className="h-4 w-4 md:mr-2" />
+                      <span className="hidden md:inline">Upload Photos</span>
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="bg-gray-100 flex items-center justify-center h-[40vh] relative">
@@ -287,49 +397,144 @@ export default function ViewDateMemory() {
                   <Image className="h-16 w-16 mx-auto text-gray-400 mb-4" />
                   <p className="text-gray-500">No photos in this memory yet</p>
                 </div>
-                <Button 
-                  className="absolute top-4 right-4 bg-[#E6B89C] hover:bg-[#9C7178] text-white font-quicksand"
-                  onClick={() => setIsUploadDialogOpen(true)}
-                >
-                  <Plus className="h-4 w-4 md:mr-2" />
-                  <span className="hidden md:inline">Upload Photos</span>
-                </Button>
+                {canEdit && (
+                  <Button 
+                    className="absolute top-4 right-4 bg-[#E6B89C] hover:bg-[#9C7178] text-white font-quicksand"
+                    onClick={() => setIsUploadDialogOpen(true)}
+                  >
+                    <Plus className="h-4 w-4 md:mr-2" />
+                    <span className="hidden md:inline">Upload Photos</span>
+                  </Button>
+                )}
               </div>
             )}
             
             <div className="p-6">
               <h1 className="font-quicksand font-bold text-2xl md:text-3xl mb-2">{memory.name}</h1>
-              <div className="flex items-center text-[#9C7178] mb-2">
-                <Calendar className="h-5 w-5 mr-1" />
-                <span>{formattedDate}</span>
-              </div>
+              {isEditingDate ? (
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <Calendar className="h-5 w-5 text-[#9C7178]" />
+                  <Input
+                    type="date"
+                    value={memoryDateDraft}
+                    onChange={(e) => setMemoryDateDraft(e.target.value)}
+                    className="w-auto bg-white border border-[#E6B89C] font-lato"
+                  />
+                  <Button
+                    size="sm"
+                    className="bg-[#9C7178] hover:bg-opacity-90 text-white"
+                    onClick={handleSaveDate}
+                    disabled={!memoryDateDraft || updateDateMutation.isPending}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    {updateDateMutation.isPending ? 'Saving...' : 'Save'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setIsEditingDate(false)}
+                    disabled={updateDateMutation.isPending}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center text-[#9C7178] mb-2">
+                  <Calendar className="h-5 w-5 mr-1" />
+                  <span>{formattedDate}</span>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 ml-1 text-[#9C7178]"
+                      onClick={startEditingDate}
+                      title="Change date"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
               <p className="text-lg mb-6">{memory.description}</p>
               
               {/* Photo thumbnails */}
               {photos.length > 0 && (
                 <div className="mb-6">
-                  <h3 className="font-quicksand font-medium text-lg mb-2">Photos from this moment:</h3>
-                  <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 gap-2 overflow-x-auto">
-                    {photos.map((photo, index) => (
-                      <div 
-                        key={photo.id} 
-                        className={`cursor-pointer border-2 overflow-hidden rounded-md relative ${
-                          index === activePhotoIndex ? 'border-[#9C7178]' : 'border-transparent'
-                        }`}
-                        onClick={() => setActivePhotoIndex(index)}
-                      >
-                        <img 
-                          src={photo.filePath} 
-                          alt={photo.title || `Photo ${index + 1}`} 
-                          className="w-full h-20 object-cover"
-                        />
-                        {/* Comment indicator - we'll add this later when we have comment counts */}
-                        <div className="absolute bottom-1 right-1 bg-[#9C7178] text-white text-xs rounded-full w-5 h-5 flex items-center justify-center opacity-75">
-                          <MessageCircle className="h-3 w-3" />
-                        </div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-quicksand font-medium text-lg">Photos from this moment:</h3>
+                    {!selection.isSelecting && !isArranging && (
+                      <div className="flex items-center gap-1">
+                        {canEdit && (
+                          <Select
+                            value={memory.photoOrder}
+                            onValueChange={(value) => updateOrderMutation.mutate(value as PhotoOrder)}
+                            disabled={updateOrderMutation.isPending}
+                          >
+                            <SelectTrigger className="h-9 w-[150px]" aria-label="Photo order">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {PHOTO_ORDERS.map(order => (
+                                <SelectItem key={order.value} value={order.value}>{order.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {canEdit && photos.length > 1 && (
+                          <Button variant="ghost" size="sm" onClick={() => setIsArranging(true)}>
+                            <ArrowDownUp className="mr-2 h-4 w-4" />
+                            Arrange
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={selection.start}>
+                          <CheckSquare className="mr-2 h-4 w-4" />
+                          Select
+                        </Button>
                       </div>
-                    ))}
+                    )}
                   </div>
+                  {isArranging ? (
+                    <ArrangePhotosGrid
+                      collectionId={memory.id}
+                      photos={photos}
+                      onDone={() => setIsArranging(false)}
+                    />
+                  ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 gap-2 overflow-x-auto">
+                      {photos.map((photo, index) => (
+                        <div 
+                          key={photo.id} 
+                          className={`cursor-pointer border-2 overflow-hidden rounded-md relative ${
+                            selection.isSelecting
+                              ? (selection.isSelected(photo.id) ? 'border-[#9C7178] ring-2 ring-[#9C7178]' : 'border-transparent')
+                              : (index === activePhotoIndex ? 'border-[#9C7178]' : 'border-transparent')
+                          }`}
+                          onClick={(e) => selection.isSelecting ? selection.toggle(photo.id, e.shiftKey) : setActivePhotoIndex(index)}
+                        >
+                          {selection.isSelecting && (
+                            <span
+                              className={`absolute top-1 left-1 z-10 flex h-5 w-5 items-center justify-center rounded-full border-2 border-white shadow ${
+                                selection.isSelected(photo.id) ? 'bg-[#9C7178]' : 'bg-black/30'
+                              }`}
+                            >
+                              {selection.isSelected(photo.id) && <Check className="h-3 w-3 text-white" />}
+                            </span>
+                          )}
+                          <img 
+                            src={getImageUrl(photo.filePath, "thumbnail")} 
+                            alt={photo.title || `Photo ${index + 1}`} 
+                            loading="lazy"
+                            className="w-full h-20 object-cover"
+                          />
+                          <MediaBadge photo={photo} />
+                          {/* Comment indicator - we'll add this later when we have comment counts */}
+                          <div className="absolute bottom-1 right-1 bg-[#9C7178] text-white text-xs rounded-full w-5 h-5 flex items-center justify-center opacity-75">
+                            <MessageCircle className="h-3 w-3" />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -345,15 +550,31 @@ export default function ViewDateMemory() {
                     Like
                   </Button>
                   
-                  <Button variant="outline" className="flex items-center gap-2">
+                  <Button 
+                    variant="outline" 
+                    className="flex items-center gap-2"
+                    onClick={() => setIsShareModalOpen(true)}
+                  >
                     <Share2 className="h-5 w-5" />
                     Share
                   </Button>
                   
-                  <Button variant="outline" className="flex items-center gap-2">
-                    <Edit className="h-5 w-5" />
-                    Edit
-                  </Button>
+                  {/* A plain link, so the browser streams the ZIP straight to disk */}
+                  {photos.length > 0 && (
+                    <Button variant="outline" className="flex items-center gap-2" asChild>
+                      <a href={API_ENDPOINTS.collectionExport(id)} download>
+                        <Download className="h-5 w-5" />
+                        Download memory
+                      </a>
+                    </Button>
+                  )}
+                  
+                  {canEdit && (
+                    <Button variant="outline" className="flex items-center gap-2">
+                      <Edit className="h-5 w-5" />
+                      Edit
+                    </Button>
+                  )}
                   
                   {/* Show comments button only on mobile */}
                   <Button 
@@ -366,15 +587,17 @@ export default function ViewDateMemory() {
                     Comments
                   </Button>
                   
-                  <Button 
-                    variant={isDeleting ? "destructive" : "outline"} 
-                    className="flex items-center gap-2"
-                    onClick={handleDelete}
-                    disabled={deleteMutation.isPending}
-                  >
-                    <Trash2 className="h-5 w-5" />
-                    {isDeleting ? 'Confirm Delete?' : 'Delete'}
-                  </Button>
+                  {isOwner && (
+                    <Button 
+                      variant={isDeleting ? "destructive" : "outline"} 
+                      className="flex items-center gap-2"
+                      onClick={handleDelete}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-5 w-5" />
+                      {isDeleting ? 'Move to Trash?' : 'Delete'}
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -404,6 +627,15 @@ export default function ViewDateMemory() {
           )}
         </div>
 
+        {/* Share Memory Dialog */}
+        <ShareCollectionModal
+          collectionId={id}
+          spaceId={memory.spaceId}
+          isOwner={isOwner}
+          isOpen={isShareModalOpen}
+          onClose={() => setIsShareModalOpen(false)}
+        />
+
         {/* Photo Upload Dialog */}
         <PhotoUploadDialog
           isOpen={isUploadDialogOpen}
@@ -414,6 +646,40 @@ export default function ViewDateMemory() {
             setActivePhotoIndex(0);
           }}
         />
+
+        {/* Bulk actions on the selected thumbnails */}
+        {selection.isSelecting && (
+          <BulkPhotoToolbar
+            photos={photos}
+            selectedIds={selection.selectedIds}
+            onSelectAll={selection.selectAll}
+            onClear={selection.clear}
+            onDone={selection.stop}
+            collectionId={memory.id}
+            spaceId={memory.spaceId}
+          />
+        )}
+
+        {/* Move or copy the photo on screen to another memory */}
+        {isMoveModalOpen && activePhoto && (
+          <MovePhotosModal
+            photoIds={[activePhoto.id]}
+            currentCollectionId={memory.id}
+            isOpen={isMoveModalOpen}
+            onClose={() => setIsMoveModalOpen(false)}
+          />
+        )}
+
+        {/* Make the photo on screen the memory's cover */}
+        {isCoverModalOpen && activePhoto && (
+          <CoverPhotoModal
+            collectionId={memory.id}
+            photo={activePhoto}
+            initialFocus={getCoverFocus(memory, activePhoto.id)}
+            isOpen={isCoverModalOpen}
+            onClose={() => setIsCoverModalOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
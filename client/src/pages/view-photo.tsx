@@ -2,6 +2,7 @@ import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { API_ENDPOINTS } from "@/lib/constants";
 import { Collection, Photo } from "@shared/schema";
+import { getCoverFocus } from "@shared/images";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient"; 
 import { useState } from "react";
@@ -9,10 +10,14 @@ import { WatercolorOverlay } from "@/components/ui/watercolor-overlay";
 import { HandDrawn } from "@/components/ui/hand-drawn";
 import { formatDate } from "@/lib/constants";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Heart, Share2, Edit, Trash2 } from "lucide-react";
+import { ArrowLeft, Share2, Edit, FolderInput, BookImage, Trash2 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import EditPhotoModal from "@/components/modals/EditPhotoModal";
+import MovePhotosModal from "@/components/modals/MovePhotosModal";
+import CoverPhotoModal from "@/components/modals/CoverPhotoModal";
+import PhotoReactions from "@/components/PhotoReactions";
+import PhotoMedia from "@/components/PhotoMedia";
 
 export default function ViewPhoto() {
   const { id } = useParams();
@@ -20,6 +25,8 @@ export default function ViewPhoto() {
   const { toast } = useToast();
   const [isDeleting, setIsDeleting] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+  const [isCoverModalOpen, setIsCoverModalOpen] = useState(false);
 
   // Fetch photo details
   const { 
@@ -30,19 +37,10 @@ export default function ViewPhoto() {
     queryKey: [API_ENDPOINTS.photo(id || '')],
   });
 
-  // Toggle like mutation
-  const likeMutation = useMutation({
-    mutationFn: () => apiRequest("POST", API_ENDPOINTS.likePhoto(id || ''), {}),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photo(id || '')] });
-      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photos] });
-    }
-  });
-
-  // Fetch collections for the edit modal
+  // Fetch collections for the edit and cover modals
   const { data: collections = [] } = useQuery<Collection[]>({
     queryKey: [API_ENDPOINTS.collections],
-    enabled: isEditModalOpen,
+    enabled: isEditModalOpen || isCoverModalOpen,
   });
   
   // Delete photo mutation
@@ -50,10 +48,11 @@ export default function ViewPhoto() {
     mutationFn: () => apiRequest("DELETE", API_ENDPOINTS.photo(id || ''), {}),
     onSuccess: () => {
       toast({
-        title: "Photo deleted",
-        description: "The photo has been successfully deleted.",
+        title: "Moved to trash",
+        description: "The photo can be restored from the trash.",
       });
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.photos] });
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.trash] });
       navigate("/");
     },
     onError: (error) => {
@@ -74,10 +73,6 @@ export default function ViewPhoto() {
     }
   };
 
-  const handleLike = () => {
-    likeMutation.mutate();
-  };
-  
   const handleEditClick = () => {
     setIsEditModalOpen(true);
   };
@@ -121,6 +116,13 @@ export default function ViewPhoto() {
     );
   }
 
+  // Models usually repeat the make ("Canon" / "Canon EOS R6"), so only prefix it when they don't
+  const camera = photo.cameraModel
+    ? (photo.cameraMake && !photo.cameraModel.startsWith(photo.cameraMake)
+        ? `${photo.cameraMake} ${photo.cameraModel}`
+        : photo.cameraModel)
+    : photo.cameraMake;
+
   return (
     <div className="bg-[#F4F1EA] min-h-screen p-4 md:p-8 relative font-lato text-[#4A4A4A]">
       <WatercolorOverlay />
@@ -135,30 +137,27 @@ export default function ViewPhoto() {
         </Button>
         
         <HandDrawn className="bg-white overflow-hidden shadow-lg">
-          <img 
-            src={photo.filePath} 
-            alt={photo.title} 
+          <PhotoMedia
+            photo={photo}
+            alt={photo.title}
             className="w-full object-contain max-h-[70vh]"
           />
           
           <div className="p-6">
             <h1 className="font-quicksand font-bold text-2xl md:text-3xl mb-2">{photo.title}</h1>
             <p className="text-lg mb-4">{photo.description}</p>
+
+            <div className="mb-4">
+              <PhotoReactions photoId={photo.id} />
+            </div>
             
             <div className="flex flex-wrap justify-between items-center">
-              <span className="text-gray-500">{formatDate(photo.uploadedAt)}</span>
+              <div className="text-gray-500">
+                <span>{formatDate(photo.takenAt ?? photo.uploadedAt)}</span>
+                {camera && <span className="block text-sm">{camera}</span>}
+              </div>
               
               <div className="flex flex-wrap gap-2 mt-4 sm:mt-0">
-                <Button 
-                  variant="outline" 
-                  className={`flex items-center gap-2 ${photo.isLiked ? 'text-[#9C7178]' : ''}`}
-                  onClick={handleLike}
-                  disabled={likeMutation.isPending}
-                >
-                  <Heart className={`h-5 w-5 ${photo.isLiked ? 'fill-[#9C7178]' : ''}`} />
-                  {photo.isLiked ? 'Liked' : 'Like'}
-                </Button>
-                
                 <Button variant="outline" className="flex items-center gap-2">
                   <Share2 className="h-5 w-5" />
                   Share
@@ -173,6 +172,26 @@ export default function ViewPhoto() {
                   Edit
                 </Button>
                 
+                <Button 
+                  variant="outline" 
+                  className="flex items-center gap-2"
+                  onClick={() => setIsMoveModalOpen(true)}
+                >
+                  <FolderInput className="h-5 w-5" />
+                  Move to memory…
+                </Button>
+                
+                {photo.collectionId && (
+                  <Button 
+                    variant="outline" 
+                    className="flex items-center gap-2"
+                    onClick={() => setIsCoverModalOpen(true)}
+                  >
+                    <BookImage className="h-5 w-5" />
+                    Set as cover
+                  </Button>
+                )}
+                
                 <Button 
                   variant={isDeleting ? "destructive" : "outline"} 
                   className="flex items-center gap-2"
@@ -180,7 +199,7 @@ export default function ViewPhoto() {
                   disabled={deleteMutation.isPending}
                 >
                   <Trash2 className="h-5 w-5" />
-                  {isDeleting ? 'Confirm Delete?' : 'Delete'}
+                  {isDeleting ? 'Move to Trash?' : 'Delete'}
                 </Button>
               </div>
             </div>
@@ -196,6 +215,25 @@ export default function ViewPhoto() {
           onClose={() => setIsEditModalOpen(false)}
         />
       )}
+      
+      {isMoveModalOpen && (
+        <MovePhotosModal
+          photoIds={[photo.id]}
+          currentCollectionId={photo.collectionId}
+          isOpen={isMoveModalOpen}
+          onClose={() => setIsMoveModalOpen(false)}
+        />
+      )}
+      
+      {isCoverModalOpen && collections.length > 0 && photo.collectionId && (
+        <CoverPhotoModal
+          collectionId={photo.collectionId}
+          photo={photo}
+          initialFocus={getCoverFocus(collections.find(collection => collection.id === photo.collectionId), photo.id)}
+          isOpen={isCoverModalOpen}
+          onClose={() => setIsCoverModalOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,10 @@
+-- Add the date the memory actually happened, separate from the upload date
+ALTER TABLE "collections" ADD COLUMN "memory_date" date DEFAULT now();
+
+-- Backfill existing collections with the day they were created
+UPDATE "collections" SET "memory_date" = "created_at"::date WHERE "created_at" IS NOT NULL;
+
+ALTER TABLE "collections" ALTER COLUMN "memory_date" SET NOT NULL;
+
+-- Add index on memory_date for efficient chronological sorting
+CREATE INDEX "collections_memory_date_idx" ON "collections" ("memory_date");
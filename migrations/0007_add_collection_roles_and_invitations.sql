@@ -0,0 +1,37 @@
+-- Add roles to collection ownership so collections can be shared as editor or viewer
+CREATE TYPE "public"."collection_role" AS ENUM('owner', 'editor', 'viewer');
+CREATE TYPE "public"."invitation_status" AS ENUM('pending', 'accepted', 'declined');
+
+ALTER TABLE "collection_owners" ADD COLUMN "role" "collection_role" DEFAULT 'owner' NOT NULL;
+
+-- Collections used to be shared with every user automatically. Keep that access,
+-- but only the creator stays owner; everyone else becomes an editor
+UPDATE "collection_owners" co
+SET "role" = 'editor'
+FROM "collections" c
+WHERE co.collection_id = c.id
+  AND c.user_id IS NOT NULL
+  AND co.user_id <> c.user_id;
+
+-- Create collection_invitations table for explicit sharing
+CREATE TABLE "collection_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"collection_id" integer NOT NULL,
+	"inviter_id" integer NOT NULL,
+	"invitee_id" integer NOT NULL,
+	"role" "collection_role" DEFAULT 'viewer' NOT NULL,
+	"status" "invitation_status" DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"responded_at" timestamp
+);
+
+-- Add foreign key constraints
+ALTER TABLE "collection_invitations" ADD CONSTRAINT "collection_invitations_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "collection_invitations" ADD CONSTRAINT "collection_invitations_inviter_id_users_id_fk" FOREIGN KEY ("inviter_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "collection_invitations" ADD CONSTRAINT "collection_invitations_invitee_id_users_id_fk" FOREIGN KEY ("invitee_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Only one invitation per user and collection; re-inviting reuses the row
+ALTER TABLE "collection_invitations" ADD CONSTRAINT "collection_invitations_collection_invitee_unique" UNIQUE("collection_id", "invitee_id");
+
+-- Add index on invitee_id for efficient lookup of a user's pending invitations
+CREATE INDEX "collection_invitations_invitee_id_idx" ON "collection_invitations" ("invitee_id");
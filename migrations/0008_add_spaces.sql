@@ -0,0 +1,59 @@
+-- Create spaces so the app can host several couples or families
+CREATE TABLE "spaces" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE "space_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"space_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+
+-- One-time invite codes for joining a space
+CREATE TABLE "space_invites" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"space_id" integer NOT NULL,
+	"code" text NOT NULL,
+	"created_by" integer NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_by" integer,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "space_invites_code_unique" UNIQUE("code")
+);
+
+-- Add foreign key constraints
+ALTER TABLE "spaces" ADD CONSTRAINT "spaces_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+ALTER TABLE "space_members" ADD CONSTRAINT "space_members_space_id_spaces_id_fk" FOREIGN KEY ("space_id") REFERENCES "public"."spaces"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "space_members" ADD CONSTRAINT "space_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "space_invites" ADD CONSTRAINT "space_invites_space_id_spaces_id_fk" FOREIGN KEY ("space_id") REFERENCES "public"."spaces"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "space_invites" ADD CONSTRAINT "space_invites_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "space_invites" ADD CONSTRAINT "space_invites_used_by_users_id_fk" FOREIGN KEY ("used_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+
+-- Add unique constraint to prevent duplicate memberships
+ALTER TABLE "space_members" ADD CONSTRAINT "space_members_space_user_unique" UNIQUE("space_id", "user_id");
+
+-- Add index on user_id for efficient lookup of a user's spaces
+CREATE INDEX "space_members_user_id_idx" ON "space_members" ("user_id");
+
+-- Scope collections to a space
+ALTER TABLE "collections" ADD COLUMN "space_id" integer;
+ALTER TABLE "collections" ADD CONSTRAINT "collections_space_id_spaces_id_fk" FOREIGN KEY ("space_id") REFERENCES "public"."spaces"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "collections_space_id_idx" ON "collections" ("space_id");
+
+-- Migrate existing data: the existing users share one space that holds every collection
+INSERT INTO "spaces" ("name", "created_by")
+SELECT 'Our Memories', MIN(u.id)
+FROM "users" u
+HAVING COUNT(*) > 0;
+
+INSERT INTO "space_members" ("space_id", "user_id")
+SELECT s.id, u.id
+FROM "spaces" s
+CROSS JOIN "users" u;
+
+UPDATE "collections" SET "space_id" = (SELECT MIN(id) FROM "spaces");
@@ -0,0 +1,12 @@
+-- Capture details read from EXIF when a photo is uploaded
+ALTER TABLE "photos" ADD COLUMN "taken_at" timestamp;
+ALTER TABLE "photos" ADD COLUMN "camera_make" text;
+ALTER TABLE "photos" ADD COLUMN "camera_model" text;
+ALTER TABLE "photos" ADD COLUMN "orientation" integer;
+ALTER TABLE "photos" ADD COLUMN "width" integer;
+ALTER TABLE "photos" ADD COLUMN "height" integer;
+ALTER TABLE "photos" ADD COLUMN "latitude" double precision;
+ALTER TABLE "photos" ADD COLUMN "longitude" double precision;
+
+-- Photos within a collection are listed by capture time
+CREATE INDEX "photos_collection_taken_at_idx" ON "photos" ("collection_id", "taken_at");
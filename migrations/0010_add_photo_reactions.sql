@@ -0,0 +1,24 @@
+-- Per-user reactions replace the shared photos.is_liked flag
+CREATE TYPE "public"."photo_reaction" AS ENUM('heart', 'laugh', 'love', 'wow', 'sad');
+
+CREATE TABLE IF NOT EXISTS "photo_reactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"photo_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"reaction" "photo_reaction" NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "photo_reactions_photo_id_user_id_reaction_unique" UNIQUE("photo_id","user_id","reaction")
+);
+
+ALTER TABLE "photo_reactions" ADD CONSTRAINT "photo_reactions_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "photo_reactions" ADD CONSTRAINT "photo_reactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+
+CREATE INDEX "photo_reactions_photo_id_idx" ON "photo_reactions" ("photo_id");
+
+-- Nobody knows who liked a photo before, so credit existing likes to the collection's creator
+INSERT INTO "photo_reactions" ("photo_id", "user_id", "reaction")
+SELECT "photos"."id", "collections"."user_id", 'heart'
+FROM "photos"
+INNER JOIN "collections" ON "collections"."id" = "photos"."collection_id"
+WHERE "photos"."is_liked" = true AND "collections"."user_id" IS NOT NULL
+ON CONFLICT DO NOTHING;
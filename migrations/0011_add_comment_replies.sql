@@ -0,0 +1,7 @@
+-- Threaded replies: a reply points at the comment it answers
+ALTER TABLE "comments" ADD COLUMN "parent_id" integer;
+ALTER TABLE "comments" ADD CONSTRAINT "comments_parent_id_comments_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."comments"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "comments_parent_id_idx" ON "comments" ("parent_id");
+
+-- Deleting a comment that has replies keeps it as a "[deleted]" placeholder
+ALTER TABLE "comments" ADD COLUMN "deleted_at" timestamp;
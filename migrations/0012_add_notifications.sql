@@ -0,0 +1,25 @@
+-- In-app notifications about comments, new photos and invitations
+CREATE TYPE "public"."notification_type" AS ENUM('comment', 'reply', 'photos_added', 'invitation', 'invitation_accepted');
+
+CREATE TABLE IF NOT EXISTS "notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"actor_id" integer,
+	"type" "notification_type" NOT NULL,
+	"collection_id" integer,
+	"photo_id" integer,
+	"comment_id" integer,
+	"count" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"read_at" timestamp
+);
+
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Listing a user's latest notifications and counting the unread ones
+CREATE INDEX "notifications_user_id_created_at_idx" ON "notifications" ("user_id", "created_at");
+CREATE INDEX "notifications_user_id_unread_idx" ON "notifications" ("user_id") WHERE "read_at" IS NULL;
@@ -0,0 +1,10 @@
+-- Full-text indexes for GET /api/search. The expressions must match the ones in
+-- DbStorage.search exactly for Postgres to use them.
+CREATE INDEX "collections_search_idx" ON "collections"
+  USING gin (to_tsvector('english', coalesce("name", '') || ' ' || coalesce("description", '')));
+
+CREATE INDEX "photos_search_idx" ON "photos"
+  USING gin (to_tsvector('english', coalesce("title", '') || ' ' || coalesce("description", '')));
+
+CREATE INDEX "comments_search_idx" ON "comments"
+  USING gin (to_tsvector('english', "content"));
@@ -0,0 +1,32 @@
+-- Free-form tags for photos and memories, scoped to a space
+CREATE TABLE IF NOT EXISTS "tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"space_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "tags_space_id_name_unique" UNIQUE("space_id","name")
+);
+
+CREATE TABLE IF NOT EXISTS "photo_tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"photo_id" integer NOT NULL,
+	"tag_id" integer NOT NULL,
+	CONSTRAINT "photo_tags_photo_id_tag_id_unique" UNIQUE("photo_id","tag_id")
+);
+
+CREATE TABLE IF NOT EXISTS "collection_tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"collection_id" integer NOT NULL,
+	"tag_id" integer NOT NULL,
+	CONSTRAINT "collection_tags_collection_id_tag_id_unique" UNIQUE("collection_id","tag_id")
+);
+
+ALTER TABLE "tags" ADD CONSTRAINT "tags_space_id_spaces_id_fk" FOREIGN KEY ("space_id") REFERENCES "public"."spaces"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "photo_tags" ADD CONSTRAINT "photo_tags_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "photo_tags" ADD CONSTRAINT "photo_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "collection_tags" ADD CONSTRAINT "collection_tags_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "collection_tags" ADD CONSTRAINT "collection_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Looking up everything with a given tag
+CREATE INDEX "photo_tags_tag_id_idx" ON "photo_tags" ("tag_id");
+CREATE INDEX "collection_tags_tag_id_idx" ON "collection_tags" ("tag_id");
@@ -0,0 +1,7 @@
+-- Deleting a memory or photo moves it to the trash until it is restored or purged
+ALTER TABLE "collections" ADD COLUMN "deleted_at" timestamp;
+ALTER TABLE "photos" ADD COLUMN "deleted_at" timestamp;
+
+-- The trash page and the purge job only ever look at deleted rows
+CREATE INDEX IF NOT EXISTS "collections_deleted_at_idx" ON "collections" ("deleted_at") WHERE "deleted_at" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "photos_deleted_at_idx" ON "photos" ("deleted_at") WHERE "deleted_at" IS NOT NULL;
@@ -0,0 +1,5 @@
+-- A memory's chosen cover photo and the point of it to keep in view when cropped
+ALTER TABLE "collections" ADD COLUMN "cover_photo_id" integer;
+ALTER TABLE "collections" ADD COLUMN "cover_focus_x" double precision;
+ALTER TABLE "collections" ADD COLUMN "cover_focus_y" double precision;
+ALTER TABLE "collections" ADD CONSTRAINT "collections_cover_photo_id_photos_id_fk" FOREIGN KEY ("cover_photo_id") REFERENCES "public"."photos"("id") ON DELETE set null ON UPDATE no action;
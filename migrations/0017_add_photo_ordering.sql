@@ -0,0 +1,7 @@
+-- Memories can order their photos by hand, by capture time or by upload time
+CREATE TYPE "public"."photo_order" AS ENUM('manual', 'taken', 'uploaded');
+
+ALTER TABLE "collections" ADD COLUMN "photo_order" "photo_order" DEFAULT 'taken' NOT NULL;
+ALTER TABLE "photos" ADD COLUMN "position" integer;
+
+CREATE INDEX IF NOT EXISTS "photos_collection_id_position_idx" ON "photos" ("collection_id", "position");
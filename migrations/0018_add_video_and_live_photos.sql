@@ -0,0 +1,6 @@
+-- Photos can be video clips or Live Photos as well as stills
+CREATE TYPE "public"."media_kind" AS ENUM('image', 'video', 'live');
+
+ALTER TABLE "photos" ADD COLUMN "media_kind" "media_kind" DEFAULT 'image' NOT NULL;
+ALTER TABLE "photos" ADD COLUMN "motion_path" text;
+ALTER TABLE "photos" ADD COLUMN "duration" double precision;
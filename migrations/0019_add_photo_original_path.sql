@@ -0,0 +1,2 @@
+-- HEIC photos are shown as JPEG conversions; the uploaded file is kept for download
+ALTER TABLE "photos" ADD COLUMN "original_path" text;
@@ -0,0 +1,5 @@
+-- Hashes for spotting photos uploaded more than once
+ALTER TABLE "photos" ADD COLUMN "content_hash" text;
+ALTER TABLE "photos" ADD COLUMN "perceptual_hash" text;
+
+CREATE INDEX "photos_content_hash_idx" ON "photos" ("content_hash");
@@ -0,0 +1,319 @@
+import archiver from "archiver";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { storage } from "./storage";
+import { getStoredFilePath } from "./memoryExport";
+import { isVideoFileName, getPosterFileName } from "./imageVariants";
+import {
+  ACCOUNT_ARCHIVE_FORMAT,
+  ACCOUNT_ARCHIVE_VERSION,
+  ACCOUNT_ARCHIVE_FOLDER,
+  type AccountArchive,
+  type AccountExportJob,
+  type ArchivedCollection,
+  type ArchivedComment,
+  type ArchivedPhoto,
+  type ArchivedUser,
+} from "@shared/accountExport";
+
+// Finished exports can be downloaded for a day, then they're cleaned up
+const EXPORT_TTL = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+// Each export is a ZIP next to a JSON file with its status.
+// The directory starts with a dot so the static /uploads route never serves it.
+const exportsDir = path.join(process.cwd(), "uploads", ".exports");
+
+const EXPORT_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const README = `# Memri account export
+
+This archive holds everything the account could see when it was exported: its profile,
+the spaces it belongs to, and every memory shared with it, with their photos, tags,
+reactions and comments. Memories and photos in the trash are left out.
+
+## Layout
+
+- account.json: the records, described below
+- files/: every stored file, under the name it had on the server
+
+## account.json
+
+- format, version: "${ACCOUNT_ARCHIVE_FORMAT}", version ${ACCOUNT_ARCHIVE_VERSION}
+- exportedAt: when the archive was made (ISO 8601, like every date in it)
+- userId: id of the account the archive was made for, in users
+- users: everyone who appears in the archive, with username, displayName and
+  profilePicture (a path under files/, or a URL)
+- spaces: name and memberIds
+- collections: the memories, with their spaceId, creator (userId), name, description,
+  memoryDate (YYYY-MM-DD), cover, photo order, tags, and members with their role
+  (owner, editor or viewer)
+- photos: collectionId, title, description, capture details and location, tags and
+  reactions. file is the picture or video shown in the app; originalFile is the upload
+  it was converted from (HEIC photos), motionFile the clip of a Live Photo and
+  posterFile the frame shown for a video. All of them are paths under files/.
+- comments: photoId, author (userId), content and dates. Replies have the parentId of
+  the comment they answer, which comes earlier in the list. Deleted comments keep
+  their place in a thread with deletedAt set.
+
+Ids only link these records together. Restore the archive with
+npm run account:import -- <archive.zip>, which gives everything new ids.
+`;
+
+function getExportPaths(id: string) {
+  return {
+    meta: path.join(exportsDir, `${id}.json`),
+    data: path.join(exportsDir, `${id}.zip`),
+  };
+}
+
+async function saveJob(job: AccountExportJob): Promise<void> {
+  await fs.promises.writeFile(getExportPaths(job.id).meta, JSON.stringify(job));
+}
+
+function toIsoString(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+// Collects the records of the archive, and the stored files it refers to by their path in it
+async function buildAccountArchive(userId: number): Promise<{ archive: AccountArchive; files: Map<string, string> }> {
+  const files = new Map<string, string>();
+  const userIds = new Set<number>([userId]);
+
+  // Adds a stored file to the archive, returning where it is in there
+  const addFile = (filePath: string | null): string | null => {
+    const storedPath = filePath ? getStoredFilePath(filePath) : null;
+    if (!storedPath) return null;
+    const name = `files/${path.basename(storedPath)}`;
+    files.set(name, storedPath);
+    return name;
+  };
+
+  const spaces = await Promise.all((await storage.getSpaces(userId)).map(async (space) => {
+    const memberIds = (await storage.getSpaceMembers(space.id)).map(member => member.userId);
+    memberIds.forEach(id => userIds.add(id));
+    return { id: space.id, name: space.name, createdAt: toIsoString(space.createdAt), memberIds };
+  }));
+
+  const userCollections = await storage.getCollections(userId);
+  const collections: ArchivedCollection[] = [];
+  const photos: ArchivedPhoto[] = [];
+  const comments: ArchivedComment[] = [];
+
+  for (const collection of userCollections) {
+    const members = await storage.getCollectionMembers(collection.id);
+    members.forEach(member => userIds.add(member.userId));
+    if (collection.userId) userIds.add(collection.userId);
+
+    collections.push({
+      id: collection.id,
+      spaceId: collection.spaceId,
+      userId: collection.userId,
+      name: collection.name,
+      description: collection.description,
+      type: collection.type,
+      memoryDate: collection.memoryDate,
+      createdAt: toIsoString(collection.createdAt),
+      coverPhotoId: collection.coverPhotoId,
+      coverFocusX: collection.coverFocusX,
+      coverFocusY: collection.coverFocusY,
+      photoOrder: collection.photoOrder,
+      tags: (await storage.getCollectionTags(collection.id)).map(tag => tag.name),
+      members: members.map(member => ({ userId: member.userId, role: member.role, createdAt: toIsoString(member.createdAt) })),
+    });
+
+    for (const photo of await storage.getPhotos(userId, collection.id)) {
+      const file = addFile(photo.filePath);
+      // The record is useless without its picture
+      if (!file) continue;
+
+      const fileName = path.basename(photo.filePath);
+      const reactions = await storage.getPhotoReactions(photo.id);
+      reactions.forEach(reaction => userIds.add(reaction.userId));
+
+      photos.push({
+        id: photo.id,
+        collectionId: collection.id,
+        title: photo.title,
+        description: photo.description,
+        file,
+        originalFile: addFile(photo.originalPath),
+        motionFile: addFile(photo.motionPath),
+        posterFile: isVideoFileName(fileName) ? addFile(`/uploads/${getPosterFileName(fileName)}`) : null,
+        fileType: photo.fileType,
+        mediaKind: photo.mediaKind,
+        isLiked: photo.isLiked,
+        uploadedAt: toIsoString(photo.uploadedAt),
+        takenAt: toIsoString(photo.takenAt),
+        cameraMake: photo.cameraMake,
+        cameraModel: photo.cameraModel,
+        orientation: photo.orientation,
+        width: photo.width,
+        height: photo.height,
+        latitude: photo.latitude,
+        longitude: photo.longitude,
+        duration: photo.duration,
+        contentHash: photo.contentHash,
+        perceptualHash: photo.perceptualHash,
+        position: photo.position,
+        tags: (await storage.getPhotoTags(photo.id)).map(tag => tag.name),
+        reactions: reactions.map(reaction => ({ userId: reaction.userId, reaction: reaction.reaction, createdAt: toIsoString(reaction.createdAt) })),
+      });
+
+      // Oldest first, so a reply always follows the comment it answers
+      const photoComments = (await storage.getComments(photo.id)).sort((a, b) => a.id - b.id);
+      for (const comment of photoComments) {
+        if (comment.userId) userIds.add(comment.userId);
+        comments.push({
+          id: comment.id,
+          photoId: photo.id,
+          parentId: comment.parentId,
+          userId: comment.userId,
+          // Deleted comments are only placeholders in the app; their text isn't exported
+          content: comment.deletedAt ? "" : comment.content,
+          createdAt: toIsoString(comment.createdAt),
+          updatedAt: toIsoString(comment.updatedAt),
+          deletedAt: toIsoString(comment.deletedAt),
+        });
+      }
+    }
+  }
+
+  const users: ArchivedUser[] = [];
+  for (const id of Array.from(userIds)) {
+    const user = await storage.getUser(id);
+    if (!user) continue;
+    users.push({
+      id: user.id,
+      username: user.username,
+      displayName: user.displayName,
+      profilePicture: user.profilePicture ? addFile(user.profilePicture) ?? user.profilePicture : null,
+      createdAt: toIsoString(user.createdAt),
+    });
+  }
+
+  return {
+    archive: {
+      format: ACCOUNT_ARCHIVE_FORMAT,
+      version: ACCOUNT_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      userId,
+      users,
+      spaces,
+      collections,
+      photos,
+      comments,
+    },
+    files,
+  };
+}
+
+async function writeAccountArchive(userId: number, destination: string): Promise<void> {
+  const { archive: data, files } = await buildAccountArchive(userId);
+
+  // Photos and videos are compressed already, so they're stored as they are
+  const archive = archiver("zip", { store: true });
+  const output = fs.createWriteStream(destination);
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on("error", reject);
+    archive.on("warning", (error) => console.error("Warning while exporting account:", error));
+    output.on("close", resolve);
+    output.on("error", reject);
+  });
+  archive.pipe(output);
+
+  archive.append(README, { name: `${ACCOUNT_ARCHIVE_FOLDER}/README.md` });
+  archive.append(JSON.stringify(data, null, 2), { name: `${ACCOUNT_ARCHIVE_FOLDER}/account.json` });
+  files.forEach((storedPath, name) => {
+    archive.file(storedPath, { name: `${ACCOUNT_ARCHIVE_FOLDER}/${name}` });
+  });
+
+  await archive.finalize();
+  await finished;
+}
+
+async function runAccountExport(job: AccountExportJob): Promise<void> {
+  const paths = getExportPaths(job.id);
+  try {
+    await writeAccountArchive(job.userId, paths.data);
+    const stats = await fs.promises.stat(paths.data);
+    await saveJob({ ...job, status: "ready", completedAt: new Date().toISOString(), size: stats.size });
+  } catch (error) {
+    console.error('Error exporting account:', error);
+    try {
+      await fs.promises.rm(paths.data, { force: true });
+      await saveJob({ ...job, status: "failed", completedAt: new Date().toISOString(), error: "Failed to export account" });
+    } catch (cleanupError) {
+      console.error('Error recording failed account export:', cleanupError);
+    }
+  }
+}
+
+// Starts building the archive in the background; poll getAccountExport for when it's ready
+export async function startAccountExport(userId: number): Promise<AccountExportJob> {
+  await fs.promises.mkdir(exportsDir, { recursive: true });
+
+  const job: AccountExportJob = {
+    id: crypto.randomUUID(),
+    userId,
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    completedAt: null,
+    size: null,
+    error: null,
+  };
+  await saveJob(job);
+
+  // Runs after the response; it records its own failures, so nothing may escape it
+  runAccountExport(job).catch((error) => console.error('Error exporting account:', error));
+  return job;
+}
+
+// Only the user who started an export can see or download it
+export async function getAccountExport(id: string, userId: number): Promise<AccountExportJob | undefined> {
+  if (!EXPORT_ID_PATTERN.test(id)) return undefined;
+
+  try {
+    const job: AccountExportJob = JSON.parse(await fs.promises.readFile(getExportPaths(id).meta, "utf8"));
+    return job.userId === userId ? job : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Where the archive of a finished export is on disk
+export function getAccountExportFilePath(job: AccountExportJob): string {
+  return getExportPaths(job.id).data;
+}
+
+async function cleanUpOldExports() {
+  try {
+    if (!fs.existsSync(exportsDir)) return;
+
+    const cutoff = Date.now() - EXPORT_TTL;
+    let removed = 0;
+    for (const entry of await fs.promises.readdir(exportsDir)) {
+      if (!entry.endsWith(".json")) continue;
+
+      const paths = getExportPaths(entry.slice(0, -".json".length));
+      const stats = await fs.promises.stat(paths.meta);
+      if (stats.mtimeMs < cutoff) {
+        await fs.promises.rm(paths.data, { force: true });
+        await fs.promises.rm(paths.meta, { force: true });
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      console.log(`Removed ${removed} old account exports`);
+    }
+  } catch (error) {
+    console.error('Error cleaning up account exports:', error);
+  }
+}
+
+// Clean up once at startup, then every hour
+export function startAccountExportCleanup() {
+  cleanUpOldExports();
+  setInterval(cleanUpOldExports, CLEANUP_INTERVAL).unref();
+}
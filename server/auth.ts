@@ -1,7 +1,7 @@
 import bcrypt from "bcryptjs";
 import { Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
-import { LoginRequest } from "@shared/schema";
+import { LoginRequest, RegisterRequest } from "@shared/schema";
 import { databaseSessionStore } from "./databaseSessionStore";
 
 // Session configuration
@@ -108,6 +108,50 @@ export class AuthService {
     }
   }
 
+  // Register a new user, either joining a space with an invite code or creating their own
+  static async register(data: RegisterRequest): Promise<{ user: any; sessionId: string }> {
+    const existingUser = await storage.getUserByUsername(data.username);
+    if (existingUser) {
+      throw new Error("Username is already taken");
+    }
+
+    if (data.inviteCode) {
+      const invite = await storage.getSpaceInviteByCode(data.inviteCode);
+      if (!invite || invite.usedAt || invite.expiresAt.getTime() < Date.now()) {
+        throw new Error("Invite code is invalid or has expired");
+      }
+    }
+
+    const user = await storage.createUser({
+      username: data.username,
+      password: await this.hashPassword(data.password),
+      displayName: data.displayName,
+      profilePicture: null
+    });
+
+    const joinedSpace = data.inviteCode
+      ? await storage.redeemSpaceInvite(data.inviteCode, user.id)
+      : undefined;
+
+    // Everyone gets a space to put memories in
+    if (!joinedSpace) {
+      await storage.createSpace({
+        name: data.spaceName || `${data.displayName}'s Memories`,
+        createdBy: user.id
+      });
+    }
+
+    const sessionId = await this.createSession(user.id, user.username);
+
+    // Return user without password
+    const { password, ...userWithoutPassword } = user;
+
+    return {
+      user: userWithoutPassword,
+      sessionId
+    };
+  }
+
   // Logout user
   static async logout(sessionId: string): Promise<void> {
     await this.deleteSession(sessionId);
@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+import { canGenerateVariants, generateImageVariants } from "./imageVariants";
+
+// Generate resized variants for images uploaded before variants existed.
+// Usage: npm run images:backfill [-- --force]
+async function main() {
+  const overwrite = process.argv.includes("--force");
+  const uploadsDir = path.join(process.cwd(), "uploads");
+
+  if (!fs.existsSync(uploadsDir)) {
+    console.log("No uploads directory found, nothing to backfill");
+    return;
+  }
+
+  const entries = await fs.promises.readdir(uploadsDir, { withFileTypes: true });
+  const images = entries
+    .filter(entry => entry.isFile() && canGenerateVariants(entry.name))
+    .map(entry => entry.name);
+
+  console.log(`Backfilling variants for ${images.length} images${overwrite ? " (overwriting existing variants)" : ""}...`);
+
+  let generated = 0;
+  let failed = 0;
+  for (const fileName of images) {
+    try {
+      generated += await generateImageVariants(path.join(uploadsDir, fileName), fileName, uploadsDir, { overwrite });
+    } catch (error) {
+      failed++;
+      console.error(`Failed to generate variants for ${fileName}:`, error);
+    }
+  }
+
+  console.log(`Backfill complete: ${generated} variants generated, ${failed} images failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((e) => {
+  console.error("Backfill failed!");
+  console.error(e);
+  process.exit(1);
+});
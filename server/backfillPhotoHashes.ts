@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { isVideoFileName, getPosterFileName } from "./imageVariants";
+import { computeContentHash, computePerceptualHash } from "./photoHashes";
+
+// Hash photos uploaded before duplicate detection, so they are found as duplicates too.
+// New uploads hash the file as it was sent; here only the stored file is left, which
+// differs for photos that were rotated upright on upload. Those still match new copies
+// by their perceptual hash.
+// Usage: npm run photos:hashes
+async function main() {
+  const uploadsDir = path.join(process.cwd(), "uploads");
+  const photos = await storage.getPhotosWithoutHashes();
+
+  console.log(`Hashing ${photos.length} photos...`);
+
+  let hashed = 0;
+  let failed = 0;
+  for (const photo of photos) {
+    try {
+      const fileName = path.basename(photo.filePath);
+      const stored = path.join(uploadsDir, path.basename(photo.originalPath ?? photo.filePath));
+      const image = path.join(uploadsDir, isVideoFileName(fileName) ? getPosterFileName(fileName) : fileName);
+
+      const contentHash = await computeContentHash(stored);
+      const perceptualHash = fs.existsSync(image) ? await computePerceptualHash(image) : null;
+      await storage.updatePhoto(photo.id, { contentHash, perceptualHash });
+      hashed++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to hash photo ${photo.id}:`, error);
+    }
+  }
+
+  console.log(`Backfill complete: ${hashed} photos hashed, ${failed} photos failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error("Backfill failed!");
+  console.error(e);
+  process.exit(1);
+});
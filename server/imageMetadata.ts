@@ -0,0 +1,143 @@
+import sharp from "sharp";
+import exifr from "exifr";
+import convertHeic from "heic-convert";
+import type { InsertPhoto } from "@shared/schema";
+
+export type PhotoMetadata = Pick<InsertPhoto,
+  "takenAt" | "cameraMake" | "cameraModel" | "orientation" | "width" | "height" | "latitude" | "longitude">;
+
+function cleanText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function emptyMetadata(): PhotoMetadata {
+  return {
+    takenAt: null,
+    cameraMake: null,
+    cameraModel: null,
+    orientation: null,
+    width: null,
+    height: null,
+    latitude: null,
+    longitude: null,
+  };
+}
+
+async function readExif(file: Buffer, metadata: PhotoMetadata): Promise<void> {
+  try {
+    const exif = await exifr.parse(file, { translateValues: false });
+    if (exif) {
+      // DateTimeOriginal is when the shutter fired; CreateDate is the fallback for scans and edits
+      const takenAt = exif.DateTimeOriginal ?? exif.CreateDate;
+      metadata.takenAt = takenAt instanceof Date && !isNaN(takenAt.getTime()) ? takenAt : null;
+      metadata.cameraMake = cleanText(exif.Make);
+      metadata.cameraModel = cleanText(exif.Model);
+      metadata.latitude = toNumber(exif.latitude);
+      metadata.longitude = toNumber(exif.longitude);
+    }
+  } catch (error) {
+    console.error("Error reading EXIF metadata:", error);
+  }
+}
+
+// Read the EXIF data of an upload and rotate the image upright.
+// Parsing never fails an upload: unreadable metadata is simply left empty.
+export async function processUploadedImage(file: Buffer): Promise<{ buffer: Buffer; metadata: PhotoMetadata }> {
+  const metadata = emptyMetadata();
+  let buffer = file;
+
+  await readExif(file, metadata);
+
+  try {
+    const info = await sharp(file).metadata();
+    metadata.orientation = info.orientation ?? null;
+
+    // Bake the orientation into the pixels so every browser and variant shows it upright.
+    // keepExif retains the capture data and resets the Orientation tag to 1.
+    if (info.orientation && info.orientation > 1) {
+      buffer = await sharp(file).rotate().keepExif().toBuffer();
+    }
+
+    const rotated = buffer === file ? info : await sharp(buffer).metadata();
+    metadata.width = rotated.width ?? null;
+    metadata.height = rotated.height ?? null;
+  } catch (error) {
+    console.error("Error reading image dimensions:", error);
+  }
+
+  return { buffer, metadata };
+}
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "binary");
+
+// Sets the Orientation tag of a raw EXIF block to 1 (upright), in place
+function resetExifOrientation(exif: Buffer): void {
+  const tiff = EXIF_HEADER.length;
+  const littleEndian = exif.toString("binary", tiff, tiff + 2) === "II";
+  const readShort = (offset: number) => littleEndian ? exif.readUInt16LE(offset) : exif.readUInt16BE(offset);
+  const readLong = (offset: number) => littleEndian ? exif.readUInt32LE(offset) : exif.readUInt32BE(offset);
+
+  const ifd0 = tiff + readLong(tiff + 4);
+  const entries = readShort(ifd0);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (readShort(entry) === 0x0112) {
+      if (littleEndian) {
+        exif.writeUInt16LE(1, entry + 8);
+      } else {
+        exif.writeUInt16BE(1, entry + 8);
+      }
+      return;
+    }
+  }
+}
+
+// Inserts a raw EXIF block into a JPEG as an APP1 segment right after the start marker
+function addExifToJpeg(jpeg: Buffer, exif: Buffer): Buffer {
+  const block = exif.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER) ? Buffer.from(exif) : Buffer.concat([EXIF_HEADER, exif]);
+  const tiffHeader = block.toString("binary", EXIF_HEADER.length, EXIF_HEADER.length + 4);
+  if ((tiffHeader !== "II*\0" && tiffHeader !== "MM\0*") || block.length + 2 > 0xffff) {
+    return jpeg;
+  }
+
+  // The converted pixels are already upright, so the rotation must not be applied again
+  resetExifOrientation(block);
+
+  const marker = Buffer.from([0xff, 0xe1, (block.length + 2) >> 8, (block.length + 2) & 0xff]);
+  return Buffer.concat([jpeg.subarray(0, 2), marker, block, jpeg.subarray(2)]);
+}
+
+// Convert a HEIC or HEIF photo to a JPEG that browsers can show, carrying its EXIF
+// data over. The decoder applies the photo's rotation, so the JPEG comes out upright.
+// Unlike metadata parsing this throws when the photo can't be decoded at all.
+export async function convertHeicImage(file: Buffer): Promise<{ buffer: Buffer; metadata: PhotoMetadata }> {
+  const metadata = emptyMetadata();
+  await readExif(file, metadata);
+
+  let buffer = Buffer.from(await convertHeic({ buffer: file, format: "JPEG", quality: 0.92 }));
+
+  try {
+    // sharp can read the container's metadata even where it can't decode the image
+    const { exif, orientation } = await sharp(file).metadata();
+    metadata.orientation = orientation ?? null;
+    if (exif) {
+      buffer = addExifToJpeg(buffer, exif);
+    }
+  } catch (error) {
+    console.error("Error copying EXIF metadata:", error);
+  }
+
+  try {
+    const info = await sharp(buffer).metadata();
+    metadata.width = info.width ?? null;
+    metadata.height = info.height ?? null;
+  } catch (error) {
+    console.error("Error reading image dimensions:", error);
+  }
+
+  return { buffer, metadata };
+}
@@ -0,0 +1,116 @@
+import sharp from "sharp";
+import fs from "fs";
+import path from "path";
+import { IMAGE_VARIANTS, type ImageSize, type ImageVariantSize } from "@shared/images";
+
+// Variants live next to the originals in uploads/variants
+export const VARIANTS_DIR_NAME = "variants";
+
+type VariantFormat = "original" | "webp";
+
+// Animated GIFs would lose their animation when resized, so they are always served as is
+const RESIZABLE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp"];
+
+export function canGenerateVariants(fileName: string): boolean {
+  return RESIZABLE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+const VIDEO_EXTENSIONS = [".mp4", ".webm", ".mov"];
+
+export function isVideoFileName(fileName: string): boolean {
+  return VIDEO_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+// A video's poster frame is saved as a JPEG next to it and gets the usual variants
+export function getPosterFileName(fileName: string): string {
+  return `${path.basename(fileName, path.extname(fileName))}-poster.jpg`;
+}
+
+function getVariantFileName(fileName: string, size: ImageVariantSize, format: VariantFormat): string {
+  const extension = path.extname(fileName);
+  const baseName = path.basename(fileName, extension);
+  return `${baseName}-${size}${format === "webp" ? ".webp" : extension}`;
+}
+
+function getVariantPath(uploadsDir: string, fileName: string, size: ImageVariantSize, format: VariantFormat): string {
+  return path.join(uploadsDir, VARIANTS_DIR_NAME, getVariantFileName(fileName, size, format));
+}
+
+// Every variant file that may exist for an upload
+export function getVariantPaths(uploadsDir: string, fileName: string): string[] {
+  return (Object.keys(IMAGE_VARIANTS) as ImageVariantSize[]).flatMap(size => [
+    getVariantPath(uploadsDir, fileName, size, "original"),
+    getVariantPath(uploadsDir, fileName, size, "webp"),
+  ]);
+}
+
+// Generate resized variants in the original format and as WebP.
+// Existing variants are kept unless overwrite is set.
+export async function generateImageVariants(
+  source: Buffer | string,
+  fileName: string,
+  uploadsDir: string,
+  options: { overwrite?: boolean } = {}
+): Promise<number> {
+  if (!canGenerateVariants(fileName)) {
+    return 0;
+  }
+
+  await fs.promises.mkdir(path.join(uploadsDir, VARIANTS_DIR_NAME), { recursive: true });
+
+  let generated = 0;
+  for (const size of Object.keys(IMAGE_VARIANTS) as ImageVariantSize[]) {
+    for (const format of ["original", "webp"] as VariantFormat[]) {
+      const variantPath = getVariantPath(uploadsDir, fileName, size, format);
+      if (!options.overwrite && fs.existsSync(variantPath)) {
+        continue;
+      }
+
+      // Apply the EXIF orientation and never upscale small images
+      let pipeline = sharp(source)
+        .rotate()
+        .resize({ width: IMAGE_VARIANTS[size], withoutEnlargement: true });
+      if (format === "webp") {
+        pipeline = pipeline.webp({ quality: 80 });
+      }
+
+      await pipeline.toFile(variantPath);
+      generated++;
+    }
+  }
+
+  return generated;
+}
+
+// Find the file to serve for a requested size, falling back to the original
+// when the variant has not been generated (yet)
+export function resolveImageVariant(
+  uploadsDir: string,
+  fileName: string,
+  size: ImageSize,
+  acceptsWebp: boolean
+): string | undefined {
+  // Videos are shown as their poster frame wherever an image is asked for
+  if (isVideoFileName(fileName)) {
+    fileName = getPosterFileName(fileName);
+  }
+
+  const originalPath = path.join(uploadsDir, fileName);
+  if (!fs.existsSync(originalPath)) {
+    return undefined;
+  }
+
+  if (size === "original" || !canGenerateVariants(fileName)) {
+    return originalPath;
+  }
+
+  if (acceptsWebp) {
+    const webpPath = getVariantPath(uploadsDir, fileName, size, "webp");
+    if (fs.existsSync(webpPath)) {
+      return webpPath;
+    }
+  }
+
+  const variantPath = getVariantPath(uploadsDir, fileName, size, "original");
+  return fs.existsSync(variantPath) ? variantPath : originalPath;
+}
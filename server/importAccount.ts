@@ -0,0 +1,150 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import yauzl from "yauzl";
+import { storage } from "./storage";
+import { AuthService } from "./auth";
+import { isVideoFileName, getPosterFileName } from "./imageVariants";
+import {
+  ACCOUNT_ARCHIVE_FORMAT,
+  ACCOUNT_ARCHIVE_VERSION,
+  ACCOUNT_ARCHIVE_FOLDER,
+  type AccountArchive,
+} from "@shared/accountExport";
+
+// Restores an account export (made from the profile page) into this server, for example
+// to move to a fresh database. Everything gets new ids. People in the archive are matched
+// to existing accounts by username; the ones missing are created, with the password given
+// for the exported account and a random one, printed below, for everyone else.
+// Usage: npm run account:import -- <archive.zip> [--password <password>]
+
+// Unpacks account.json and the files of an archive into a directory
+function extractArchive(archivePath: string, destination: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(archivePath, { lazyEntries: true }, (error, zipfile) => {
+      if (error || !zipfile) return reject(error);
+
+      zipfile.on("error", reject);
+      zipfile.on("end", () => resolve());
+      zipfile.on("entry", (entry: yauzl.Entry) => {
+        // Only take the entries the layout has, so a crafted name can't write elsewhere
+        const name = entry.fileName.slice(ACCOUNT_ARCHIVE_FOLDER.length + 1);
+        const isAccount = name === "account.json";
+        const isFile = name.startsWith("files/") && path.basename(name) === name.slice("files/".length);
+        if (!entry.fileName.startsWith(`${ACCOUNT_ARCHIVE_FOLDER}/`) || (!isAccount && !isFile)) {
+          zipfile.readEntry();
+          return;
+        }
+
+        zipfile.openReadStream(entry, (streamError, stream) => {
+          if (streamError || !stream) return reject(streamError);
+          const output = fs.createWriteStream(path.join(destination, isAccount ? "account.json" : path.basename(name)));
+          output.on("error", reject);
+          output.on("finish", () => zipfile.readEntry());
+          stream.on("error", reject);
+          stream.pipe(output);
+        });
+      });
+      zipfile.readEntry();
+    });
+  });
+}
+
+function generateFileName(archivePath: string): string {
+  const timestamp = Date.now();
+  const randomNum = Math.floor(Math.random() * 1000000000);
+  return `photo-${timestamp}-${randomNum}${path.extname(archivePath).toLowerCase()}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const passwordIndex = args.indexOf("--password");
+  const password = passwordIndex >= 0 ? args[passwordIndex + 1] : undefined;
+  const archivePath = args.find((arg, index) => !arg.startsWith("--") && (passwordIndex < 0 || index !== passwordIndex + 1));
+  if (!archivePath || (passwordIndex >= 0 && !password)) {
+    console.error("Usage: npm run account:import -- <archive.zip> [--password <password>]");
+    process.exit(1);
+  }
+
+  const extractDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "memri-import-"));
+  try {
+    console.log(`Reading ${archivePath}...`);
+    await extractArchive(archivePath, extractDir);
+
+    const accountPath = path.join(extractDir, "account.json");
+    if (!fs.existsSync(accountPath)) {
+      throw new Error("The archive has no account.json; is it an account export?");
+    }
+    const archive: AccountArchive = JSON.parse(await fs.promises.readFile(accountPath, "utf8"));
+    if (archive.format !== ACCOUNT_ARCHIVE_FORMAT || archive.version > ACCOUNT_ARCHIVE_VERSION) {
+      throw new Error(`Unsupported archive: ${archive.format} version ${archive.version}`);
+    }
+
+    // Where a file of the archive was unpacked, if it was in there
+    const getExtractedPath = (archiveFile: string | null) => {
+      const extracted = archiveFile ? path.join(extractDir, path.basename(archiveFile)) : null;
+      return extracted && fs.existsSync(extracted) ? extracted : null;
+    };
+
+    // Save every file under a new name, the way uploads are saved: pictures get their
+    // resized variants, videos their poster frame next to them
+    const filePaths = new Map<string, string>();
+    const saveFile = async (archiveFile: string | null, fileName = archiveFile ? generateFileName(archiveFile) : "") => {
+      const extracted = getExtractedPath(archiveFile);
+      if (!archiveFile || !extracted || filePaths.has(archiveFile)) return;
+      const filePath = isVideoFileName(archiveFile)
+        ? await storage.saveVideoToFilesystem(extracted, fileName)
+        : await storage.savePhotoToFilesystem(await fs.promises.readFile(extracted), fileName);
+      filePaths.set(archiveFile, filePath);
+    };
+
+    console.log(`Saving the files of ${archive.photos.length} photos...`);
+    for (const photo of archive.photos) {
+      const fileName = generateFileName(photo.file);
+      await saveFile(photo.file, fileName);
+      await saveFile(photo.posterFile, getPosterFileName(fileName));
+      await saveFile(photo.originalFile);
+      await saveFile(photo.motionFile);
+    }
+
+    const userIds = new Map<number, number>();
+    for (const archivedUser of archive.users) {
+      const existing = await storage.getUserByUsername(archivedUser.username);
+      if (existing) {
+        userIds.set(archivedUser.id, existing.id);
+        console.log(`Using the existing account ${existing.username}`);
+        continue;
+      }
+
+      const isAccount = archivedUser.id === archive.userId;
+      const newPassword = isAccount && password ? password : crypto.randomBytes(9).toString("base64url");
+      await saveFile(archivedUser.profilePicture);
+      const user = await storage.createUser({
+        username: archivedUser.username,
+        password: await AuthService.hashPassword(newPassword),
+        displayName: archivedUser.displayName,
+        profilePicture: archivedUser.profilePicture
+          ? filePaths.get(archivedUser.profilePicture) ?? (/^https?:\/\//.test(archivedUser.profilePicture) ? archivedUser.profilePicture : null)
+          : null,
+      });
+      userIds.set(archivedUser.id, user.id);
+      console.log(isAccount && password
+        ? `Created the account ${user.username}`
+        : `Created the account ${user.username} with the password ${newPassword}`);
+    }
+
+    const imported = await storage.importAccount(archive, userIds, filePaths);
+    console.log(`Import complete: ${imported.spaces} spaces, ${imported.collections} memories, ${imported.photos} photos and ${imported.comments} comments`);
+  } finally {
+    await fs.promises.rm(extractDir, { recursive: true, force: true });
+  }
+
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("Import failed!");
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+import archiver from "archiver";
+import fs from "fs";
+import path from "path";
+import type { Writable } from "stream";
+import { storage } from "./storage";
+import type { Collection, Comment, Photo } from "@shared/schema";
+
+// What memory.json in a memory's ZIP holds, next to the photos it describes
+interface MemoryExportComment {
+  author: string | null;
+  content: string;
+  createdAt: string | null;
+  replies: MemoryExportComment[];
+}
+
+interface MemoryExportPhoto {
+  // Paths within the archive; null when the file is missing from the server
+  file: string | null;
+  motionFile: string | null;
+  title: string;
+  description: string | null;
+  takenAt: string | null;
+  uploadedAt: string | null;
+  isLiked: boolean | null;
+  latitude: number | null;
+  longitude: number | null;
+  tags: string[];
+  comments: MemoryExportComment[];
+}
+
+interface MemoryExportSidecar {
+  name: string;
+  description: string | null;
+  memoryDate: string;
+  exportedAt: string;
+  photos: MemoryExportPhoto[];
+}
+
+// A title made safe to use as a file name on any system
+export function toSafeFileName(name: string, fallback: string): string {
+  const safe = name
+    .replace(/[\/\\?%*:|"<>\x00-\x1f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "")
+    .slice(0, 100)
+    .trim();
+  return safe || fallback;
+}
+
+// Where an uploaded file is on disk; files outside /uploads (placeholders, external URLs) aren't exported
+export function getStoredFilePath(filePath: string): string | null {
+  if (!filePath.startsWith("/uploads/")) return null;
+  const storedPath = path.join(process.cwd(), "uploads", path.basename(filePath));
+  return fs.existsSync(storedPath) ? storedPath : null;
+}
+
+// "001 Sunset at the pier.jpg": numbered in the memory's order, so they sort the same way.
+// Titles default to the uploaded file's name, whose extension is dropped to avoid "x.jpg.jpg".
+function getPhotoFileName(index: number, photo: Photo, extension: string, suffix = ""): string {
+  const title = photo.title.replace(/\.[a-z][a-z0-9]{1,4}$/i, "");
+  const number = String(index + 1).padStart(3, "0");
+  return `${number} ${toSafeFileName(title, "Photo")}${suffix}${extension.toLowerCase()}`;
+}
+
+// Comments with their replies nested under them, and the author's name in place of their id.
+// Deleted comments keep their place in the thread without their text, as in the app.
+async function getCommentThreads(photoId: number, authors: Map<number, string | null>): Promise<MemoryExportComment[]> {
+  const photoComments = await storage.getComments(photoId);
+
+  const getAuthor = async (comment: Comment) => {
+    if (comment.deletedAt || !comment.userId) return null;
+    if (!authors.has(comment.userId)) {
+      authors.set(comment.userId, (await storage.getUser(comment.userId))?.displayName ?? null);
+    }
+    return authors.get(comment.userId) ?? null;
+  };
+
+  const toThread = async (comment: Comment): Promise<MemoryExportComment> => ({
+    author: await getAuthor(comment),
+    content: comment.deletedAt ? "[deleted]" : comment.content,
+    createdAt: comment.createdAt?.toISOString() ?? null,
+    replies: await Promise.all(photoComments.filter(reply => reply.parentId === comment.id).map(toThread)),
+  });
+
+  return await Promise.all(photoComments.filter(comment => !comment.parentId).map(toThread));
+}
+
+// Streams a ZIP of a memory to output: a folder named after the memory with every photo's
+// original file (the HEIC rather than its JPEG, a Live Photo's motion clip alongside its
+// still) and a memory.json describing them. Resolves once the whole archive is written.
+export async function streamMemoryExport(collection: Collection, photos: Photo[], output: Writable): Promise<void> {
+  // Photos and videos are compressed already, so they're stored as they are
+  const archive = archiver("zip", { store: true });
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on("error", reject);
+    archive.on("warning", (error) => console.error("Warning while exporting memory:", error));
+    output.on("close", resolve);
+    output.on("finish", resolve);
+    output.on("error", reject);
+  });
+  archive.pipe(output);
+
+  const folder = toSafeFileName(collection.name, "Memory");
+  const authors = new Map<number, string | null>();
+  const sidecar: MemoryExportSidecar = {
+    name: collection.name,
+    description: collection.description,
+    memoryDate: collection.memoryDate,
+    exportedAt: new Date().toISOString(),
+    photos: [],
+  };
+
+  for (let index = 0; index < photos.length; index++) {
+    const photo = photos[index];
+    const original = photo.originalPath ?? photo.filePath;
+    const storedPath = getStoredFilePath(original);
+    const file = storedPath ? getPhotoFileName(index, photo, path.extname(original)) : null;
+    if (storedPath && file) {
+      archive.file(storedPath, { name: `${folder}/${file}`, date: photo.takenAt ?? photo.uploadedAt ?? undefined });
+    }
+
+    const motionPath = photo.motionPath ? getStoredFilePath(photo.motionPath) : null;
+    const motionFile = motionPath && photo.motionPath ? getPhotoFileName(index, photo, path.extname(photo.motionPath), " (Live)") : null;
+    if (motionPath && motionFile) {
+      archive.file(motionPath, { name: `${folder}/${motionFile}`, date: photo.takenAt ?? photo.uploadedAt ?? undefined });
+    }
+
+    sidecar.photos.push({
+      file,
+      motionFile,
+      title: photo.title,
+      description: photo.description,
+      takenAt: photo.takenAt?.toISOString() ?? null,
+      uploadedAt: photo.uploadedAt?.toISOString() ?? null,
+      isLiked: photo.isLiked,
+      latitude: photo.latitude,
+      longitude: photo.longitude,
+      tags: (await storage.getPhotoTags(photo.id)).map(tag => tag.name),
+      comments: await getCommentThreads(photo.id, authors),
+    });
+  }
+
+  archive.append(JSON.stringify(sidecar, null, 2), { name: `${folder}/memory.json` });
+  await archive.finalize();
+  await finished;
+}
@@ -0,0 +1,94 @@
+import { storage } from "./storage";
+import { broadcastToUsers } from "./realtime";
+import type { Photo, Comment, CollectionInvitation, InsertNotification } from "@shared/schema";
+
+// Photos added by the same person within this window share one notification
+const PHOTO_GROUPING_WINDOW = 60 * 60 * 1000;
+
+// Notifications are a side effect of the request that caused them, so failures
+// are logged instead of failing the request
+function runInBackground(description: string, task: () => Promise<void>) {
+  task().catch(error => {
+    console.error(`Error creating ${description} notifications:`, error);
+  });
+}
+
+async function send(notificationList: InsertNotification[]) {
+  for (const notification of notificationList) {
+    await storage.createNotification(notification);
+  }
+  broadcastToUsers(notificationList.map(notification => notification.userId), { type: "notification" });
+}
+
+// Members of a collection other than the person who acted
+async function getOtherMembers(collectionId: number, actorId: number): Promise<number[]> {
+  const members = await storage.getCollectionMembers(collectionId);
+  return members.map(member => member.userId).filter(userId => userId !== actorId);
+}
+
+export function notifyComment(photo: Photo, comment: Comment, actorId: number) {
+  runInBackground("comment", async () => {
+    const collectionId = photo.collectionId;
+    if (!collectionId) return;
+
+    const recipients = await getOtherMembers(collectionId, actorId);
+    const notificationList: InsertNotification[] = [];
+
+    // The author of the comment being answered gets a reply notification instead
+    let replyRecipient: number | null = null;
+    if (comment.parentId) {
+      const parent = await storage.getComment(comment.parentId);
+      if (parent?.userId && !parent.deletedAt && parent.userId !== actorId && recipients.includes(parent.userId)) {
+        replyRecipient = parent.userId;
+        notificationList.push({ userId: parent.userId, actorId, type: "reply", collectionId, photoId: photo.id, commentId: comment.id });
+      }
+    }
+
+    recipients
+      .filter(userId => userId !== replyRecipient)
+      .forEach(userId => {
+        notificationList.push({ userId, actorId, type: "comment", collectionId, photoId: photo.id, commentId: comment.id });
+      });
+
+    await send(notificationList);
+  });
+}
+
+export function notifyPhotoAdded(photo: Photo, actorId: number) {
+  runInBackground("photo", async () => {
+    const collectionId = photo.collectionId;
+    if (!collectionId) return;
+
+    const recipients = await getOtherMembers(collectionId, actorId);
+    const since = new Date(Date.now() - PHOTO_GROUPING_WINDOW);
+
+    for (const userId of recipients) {
+      const existing = await storage.findUnreadNotification(userId, "photos_added", collectionId, actorId, since);
+      if (existing) {
+        await storage.incrementNotificationCount(existing.id);
+      } else {
+        await storage.createNotification({ userId, actorId, type: "photos_added", collectionId, photoId: photo.id });
+      }
+    }
+
+    broadcastToUsers(recipients, { type: "notification" });
+  });
+}
+
+export function notifyInvitation(invitation: CollectionInvitation) {
+  runInBackground("invitation", () => send([{
+    userId: invitation.inviteeId,
+    actorId: invitation.inviterId,
+    type: "invitation",
+    collectionId: invitation.collectionId,
+  }]));
+}
+
+export function notifyInvitationAccepted(invitation: CollectionInvitation) {
+  runInBackground("invitation", () => send([{
+    userId: invitation.inviterId,
+    actorId: invitation.inviteeId,
+    type: "invitation_accepted",
+    collectionId: invitation.collectionId,
+  }]));
+}
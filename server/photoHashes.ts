@@ -0,0 +1,45 @@
+import crypto from "crypto";
+import fs from "fs";
+import sharp from "sharp";
+
+// SHA-256 of a file's bytes, given the bytes or a path to stream them from
+export async function computeContentHash(source: Buffer | string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  if (typeof source === "string") {
+    for await (const chunk of fs.createReadStream(source)) {
+      hash.update(chunk);
+    }
+  } else {
+    hash.update(source);
+  }
+  return hash.digest("hex");
+}
+
+// Difference hash: the picture shrunk to 9x8 greyscale, one bit per pair of neighbouring
+// pixels saying whether brightness falls from left to right. Resizing, re-encoding and small
+// edits barely change it. Returns null for anything sharp can't read rather than failing the upload.
+export async function computePerceptualHash(image: Buffer | string): Promise<string | null> {
+  try {
+    const pixels = await sharp(image)
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: "fill" })
+      .raw()
+      .toBuffer();
+
+    let hash = "";
+    for (let row = 0; row < 8; row++) {
+      let bits = 0;
+      for (let column = 0; column < 8; column++) {
+        const left = pixels[row * 9 + column];
+        const right = pixels[row * 9 + column + 1];
+        bits = (bits << 1) | (left > right ? 1 : 0);
+      }
+      hash += bits.toString(16).padStart(2, "0");
+    }
+    return hash;
+  } catch (error) {
+    console.error("Error computing perceptual hash:", error);
+    return null;
+  }
+}
@@ -0,0 +1,109 @@
+import { WebSocketServer, WebSocket } from "ws";
+import type { Server, IncomingMessage } from "http";
+import { AuthService } from "./auth";
+import { storage } from "./storage";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+
+// Open sockets per user; a user can have several tabs or devices connected
+const connections = new Map<number, Set<WebSocket>>();
+
+// Detect connections that dropped without a close frame
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+function getSessionId(req: IncomingMessage): string | undefined {
+  const cookie = (req.headers.cookie || "")
+    .split(";")
+    .map(part => part.trim())
+    .find(part => part.startsWith("sessionId="));
+  return cookie ? decodeURIComponent(cookie.slice("sessionId=".length)) : undefined;
+}
+
+function addConnection(userId: number, socket: WebSocket) {
+  const sockets = connections.get(userId) ?? new Set<WebSocket>();
+  sockets.add(socket);
+  connections.set(userId, sockets);
+
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      connections.delete(userId);
+    }
+  });
+}
+
+// Accept WebSocket upgrades on REALTIME_PATH for signed-in users.
+// Other upgrades (like the Vite HMR socket in development) are left alone.
+export function setupRealtime(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) {
+      return;
+    }
+
+    try {
+      const sessionId = getSessionId(req);
+      const session = sessionId ? await AuthService.getSession(sessionId) : null;
+      if (!session) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        addConnection(session.userId, ws);
+        wss.emit("connection", ws, req);
+      });
+    } catch (error) {
+      console.error("Realtime connection error:", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+      socket.destroy();
+    }
+  });
+
+  const alive = new WeakSet<WebSocket>();
+  wss.on("connection", (ws) => {
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+// Push an event to specific users, e.g. the members of a collection that was just deleted
+export function broadcastToUsers(userIds: number[], event: RealtimeEvent) {
+  const message = JSON.stringify(event);
+  new Set(userIds).forEach((userId) => {
+    connections.get(userId)?.forEach((socket) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      }
+    });
+  });
+}
+
+// Push an event to everyone with access to a collection.
+// Runs in the background so a failed broadcast never fails the request.
+export function broadcastToCollection(collectionId: number, event: RealtimeEvent) {
+  if (connections.size === 0) {
+    return;
+  }
+
+  storage.getCollectionMembers(collectionId).then(members => {
+    broadcastToUsers(members.map(member => member.userId), event);
+  }).catch(error => {
+    console.error("Realtime broadcast error:", error);
+  });
+}
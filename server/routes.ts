@@ -1,12 +1,31 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertCollectionSchema, insertPhotoSchema, loginSchema, updateUserSchema, insertCommentSchema } from "@shared/schema";
+import { insertCollectionSchema, updateCollectionSchema, insertPhotoSchema, updatePhotoSchema, loginSchema, registerSchema, updateUserSchema, insertCommentSchema, inviteToCollectionSchema, updateCollectionMemberSchema, insertSpaceSchema, joinSpaceSchema, photoReactionSchema, updateNotificationSchema, updateTagsSchema, batchPhotosSchema, transferPhotosSchema, batchLikePhotosSchema, batchTagPhotosSchema, updateCoverSchema, reorderPhotosSchema, initUploadSchema, mergeDuplicatesSchema, type User, type Photo, type InsertPhoto, type UpdatePhotoRequest, type Collection, type UpdateCollectionRequest, type CollectionRole, type BatchPhotosRequest, type TransferPhotosRequest, type BatchLikePhotosRequest, type UpdateCoverRequest, type ReorderPhotosRequest, type InitUploadRequest, type MergeDuplicatesRequest, type Comment, type InsertComment, type PhotoReactionType, type RegisterRequest } from "@shared/schema";
 import { AuthService, requireAuth, optionalAuth } from "./auth";
 import multer from "multer";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import cookieParser from "cookie-parser";
+import crypto from "crypto";
+import path from "path";
+import fs from "fs";
+import { resolveImageVariant, getPosterFileName } from "./imageVariants";
+import { processUploadedImage, convertHeicImage } from "./imageMetadata";
+import { readVideoMetadata, extractPosterFrame } from "./videoMetadata";
+import { computeContentHash, computePerceptualHash } from "./photoHashes";
+import { streamMemoryExport, toSafeFileName } from "./memoryExport";
+import { setupRealtime, broadcastToCollection, broadcastToUsers } from "./realtime";
+import { notifyComment, notifyPhotoAdded, notifyInvitation, notifyInvitationAccepted } from "./notifications";
+import { isImageSize } from "@shared/images";
+import { isTimelineMonth, type TimelinePage } from "@shared/timeline";
+import type { OnThisDayResponse } from "@shared/memories";
+import type { DuplicateWarning } from "@shared/duplicates";
+import type { TrashResponse } from "@shared/trash";
+import { TRASH_RETENTION_DAYS, getPurgeDate, startTrashPurge } from "./trashPurge";
+import { MAX_UPLOAD_SIZE, MAX_VIDEO_UPLOAD_SIZE, createUploadSession, getUploadSession, getChunkLength, writeUploadChunk, isUploadComplete, getUploadedFilePath, discardUploadSession, startUploadCleanup } from "./uploadSessions";
+import { startAccountExport, getAccountExport, getAccountExportFilePath, startAccountExportCleanup } from "./accountExport";
+import { ALLOWED_UPLOAD_TYPES, WEB_IMAGE_TYPES, isVideoType, isHeicType, getUploadType } from "@shared/uploads";
 
 // Extend Request type to include multer file properties
 interface MulterRequest extends Request {
@@ -17,14 +36,26 @@ interface MulterRequest extends Request {
 // Set up multer for file uploads
 const upload = multer({ 
   storage: multer.memoryStorage(),
-  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+  limits: { fileSize: MAX_UPLOAD_SIZE },
   fileFilter: (_req, file, cb) => {
-    // Accept only image files
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
-    if (allowedTypes.includes(file.mimetype)) {
+    // Accept only image and video files
+    if (ALLOWED_UPLOAD_TYPES.includes(getUploadType(file.originalname, file.mimetype))) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      cb(new Error('Only image and video files are allowed'));
+    }
+  }
+});
+
+// Profile pictures are stored as they are uploaded, so they can't be videos or HEIC photos
+const profilePictureUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE },
+  fileFilter: (_req, file, cb) => {
+    if (WEB_IMAGE_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only JPEG, PNG, GIF and WebP images are allowed'));
     }
   }
 });
@@ -50,6 +81,165 @@ function generateFileName(originalName: string): string {
   return `photo-${timestamp}-${randomNum}.${extension}`;
 }
 
+// Helper function to store an uploaded photo or video clip under a unique filename and
+// read its metadata. The source is the file's bytes or, for finished chunked uploads,
+// its path on disk, so large videos are moved into place instead of read into memory.
+// The hashes returned with the metadata are used to spot duplicates.
+async function saveUploadedMedia(source: Buffer | string, originalName: string, mimeType: string, options: { poster?: boolean } = {}) {
+  const fileName = generateFileName(originalName);
+  const contentHash = await computeContentHash(source);
+
+  if (isVideoType(mimeType)) {
+    // ffprobe and ffmpeg work on files, so the clip is saved before it is examined
+    const filePath = await storage.saveVideoToFilesystem(source, fileName);
+    const fullPath = path.join(process.cwd(), 'uploads', fileName);
+    const metadata = await readVideoMetadata(fullPath);
+
+    let perceptualHash: string | null = null;
+    if (options.poster !== false) {
+      const poster = await extractPosterFrame(fullPath, metadata.duration);
+      if (poster) {
+        await storage.savePhotoToFilesystem(poster, getPosterFileName(fileName));
+        perceptualHash = await computePerceptualHash(poster);
+      }
+    }
+
+    return { fileName, fileType: mimeType, filePath, metadata: { ...metadata, contentHash, perceptualHash, mediaKind: "video" as const } };
+  }
+
+  const file = typeof source === 'string' ? await fs.promises.readFile(source) : source;
+
+  // Browsers can't show HEIC, so the photo is shown as a JPEG and the HEIC kept for download
+  if (isHeicType(mimeType)) {
+    const { buffer, metadata } = await convertHeicImage(file);
+    const originalPath = await storage.savePhotoToFilesystem(file, fileName);
+    const jpegName = `${path.basename(fileName, path.extname(fileName))}.jpg`;
+    const filePath = await storage.savePhotoToFilesystem(buffer, jpegName);
+    const perceptualHash = await computePerceptualHash(buffer);
+    return { fileName: jpegName, fileType: 'image/jpeg', filePath, metadata: { ...metadata, originalPath, contentHash, perceptualHash, duration: null, mediaKind: "image" as const } };
+  }
+
+  // Read EXIF and rotate upright
+  const { buffer, metadata } = await processUploadedImage(file);
+  const filePath = await storage.savePhotoToFilesystem(buffer, fileName);
+  const perceptualHash = await computePerceptualHash(buffer);
+  return { fileName, fileType: mimeType, filePath, metadata: { ...metadata, contentHash, perceptualHash, duration: null, mediaKind: "image" as const } };
+}
+
+// Helper function to find the photos already in the user's memories that a new upload
+// duplicates. Uploads go through either way; the uploader is only warned.
+async function findDuplicateWarning(photo: Photo, userId: number): Promise<DuplicateWarning | null> {
+  try {
+    const matches = await storage.findDuplicatePhotos(photo, userId);
+    return matches.length > 0 ? { photoId: photo.id, title: photo.title, matches } : null;
+  } catch (error) {
+    console.error('Error checking for duplicate photos:', error);
+    return null;
+  }
+}
+
+// Space invite codes are valid for a week
+const SPACE_INVITE_DURATION = 7 * 24 * 60 * 60 * 1000;
+
+// Helper function to generate a readable one-time invite code
+function generateInviteCode(): string {
+  // Skip characters that are easy to confuse when typed (0/O, 1/I/L)
+  const alphabet = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  const bytes = crypto.randomBytes(8);
+  return Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join('');
+}
+
+// Helper function to set the session cookie after login or registration
+function setSessionCookie(res: Response, sessionId: string) {
+  res.cookie('sessionId', sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+  });
+}
+
+// Helper function to strip private fields from a user before returning it
+function toPublicUser(user: User | undefined) {
+  return user ? { id: user.id, username: user.username, displayName: user.displayName, profilePicture: user.profilePicture } : null;
+}
+
+// Helper function to attach the author to a comment, hiding the author and text of deleted ones
+async function toCommentResponse(comment: Comment) {
+  if (comment.deletedAt) {
+    return { ...comment, content: '[deleted]', userId: null, user: null };
+  }
+  return {
+    ...comment,
+    user: comment.userId ? toPublicUser(await storage.getUser(comment.userId)) : null
+  };
+}
+
+// Helper function to push a photo change to everyone who can see the photo
+function broadcastPhotoEvent(photo: Photo | undefined, action: "created" | "updated" | "deleted" | "reacted") {
+  if (photo?.collectionId) {
+    broadcastToCollection(photo.collectionId, { type: "photo", action, collectionId: photo.collectionId, photoId: photo.id });
+  }
+}
+
+// Helper function to push a comment change to everyone who can see the photo
+function broadcastCommentEvent(photo: Photo | undefined, commentId: number, action: "created" | "updated" | "deleted") {
+  if (photo?.collectionId) {
+    broadcastToCollection(photo.collectionId, { type: "comment", action, collectionId: photo.collectionId, photoId: photo.id, commentId });
+  }
+}
+
+type PhotoAccessError = { error: { status: number; message: string } };
+
+// Helper function to load the photos for a batch action, checking the user has the
+// given role in each photo's memory. Any missing or forbidden photo fails the batch.
+async function loadPhotosForBatch(userId: number, photoIds: number[], role: CollectionRole): Promise<PhotoAccessError | { photos: Photo[] }> {
+  const batchPhotos: Photo[] = [];
+  for (const photoId of Array.from(new Set(photoIds))) {
+    const photo = await storage.getPhoto(photoId);
+    if (!photo) {
+      return { error: { status: 404, message: `Photo ${photoId} not found` } };
+    }
+    if (photo.collectionId && !(await storage.checkCollectionPermission(photo.collectionId, userId, role))) {
+      return { error: { status: 403, message: `Not authorized to change photo ${photoId}` } };
+    }
+    batchPhotos.push(photo);
+  }
+  return { photos: batchPhotos };
+}
+
+// Helper function to load the photos for a move or copy, checking the user can take them
+// from their memories (sourceRole) and add them to the destination (editor)
+async function preparePhotoTransfer(
+  userId: number,
+  { photoIds, collectionId }: TransferPhotosRequest,
+  sourceRole: CollectionRole
+): Promise<PhotoAccessError | { photos: Photo[]; collection: Collection }> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) {
+    return { error: { status: 404, message: 'Destination memory not found' } };
+  }
+  if (!(await storage.checkCollectionPermission(collectionId, userId, "editor"))) {
+    return { error: { status: 403, message: 'Not authorized to add photos to this memory' } };
+  }
+
+  const batch = await loadPhotosForBatch(userId, photoIds, sourceRole);
+  if ('error' in batch) {
+    return batch;
+  }
+  return { photos: batch.photos, collection };
+}
+
+// Helper function to list the MM-DD days around a date, e.g. a week centred on it
+function getMonthDaysAround(date: Date, daysEitherSide: number): string[] {
+  const monthDays: string[] = [];
+  for (let offset = -daysEitherSide; offset <= daysEitherSide; offset++) {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + offset));
+    monthDays.push(day.toISOString().slice(5, 10));
+  }
+  return monthDays;
+}
+
 // Helper function to handle database connection issues
 async function withDatabaseRetry<T>(operation: () => Promise<T>, maxRetries = 3): Promise<T> {
   let lastError: Error;
@@ -119,12 +309,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Set session cookie
-      res.cookie('sessionId', result.sessionId, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-      });
+      setSessionCookie(res, result.sessionId);
       
       return res.json({ user: result.user, sessionId: result.sessionId });
     } catch (error) {
@@ -133,6 +318,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/auth/register', async (req: Request, res: Response) => {
+    try {
+      const data = validateSchema<RegisterRequest>(registerSchema, req.body);
+      const result = await AuthService.register(data);
+      
+      // Set session cookie
+      setSessionCookie(res, result.sessionId);
+      
+      return res.status(201).json({ user: result.user, sessionId: result.sessionId });
+    } catch (error) {
+      console.error('Registration error:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Registration failed' });
+    }
+  });
+
   app.post('/api/auth/logout', requireAuth, async (req: Request, res: Response) => {
     try {
       if (req.sessionId) {
@@ -154,7 +354,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User management routes
   app.get('/api/users', requireAuth, async (req: Request, res: Response) => {
     try {
-      const users = await storage.getAllUsers();
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      // Only list people the user shares a space with
+      const users = await storage.getUsersSharingSpaces(req.user.id);
       // Remove passwords from response
       const usersWithoutPasswords = users.map(({ password, ...user }) => user);
       return res.json(usersWithoutPasswords);
@@ -164,7 +368,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/users/profile', requireAuth, upload.single('profilePicture'), async (req: MulterRequest, res: Response) => {
+  app.put('/api/users/profile', requireAuth, profilePictureUpload.single('profilePicture'), async (req: MulterRequest, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
@@ -204,13 +408,195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Account export: the archive is built in the background, polled for, then downloaded
+  app.post('/api/account/export', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const job = await startAccountExport(req.user.id);
+      return res.status(202).json(job);
+    } catch (error) {
+      console.error('Error starting account export:', error);
+      return res.status(500).json({ message: 'Failed to start account export' });
+    }
+  });
+
+  app.get('/api/account/export/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const job = await getAccountExport(req.params.id, req.user.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Export not found' });
+      }
+
+      return res.json(job);
+    } catch (error) {
+      console.error('Error fetching account export:', error);
+      return res.status(500).json({ message: 'Failed to fetch account export' });
+    }
+  });
+
+  app.get('/api/account/export/:id/download', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const job = await getAccountExport(req.params.id, req.user.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Export not found' });
+      }
+      if (job.status !== 'ready') {
+        return res.status(409).json({ message: 'Export is not ready yet' });
+      }
+
+      const date = job.createdAt.slice(0, 10);
+      return res.download(getAccountExportFilePath(job), `memri-export-${req.user.username}-${date}.zip`);
+    } catch (error) {
+      console.error('Error downloading account export:', error);
+      return res.status(500).json({ message: 'Failed to download account export' });
+    }
+  });
+
+  // Spaces API
+  app.get('/api/spaces', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      const spaces = await storage.getSpaces(req.user.id);
+      return res.json(spaces);
+    } catch (error) {
+      console.error('Error fetching spaces:', error);
+      return res.status(500).json({ message: 'Failed to fetch spaces' });
+    }
+  });
+
+  app.post('/api/spaces', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      const { name } = validateSchema<{ name: string }>(insertSpaceSchema, req.body);
+      if (!name.trim()) {
+        return res.status(400).json({ message: 'Name is required' });
+      }
+      const space = await storage.createSpace({ name: name.trim(), createdBy: req.user.id });
+      return res.status(201).json(space);
+    } catch (error) {
+      console.error('Error creating space:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to create space' });
+    }
+  });
+
+  app.post('/api/spaces/join', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      const { code } = validateSchema<{ code: string }>(joinSpaceSchema, req.body);
+      const space = await storage.redeemSpaceInvite(code, req.user.id);
+      if (!space) {
+        return res.status(400).json({ message: 'Invite code is invalid or has expired' });
+      }
+      return res.json(space);
+    } catch (error) {
+      console.error('Error joining space:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to join space' });
+    }
+  });
+
+  app.get('/api/spaces/:id/members', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const spaceId = parseInt(req.params.id);
+      if (isNaN(spaceId)) {
+        return res.status(400).json({ message: 'Invalid space ID' });
+      }
+
+      const isMember = await storage.isSpaceMember(spaceId, req.user.id);
+      if (!isMember) {
+        return res.status(403).json({ message: 'Not authorized to view members of this space' });
+      }
+
+      const members = await storage.getSpaceMembers(spaceId);
+      const users = await Promise.all(members.map(member => storage.getUser(member.userId)));
+      return res.json(users.filter(Boolean).map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching space members:', error);
+      return res.status(500).json({ message: 'Failed to fetch space members' });
+    }
+  });
+
+  app.post('/api/spaces/:id/invites', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const spaceId = parseInt(req.params.id);
+      if (isNaN(spaceId)) {
+        return res.status(400).json({ message: 'Invalid space ID' });
+      }
+
+      const isMember = await storage.isSpaceMember(spaceId, req.user.id);
+      if (!isMember) {
+        return res.status(403).json({ message: 'Not authorized to invite people to this space' });
+      }
+
+      const invite = await storage.createSpaceInvite({
+        spaceId,
+        code: generateInviteCode(),
+        createdBy: req.user.id,
+        expiresAt: new Date(Date.now() + SPACE_INVITE_DURATION)
+      });
+
+      return res.status(201).json({ code: invite.code, expiresAt: invite.expiresAt });
+    } catch (error) {
+      console.error('Error creating space invite:', error);
+      return res.status(500).json({ message: 'Failed to create invite code' });
+    }
+  });
+
+  app.delete('/api/spaces/:id/members/me', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const spaceId = parseInt(req.params.id);
+      if (isNaN(spaceId)) {
+        return res.status(400).json({ message: 'Invalid space ID' });
+      }
+
+      const success = await storage.removeSpaceMember(spaceId, req.user.id);
+      if (success) {
+        return res.status(204).end();
+      } else {
+        return res.status(404).json({ message: 'Not a member of this space' });
+      }
+    } catch (error) {
+      console.error('Error leaving space:', error);
+      return res.status(500).json({ message: 'Failed to leave space' });
+    }
+  });
+
   // Collections API
   app.get('/api/collections', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
       }
-      const collections = await storage.getCollections(req.user.id);
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const collections = await storage.getCollections(req.user.id, spaceId);
       return res.json(collections);
     } catch (error) {
       console.error('Error fetching collections:', error);
@@ -223,7 +609,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
       }
-      const collections = await storage.getCollectionsWithThumbnails(req.user.id);
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const collections = await storage.getCollectionsWithThumbnails(req.user.id, spaceId);
       return res.json(collections);
     } catch (error) {
       console.error('Error fetching collections with thumbnails:', error);
@@ -231,6 +618,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Memories between two days, e.g. the weeks shown on a calendar page
+  app.get('/api/collections/range', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const { from, to } = req.query;
+      const isDay = (value: unknown): value is string =>
+        typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+      if (!isDay(from) || !isDay(to)) {
+        return res.status(400).json({ message: 'from and to must be dates in YYYY-MM-DD format' });
+      }
+      if (from > to) {
+        return res.status(400).json({ message: 'from must not be after to' });
+      }
+
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const collections = await storage.getCollectionsWithThumbnails(req.user.id, spaceId, { from, to });
+      return res.json(collections);
+    } catch (error) {
+      console.error('Error fetching collections in range:', error);
+      return res.status(500).json({ message: 'Failed to fetch collections in range' });
+    }
+  });
+
   app.post('/api/collections', requireAuth, upload.array('photo'), async (req: MulterRequest, res: Response) => {
     try {
       if (!req.user) {
@@ -240,24 +653,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Creating collection for user ${req.user.username} (${req.user.id})`);
       
       // Parse form data from req.body
-      const { name, description, type } = req.body;
+      const { name, description, type, date } = req.body;
       
       if (!name) {
         return res.status(400).json({ message: 'Name is required' });
       }
       
+      // Collections live in a space; default to the user's first one
+      let spaceId = req.body.spaceId ? parseInt(req.body.spaceId) : undefined;
+      if (spaceId === undefined) {
+        const userSpaces = await storage.getSpaces(req.user.id);
+        spaceId = userSpaces[0]?.id;
+      }
+      if (!spaceId || isNaN(spaceId) || !(await storage.isSpaceMember(spaceId, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to add memories to this space' });
+      }
+      
       // Create collection with retry logic
       const data = validateSchema(insertCollectionSchema, {
         name,
         description,
         type: type || 'custom',
-        userId: req.user.id
+        userId: req.user.id,
+        spaceId,
+        // The client sends the day of the memory as "date" (YYYY-MM-DD)
+        memoryDate: date || undefined
       });
       
+      // Tags arrive as repeated "tag" form fields
+      const tagNames = validateSchema<string[]>(
+        updateTagsSchema.shape.tags,
+        req.body.tag === undefined ? [] : Array.isArray(req.body.tag) ? req.body.tag : [req.body.tag]
+      );
+      
       const collection = await withDatabaseRetry(() => storage.createCollection(data));
       console.log(`Collection created successfully: ${collection.id}`);
       
+      if (tagNames.length > 0) {
+        await storage.setCollectionTags(collection.id, spaceId, tagNames);
+      }
+      
       // Handle photo uploads if any
+      const duplicates: DuplicateWarning[] = [];
       if (req.files && Array.isArray(req.files) && req.files.length > 0) {
         console.log(`Processing ${req.files.length} photo uploads`);
         const photoTitles = Array.isArray(req.body.photoTitle) 
@@ -270,25 +707,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           console.log(`Processing photo ${i + 1}/${req.files.length}: ${title}`);
           
-          // Generate unique filename and save to filesystem
-          const fileName = generateFileName(file.originalname);
-          const filePath = await storage.savePhotoToFilesystem(file.buffer, fileName);
+          const { fileName, fileType, filePath, metadata } = await saveUploadedMedia(file.buffer, file.originalname, getUploadType(file.originalname, file.mimetype));
           
           // Save photo to collection with retry logic
-          await withDatabaseRetry(() => storage.createPhoto({
+          const photo = await withDatabaseRetry(() => storage.createPhoto({
             title,
             fileName: fileName,
-            fileType: file.mimetype,
+            fileType,
             filePath: filePath,
             collectionId: collection.id,
-            isLiked: false
+            isLiked: false,
+            ...metadata
           }));
           
           console.log(`Photo ${i + 1} saved successfully`);
+          
+          const duplicate = await findDuplicateWarning(photo, req.user.id);
+          if (duplicate) {
+            duplicates.push(duplicate);
+          }
         }
       }
       
-      return res.status(201).json(collection);
+      broadcastToCollection(collection.id, { type: "collection", action: "created", collectionId: collection.id });
+      return res.status(201).json({ ...collection, duplicates });
     } catch (error) {
       console.error('Error creating collection:', error);
       
@@ -331,13 +773,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Collection not found' });
       }
 
-      // Check if user is an owner of this collection
-      const ownership = await storage.checkCollectionOwnership(collectionId, req.user.id);
-      if (!ownership) {
+      // Check if user is a member of this collection
+      const role = await storage.getCollectionRole(collectionId, req.user.id);
+      if (!role) {
         return res.status(403).json({ message: 'Not authorized to access this collection' });
       }
 
-      return res.json(collection);
+      return res.json({ ...collection, role });
     } catch (error) {
       console.error('Error fetching collection:', error);
       return res.status(500).json({ message: 'Failed to fetch collection' });
@@ -360,14 +802,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Collection not found' });
       }
 
-      // Check if user is an owner of this collection
-      const ownership = await storage.checkCollectionOwnership(collectionId, req.user.id);
+      // Check if user can edit this collection
+      const ownership = await storage.checkCollectionPermission(collectionId, req.user.id, "editor");
       if (!ownership) {
         return res.status(403).json({ message: 'Not authorized to update this collection' });
       }
 
-      const data = validateSchema(insertCollectionSchema.partial(), req.body);
-      const updatedCollection = await storage.updateCollection(collectionId, data);
+      const { spaceId, ...data } = validateSchema<UpdateCollectionRequest>(updateCollectionSchema, req.body);
+
+      // Moving the memory to another space is up to its owners, and only into their own spaces
+      if (spaceId && spaceId !== collection.spaceId) {
+        const role = await storage.getCollectionRole(collectionId, req.user.id);
+        if (role !== "owner") {
+          return res.status(403).json({ message: 'Only owners can move this collection to another space' });
+        }
+        if (!(await storage.isSpaceMember(spaceId, req.user.id))) {
+          return res.status(403).json({ message: 'Not authorized to add memories to this space' });
+        }
+        await storage.moveCollectionToSpace(collectionId, spaceId);
+      }
+
+      const updatedCollection = Object.keys(data).length > 0
+        ? await storage.updateCollection(collectionId, data)
+        : await storage.getCollection(collectionId);
+      broadcastToCollection(collectionId, { type: "collection", action: "updated", collectionId });
       return res.json(updatedCollection);
     } catch (error) {
       console.error('Error updating collection:', error);
@@ -375,7 +833,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/collections/:id', requireAuth, async (req: Request, res: Response) => {
+  app.get('/api/collections/:id/tags', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const hasAccess = await storage.checkCollectionPermission(collectionId, req.user.id, "viewer");
+      if (!hasAccess) {
+        return res.status(403).json({ message: 'Not authorized to access this collection' });
+      }
+
+      const collectionTags = await storage.getCollectionTags(collectionId);
+      return res.json(collectionTags);
+    } catch (error) {
+      console.error('Error fetching collection tags:', error);
+      return res.status(500).json({ message: 'Failed to fetch collection tags' });
+    }
+  });
+
+  app.put('/api/collections/:id/tags', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
@@ -391,111 +873,1089 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Collection not found' });
       }
 
-      // Check if user is an owner of this collection
-      const ownership = await storage.checkCollectionOwnership(collectionId, req.user.id);
-      if (!ownership) {
-        return res.status(403).json({ message: 'Not authorized to delete this collection' });
+      const canEdit = await storage.checkCollectionPermission(collectionId, req.user.id, "editor");
+      if (!canEdit) {
+        return res.status(403).json({ message: 'Not authorized to tag this collection' });
       }
 
-      const success = await storage.deleteCollection(collectionId);
-      if (success) {
-        return res.status(204).end();
-      } else {
-        return res.status(500).json({ message: 'Failed to delete collection' });
+      // Tags belong to a space, so memories outside of one can't be tagged
+      if (!collection.spaceId) {
+        return res.status(400).json({ message: 'Only memories in a space can be tagged' });
       }
+
+      const { tags } = validateSchema<{ tags: string[] }>(updateTagsSchema, req.body);
+      const collectionTags = await storage.setCollectionTags(collectionId, collection.spaceId, tags);
+      broadcastToCollection(collectionId, { type: "collection", action: "updated", collectionId });
+      return res.json(collectionTags);
     } catch (error) {
-      console.error('Error deleting collection:', error);
-      return res.status(500).json({ message: 'Failed to delete collection' });
+      console.error('Error updating collection tags:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update collection tags' });
     }
   });
 
-  // Photos API
-  app.get('/api/photos', requireAuth, async (req: Request, res: Response) => {
+  app.put('/api/collections/:id/cover', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
       }
       
-      const collectionId = req.query.collectionId ? parseInt(req.query.collectionId as string) : undefined;
-      console.log({collectionId})
-      const photos = await storage.getPhotos(req.user.id, collectionId);
-      
-      return res.json(photos);
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const collection = await storage.getCollection(collectionId);
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+
+      const canEdit = await storage.checkCollectionPermission(collectionId, req.user.id, "editor");
+      if (!canEdit) {
+        return res.status(403).json({ message: 'Not authorized to change the cover of this collection' });
+      }
+
+      const { photoId, focusX, focusY } = validateSchema<UpdateCoverRequest>(updateCoverSchema, req.body);
+      if (photoId) {
+        const photo = await storage.getPhoto(photoId);
+        if (!photo || photo.collectionId !== collectionId) {
+          return res.status(400).json({ message: 'The cover must be a photo in this collection' });
+        }
+      }
+
+      const focus = focusX !== undefined && focusY !== undefined ? { x: focusX, y: focusY } : undefined;
+      const updatedCollection = await storage.setCollectionCover(collectionId, photoId, focus);
+      broadcastToCollection(collectionId, { type: "collection", action: "updated", collectionId });
+      return res.json(updatedCollection);
     } catch (error) {
-      console.error('Error fetching photos:', error);
-      return res.status(500).json({ message: 'Failed to fetch photos' });
+      console.error('Error updating collection cover:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update collection cover' });
     }
   });
 
-  app.post('/api/photos', requireAuth, upload.single('photo'), async (req: MulterRequest, res: Response) => {
+  app.put('/api/collections/:id/photos/order', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
       }
       
-      if (!req.file) {
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const collection = await storage.getCollection(collectionId);
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+
+      const canEdit = await storage.checkCollectionPermission(collectionId, req.user.id, "editor");
+      if (!canEdit) {
+        return res.status(403).json({ message: 'Not authorized to reorder photos in this collection' });
+      }
+
+      // The order has to cover exactly the photos in the memory, so a stale list
+      // from before someone else added or removed a photo is rejected
+      const { photoIds } = validateSchema<ReorderPhotosRequest>(reorderPhotosSchema, req.body);
+      const currentIds = (await storage.getPhotos(req.user.id, collectionId)).map(photo => photo.id);
+      const requestedIds = new Set(photoIds);
+      if (requestedIds.size !== photoIds.length || requestedIds.size !== currentIds.length || !currentIds.every(id => requestedIds.has(id))) {
+        return res.status(409).json({ message: 'The photos in this collection have changed. Refresh and try again.' });
+      }
+
+      const orderedPhotos = await storage.reorderPhotos(collectionId, photoIds);
+      broadcastToCollection(collectionId, { type: "collection", action: "updated", collectionId });
+      return res.json(orderedPhotos);
+    } catch (error) {
+      console.error('Error reordering photos:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to reorder photos' });
+    }
+  });
+
+  // Download the whole memory as a ZIP of its original files and a memory.json
+  // with their titles, descriptions and comments
+  app.get('/api/collections/:id/export', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const collection = await storage.getCollection(collectionId);
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+
+      const hasAccess = await storage.checkCollectionPermission(collectionId, req.user.id, "viewer");
+      if (!hasAccess) {
+        return res.status(403).json({ message: 'Not authorized to download this collection' });
+      }
+
+      const collectionPhotos = await storage.getPhotos(req.user.id, collectionId);
+      const fileName = `${toSafeFileName(collection.name, 'Memory')}.zip`;
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+      await streamMemoryExport(collection, collectionPhotos, res);
+    } catch (error) {
+      console.error('Error exporting collection:', error);
+      // Once the ZIP has started there's no way to report the error but to cut it short
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ message: 'Failed to export collection' });
+      }
+    }
+  });
+
+  app.delete('/api/collections/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const collection = await storage.getCollection(collectionId);
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+
+      // Check if user is an owner of this collection
+      const ownership = await storage.checkCollectionPermission(collectionId, req.user.id, "owner");
+      if (!ownership) {
+        return res.status(403).json({ message: 'Not authorized to delete this collection' });
+      }
+
+      // Moves the collection to the trash; its owners can restore it from there
+      const success = await storage.deleteCollection(collectionId);
+      if (success) {
+        broadcastToCollection(collectionId, { type: "collection", action: "deleted", collectionId });
+        return res.status(204).end();
+      } else {
+        return res.status(500).json({ message: 'Failed to delete collection' });
+      }
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      return res.status(500).json({ message: 'Failed to delete collection' });
+    }
+  });
+
+  // Collection sharing API
+  app.get('/api/collections/:id/members', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const hasAccess = await storage.checkCollectionPermission(collectionId, req.user.id, "viewer");
+      if (!hasAccess) {
+        return res.status(403).json({ message: 'Not authorized to view members of this collection' });
+      }
+
+      const members = await storage.getCollectionMembers(collectionId);
+      const invitations = await storage.getCollectionInvitations(collectionId);
+
+      const membersWithUsers = await Promise.all(
+        members.map(async (member) => ({
+          userId: member.userId,
+          role: member.role,
+          createdAt: member.createdAt,
+          user: toPublicUser(await storage.getUser(member.userId))
+        }))
+      );
+
+      const invitationsWithUsers = await Promise.all(
+        invitations.map(async (invitation) => ({
+          ...invitation,
+          invitee: toPublicUser(await storage.getUser(invitation.inviteeId))
+        }))
+      );
+
+      return res.json({ members: membersWithUsers, invitations: invitationsWithUsers });
+    } catch (error) {
+      console.error('Error fetching collection members:', error);
+      return res.status(500).json({ message: 'Failed to fetch collection members' });
+    }
+  });
+
+  app.post('/api/collections/:id/invitations', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const isOwner = await storage.checkCollectionPermission(collectionId, req.user.id, "owner");
+      if (!isOwner) {
+        return res.status(403).json({ message: 'Only owners can invite people to this collection' });
+      }
+
+      const { userId, role } = validateSchema<{ userId: number; role: "editor" | "viewer" }>(inviteToCollectionSchema, req.body);
+
+      if (userId === req.user.id) {
+        return res.status(400).json({ message: 'You cannot invite yourself' });
+      }
+
+      const invitee = await storage.getUser(userId);
+      if (!invitee) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Collections can only be shared within their space
+      const collection = await storage.getCollection(collectionId);
+      if (collection?.spaceId && !(await storage.isSpaceMember(collection.spaceId, userId))) {
+        return res.status(400).json({ message: 'User is not a member of this space' });
+      }
+
+      const existingRole = await storage.getCollectionRole(collectionId, userId);
+      if (existingRole) {
+        return res.status(409).json({ message: 'User already has access to this collection' });
+      }
+
+      const invitation = await storage.createInvitation({
+        collectionId,
+        inviterId: req.user.id,
+        inviteeId: userId,
+        role
+      });
+
+      notifyInvitation(invitation);
+      return res.status(201).json({ ...invitation, invitee: toPublicUser(invitee) });
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to create invitation' });
+    }
+  });
+
+  app.patch('/api/collections/:id/members/:userId', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = parseInt(req.params.id);
+      const memberId = parseInt(req.params.userId);
+      if (isNaN(collectionId) || isNaN(memberId)) {
+        return res.status(400).json({ message: 'Invalid collection or user ID' });
+      }
+
+      const isOwner = await storage.checkCollectionPermission(collectionId, req.user.id, "owner");
+      if (!isOwner) {
+        return res.status(403).json({ message: 'Only owners can change member roles' });
+      }
+
+      const { role } = validateSchema<{ role: "owner" | "editor" | "viewer" }>(updateCollectionMemberSchema, req.body);
+
+      // Never leave a collection without an owner
+      if (memberId === req.user.id && role !== "owner") {
+        const members = await storage.getCollectionMembers(collectionId);
+        const owners = members.filter(member => member.role === "owner");
+        if (owners.length <= 1) {
+          return res.status(400).json({ message: 'A collection must keep at least one owner' });
+        }
+      }
+
+      const member = await storage.updateCollectionMemberRole(collectionId, memberId, role);
+      if (!member) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+
+      broadcastToCollection(collectionId, { type: "collection", action: "updated", collectionId });
+      return res.json(member);
+    } catch (error) {
+      console.error('Error updating collection member:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update member' });
+    }
+  });
+
+  app.delete('/api/collections/:id/members/:userId', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = parseInt(req.params.id);
+      const memberId = parseInt(req.params.userId);
+      if (isNaN(collectionId) || isNaN(memberId)) {
+        return res.status(400).json({ message: 'Invalid collection or user ID' });
+      }
+
+      // Owners can remove anyone; other members can only leave
+      const role = await storage.getCollectionRole(collectionId, req.user.id);
+      if (!role || (role !== "owner" && memberId !== req.user.id)) {
+        return res.status(403).json({ message: 'Not authorized to remove this member' });
+      }
+
+      const memberRole = await storage.getCollectionRole(collectionId, memberId);
+      if (!memberRole) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+
+      if (memberRole === "owner") {
+        const members = await storage.getCollectionMembers(collectionId);
+        const owners = members.filter(member => member.role === "owner");
+        if (owners.length <= 1) {
+          return res.status(400).json({ message: 'A collection must keep at least one owner' });
+        }
+      }
+
+      const success = await storage.removeCollectionMember(collectionId, memberId);
+      if (success) {
+        // The removed member no longer counts as a member, so tell them separately
+        broadcastToUsers([memberId], { type: "collection", action: "updated", collectionId });
+        broadcastToCollection(collectionId, { type: "collection", action: "updated", collectionId });
+        return res.status(204).end();
+      } else {
+        return res.status(500).json({ message: 'Failed to remove member' });
+      }
+    } catch (error) {
+      console.error('Error removing collection member:', error);
+      return res.status(500).json({ message: 'Failed to remove member' });
+    }
+  });
+
+  // Invitations API
+  app.get('/api/invitations', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const invitations = await storage.getPendingInvitations(req.user.id);
+
+      // Attach collection and inviter information for display
+      const invitationsWithDetails = await Promise.all(
+        invitations.map(async (invitation) => {
+          const collection = await storage.getCollection(invitation.collectionId);
+          const inviter = await storage.getUser(invitation.inviterId);
+          return {
+            ...invitation,
+            collection: collection ? { id: collection.id, name: collection.name, memoryDate: collection.memoryDate } : null,
+            inviter: toPublicUser(inviter)
+          };
+        })
+      );
+
+      return res.json(invitationsWithDetails);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      return res.status(500).json({ message: 'Failed to fetch invitations' });
+    }
+  });
+
+  app.post('/api/invitations/:id/:response(accept|decline)', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const invitationId = parseInt(req.params.id);
+      if (isNaN(invitationId)) {
+        return res.status(400).json({ message: 'Invalid invitation ID' });
+      }
+
+      const invitation = await storage.getInvitation(invitationId);
+      if (!invitation || invitation.inviteeId !== req.user.id) {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+
+      if (invitation.status !== "pending") {
+        return res.status(409).json({ message: 'Invitation has already been answered' });
+      }
+
+      const updatedInvitation = await storage.respondToInvitation(invitationId, req.params.response === 'accept');
+      if (!updatedInvitation) {
+        return res.status(409).json({ message: 'Invitation has already been answered' });
+      }
+
+      if (updatedInvitation.status === "accepted") {
+        notifyInvitationAccepted(updatedInvitation);
+        broadcastToCollection(invitation.collectionId, { type: "collection", action: "updated", collectionId: invitation.collectionId });
+      }
+
+      return res.json(updatedInvitation);
+    } catch (error) {
+      console.error('Error responding to invitation:', error);
+      return res.status(500).json({ message: 'Failed to respond to invitation' });
+    }
+  });
+
+  app.delete('/api/invitations/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const invitationId = parseInt(req.params.id);
+      if (isNaN(invitationId)) {
+        return res.status(400).json({ message: 'Invalid invitation ID' });
+      }
+
+      const invitation = await storage.getInvitation(invitationId);
+      if (!invitation) {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+
+      // Only owners of the collection can revoke invitations
+      const isOwner = await storage.checkCollectionPermission(invitation.collectionId, req.user.id, "owner");
+      if (!isOwner) {
+        return res.status(403).json({ message: 'Not authorized to revoke this invitation' });
+      }
+
+      const success = await storage.deleteInvitation(invitationId);
+      if (success) {
+        return res.status(204).end();
+      } else {
+        return res.status(500).json({ message: 'Failed to revoke invitation' });
+      }
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      return res.status(500).json({ message: 'Failed to revoke invitation' });
+    }
+  });
+
+  // Notifications API
+  app.get('/api/notifications', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const notifications = await storage.getNotifications(req.user.id);
+      const unreadCount = await storage.getUnreadNotificationCount(req.user.id);
+
+      // Attach what the client needs to describe and link each notification
+      const notificationsWithDetails = await Promise.all(
+        notifications.map(async (notification) => {
+          const collection = notification.collectionId ? await storage.getCollection(notification.collectionId) : undefined;
+          const photo = notification.photoId ? await storage.getPhoto(notification.photoId) : undefined;
+          return {
+            ...notification,
+            actor: notification.actorId ? toPublicUser(await storage.getUser(notification.actorId)) : null,
+            collection: collection ? { id: collection.id, name: collection.name } : null,
+            photo: photo ? { id: photo.id, title: photo.title } : null
+          };
+        })
+      );
+
+      return res.json({ notifications: notificationsWithDetails, unreadCount });
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      return res.status(500).json({ message: 'Failed to fetch notifications' });
+    }
+  });
+
+  // Mark all notifications as read
+  app.patch('/api/notifications', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const { read } = validateSchema<{ read: boolean }>(updateNotificationSchema, req.body);
+      if (!read) {
+        return res.status(400).json({ message: 'Notifications can only be marked as read in bulk' });
+      }
+
+      const updated = await storage.markAllNotificationsRead(req.user.id);
+      return res.json({ updated });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update notifications' });
+    }
+  });
+
+  app.patch('/api/notifications/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const notificationId = parseInt(req.params.id);
+      if (isNaN(notificationId)) {
+        return res.status(400).json({ message: 'Invalid notification ID' });
+      }
+
+      const { read } = validateSchema<{ read: boolean }>(updateNotificationSchema, req.body);
+
+      // Only matches the user's own notifications
+      const notification = await storage.markNotificationRead(notificationId, req.user.id, read);
+      if (!notification) {
+        return res.status(404).json({ message: 'Notification not found' });
+      }
+
+      return res.json(notification);
+    } catch (error) {
+      console.error('Error updating notification:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update notification' });
+    }
+  });
+
+  // Photos API
+  app.get('/api/photos', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const collectionId = req.query.collectionId ? parseInt(req.query.collectionId as string) : undefined;
+      console.log({collectionId})
+      const photos = await storage.getPhotos(req.user.id, collectionId);
+      
+      return res.json(photos);
+    } catch (error) {
+      console.error('Error fetching photos:', error);
+      return res.status(500).json({ message: 'Failed to fetch photos' });
+    }
+  });
+
+  app.post('/api/photos', requireAuth, upload.single('photo'), async (req: MulterRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      if (!req.file) {
         return res.status(400).json({ message: 'No file uploaded' });
       }
 
-      const file = req.file;
-      console.log(`Uploading photo for user ${req.user.username}: ${file.originalname} (${file.size} bytes)`);
-      
-      // Check if user owns the collection before creating the photo
-      const collectionId = parseInt(req.body.collectionId);
-      if (isNaN(collectionId)) {
-        return res.status(400).json({ message: 'Invalid collection ID' });
+      const file = req.file;
+      console.log(`Uploading photo for user ${req.user.username}: ${file.originalname} (${file.size} bytes)`);
+      
+      // Check if user can edit the collection before creating the photo
+      const collectionId = parseInt(req.body.collectionId);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+      
+      const hasAccess = await storage.checkCollectionPermission(collectionId, req.user.id, "editor");
+      if (!hasAccess) {
+        return res.status(403).json({ message: 'Not authorized to add photos to this collection' });
+      }
+      
+      const { fileName, fileType, filePath, metadata } = await saveUploadedMedia(file.buffer, file.originalname, getUploadType(file.originalname, file.mimetype));
+      console.log(`Photo saved to filesystem: ${filePath}`);
+      
+      const data = validateSchema(insertPhotoSchema, {
+        ...req.body,
+        ...metadata,
+        fileName: fileName,
+        fileType,
+        filePath: filePath,
+        collectionId: collectionId,
+        isLiked: req.body.isLiked === 'true'
+      });
+
+      const photo = await withDatabaseRetry(() => storage.createPhoto(data));
+      console.log(`Photo saved to database successfully: ${photo.id}`);
+      
+      broadcastPhotoEvent(photo, "created");
+      notifyPhotoAdded(photo, req.user.id);
+      const duplicate = await findDuplicateWarning(photo, req.user.id);
+      return res.status(201).json({ ...photo, duplicates: duplicate?.matches ?? [] });
+    } catch (error) {
+      console.error('Error creating photo:', error);
+      
+      // Provide more specific error messages
+      if (error instanceof Error) {
+        if (error.message.includes('ETIMEDOUT')) {
+          return res.status(503).json({ 
+            message: 'Database connection timeout. Please try again in a moment.',
+            code: 'DATABASE_TIMEOUT'
+          });
+        }
+        if (error.message.includes('ECONNRESET')) {
+          return res.status(503).json({ 
+            message: 'Database connection was reset. Please try again.',
+            code: 'CONNECTION_RESET'
+          });
+        }
+      }
+      
+      return res.status(400).json({ 
+        message: error instanceof Error ? error.message : 'Failed to create photo',
+        code: 'CREATION_FAILED'
+      });
+    }
+  });
+
+  // Chunked uploads: start one, send its parts (again, after an interruption),
+  // then complete it to turn the assembled file into a photo
+  app.post('/api/uploads', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const data = validateSchema<InitUploadRequest>(initUploadSchema, req.body);
+      data.fileType = getUploadType(data.fileName, data.fileType);
+      if (!ALLOWED_UPLOAD_TYPES.includes(data.fileType)) {
+        return res.status(400).json({ message: 'Only image and video files are allowed' });
+      }
+      if (isVideoType(data.fileType) ? data.size > MAX_VIDEO_UPLOAD_SIZE : data.size > MAX_UPLOAD_SIZE) {
+        const maxSize = isVideoType(data.fileType) ? MAX_VIDEO_UPLOAD_SIZE : MAX_UPLOAD_SIZE;
+        return res.status(413).json({ message: `${isVideoType(data.fileType) ? 'Videos' : 'Photos'} can be at most ${Math.round(maxSize / (1024 * 1024))} MB` });
+      }
+      if (data.livePhotoId && !isVideoType(data.fileType)) {
+        return res.status(400).json({ message: 'The motion of a Live Photo must be a video' });
+      }
+
+      const hasAccess = await storage.checkCollectionPermission(data.collectionId, req.user.id, "editor");
+      if (!hasAccess) {
+        return res.status(403).json({ message: 'Not authorized to add photos to this collection' });
+      }
+
+      const session = await createUploadSession(req.user.id, data);
+      return res.status(201).json(session);
+    } catch (error) {
+      console.error('Error starting upload:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to start upload' });
+    }
+  });
+
+  app.get('/api/uploads/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const session = await getUploadSession(req.params.id, req.user.id);
+      if (!session) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      return res.json(session);
+    } catch (error) {
+      console.error('Error fetching upload:', error);
+      return res.status(500).json({ message: 'Failed to fetch upload' });
+    }
+  });
+
+  // The part's bytes are the raw request body; they are streamed to disk, not buffered
+  app.put('/api/uploads/:id/chunks/:index', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const session = await getUploadSession(req.params.id, req.user.id);
+      if (!session) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const index = parseInt(req.params.index);
+      if (isNaN(index) || index < 0 || index >= session.totalChunks) {
+        return res.status(400).json({ message: 'Invalid chunk index' });
+      }
+
+      const declaredLength = parseInt(req.headers['content-length'] || '');
+      if (!isNaN(declaredLength) && declaredLength !== getChunkLength(session, index)) {
+        return res.status(400).json({ message: `Chunk ${index} must be ${getChunkLength(session, index)} bytes` });
+      }
+
+      const written = await writeUploadChunk(session, index, req);
+      if (!written) {
+        return res.status(400).json({ message: `Chunk ${index} was incomplete. Send it again.` });
+      }
+
+      return res.json(session);
+    } catch (error) {
+      console.error('Error receiving upload chunk:', error);
+      return res.status(500).json({ message: 'Failed to receive chunk' });
+    }
+  });
+
+  app.post('/api/uploads/:id/complete', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const session = await getUploadSession(req.params.id, req.user.id);
+      if (!session) {
+        return res.status(404).json({ message: 'Upload not found' });
       }
-      
-      const hasAccess = await storage.checkCollectionOwnership(collectionId, req.user.id);
+
+      if (!isUploadComplete(session)) {
+        return res.status(409).json({ message: `${session.totalChunks - session.receivedChunks.length} chunks are still missing` });
+      }
+
+      // Access may have changed while the parts were arriving
+      const hasAccess = await storage.checkCollectionPermission(session.collectionId, req.user.id, "editor");
       if (!hasAccess) {
         return res.status(403).json({ message: 'Not authorized to add photos to this collection' });
       }
-      
-      // Generate unique filename and save to filesystem
-      const fileName = generateFileName(file.originalname);
-      const filePath = await storage.savePhotoToFilesystem(file.buffer, fileName);
-      console.log(`Photo saved to filesystem: ${filePath}`);
-      
-      const data = validateSchema(insertPhotoSchema, {
-        ...req.body,
-        fileName: fileName,
-        fileType: file.mimetype,
-        filePath: filePath,
-        collectionId: collectionId,
-        isLiked: req.body.isLiked === 'true'
+
+      // The motion clip of a Live Photo is attached to its still instead of becoming a photo
+      if (session.livePhotoId) {
+        const still = await storage.getPhoto(session.livePhotoId);
+        if (!still || still.collectionId !== session.collectionId || still.mediaKind === "video") {
+          return res.status(400).json({ message: 'The still of this Live Photo is not in the collection' });
+        }
+
+        const { filePath, metadata } = await saveUploadedMedia(getUploadedFilePath(session), session.fileName, session.fileType, { poster: false });
+        if (still.motionPath) {
+          await storage.deletePhotoFromFilesystem(still.motionPath);
+        }
+        const livePhoto = await storage.updatePhoto(still.id, { mediaKind: "live", motionPath: filePath, duration: metadata.duration });
+        await discardUploadSession(session.id);
+
+        broadcastPhotoEvent(livePhoto, "updated");
+        return res.json(livePhoto);
+      }
+
+      const { fileName, fileType, filePath, metadata } = await saveUploadedMedia(getUploadedFilePath(session), session.fileName, session.fileType);
+
+      const data = validateSchema<InsertPhoto>(insertPhotoSchema, {
+        ...metadata,
+        title: session.title,
+        description: session.description,
+        fileName,
+        fileType,
+        filePath,
+        collectionId: session.collectionId,
+        isLiked: false,
       });
 
       const photo = await withDatabaseRetry(() => storage.createPhoto(data));
-      console.log(`Photo saved to database successfully: ${photo.id}`);
+      await discardUploadSession(session.id);
+      console.log(`Chunked upload ${session.id} saved as photo ${photo.id}`);
+
+      broadcastPhotoEvent(photo, "created");
+      notifyPhotoAdded(photo, req.user.id);
+      const duplicate = await findDuplicateWarning(photo, req.user.id);
+      return res.status(201).json({ ...photo, duplicates: duplicate?.matches ?? [] });
+    } catch (error) {
+      console.error('Error completing upload:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to complete upload' });
+    }
+  });
+
+  app.delete('/api/uploads/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const session = await getUploadSession(req.params.id, req.user.id);
+      if (!session) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      await discardUploadSession(session.id);
+      return res.status(204).end();
+    } catch (error) {
+      console.error('Error cancelling upload:', error);
+      return res.status(500).json({ message: 'Failed to cancel upload' });
+    }
+  });
+
+  // Serve an uploaded image at a given size (thumbnail, medium, large or original).
+  // Like /uploads this is public, so <img srcset> works without credentials.
+  app.get('/api/images/:fileName', async (req: Request, res: Response) => {
+    try {
+      const fileName = req.params.fileName;
+      if (fileName !== path.basename(fileName) || fileName.startsWith('.')) {
+        return res.status(400).json({ message: 'Invalid file name' });
+      }
+
+      const size = req.query.size ?? 'original';
+      if (!isImageSize(size)) {
+        return res.status(400).json({ message: 'Invalid image size' });
+      }
+
+      const acceptsWebp = (req.headers.accept || '').includes('image/webp');
+      const filePath = resolveImageVariant(path.join(process.cwd(), 'uploads'), fileName, size, acceptsWebp);
+      if (!filePath) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+
+      // The response depends on whether the browser accepts WebP
+      res.setHeader('Vary', 'Accept');
+      res.sendFile(filePath, { maxAge: '7d' });
+    } catch (error) {
+      console.error('Error serving image:', error);
+      res.status(500).json({ message: 'Failed to serve image' });
+    }
+  });
+
+  app.get('/api/photos/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
       
-      return res.status(201).json(photo);
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const photo = await storage.getPhoto(photoId);
+      if (!photo) {
+        return res.status(404).json({ message: 'Photo not found' });
+      }
+
+      // Check if user has access to the collection containing this photo
+      if (photo.collectionId) {
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
+        if (!hasAccess) {
+          return res.status(403).json({ message: 'Not authorized to access this photo' });
+        }
+      }
+
+      return res.json(photo);
     } catch (error) {
-      console.error('Error creating photo:', error);
+      console.error('Error fetching photo:', error);
+      return res.status(500).json({ message: 'Failed to fetch photo' });
+    }
+  });
+
+  app.put('/api/photos/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
       
-      // Provide more specific error messages
-      if (error instanceof Error) {
-        if (error.message.includes('ETIMEDOUT')) {
-          return res.status(503).json({ 
-            message: 'Database connection timeout. Please try again in a moment.',
-            code: 'DATABASE_TIMEOUT'
-          });
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const photo = await storage.getPhoto(photoId);
+      if (!photo) {
+        return res.status(404).json({ message: 'Photo not found' });
+      }
+
+      // Check if user can edit the collection containing this photo
+      if (photo.collectionId) {
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "editor");
+        if (!hasAccess) {
+          return res.status(403).json({ message: 'Not authorized to update this photo' });
         }
-        if (error.message.includes('ECONNRESET')) {
-          return res.status(503).json({ 
-            message: 'Database connection was reset. Please try again.',
-            code: 'CONNECTION_RESET'
-          });
+      }
+
+      const data = validateSchema<UpdatePhotoRequest>(updatePhotoSchema, req.body);
+      const updatedPhoto = await storage.updatePhoto(photoId, data);
+      broadcastPhotoEvent(updatedPhoto, "updated");
+      return res.json(updatedPhoto);
+    } catch (error) {
+      console.error('Error updating photo:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update photo' });
+    }
+  });
+
+  // Move photos into another memory
+  app.post('/api/photos/move', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const data = validateSchema<TransferPhotosRequest>(transferPhotosSchema, req.body);
+      const transfer = await preparePhotoTransfer(req.user.id, data, "editor");
+      if ('error' in transfer) {
+        return res.status(transfer.error.status).json({ message: transfer.error.message });
+      }
+
+      const { collection } = transfer;
+      const photosToMove = transfer.photos.filter(photo => photo.collectionId !== collection.id);
+      const movedPhotos = await storage.movePhotos(photosToMove.map(photo => photo.id), collection);
+
+      photosToMove.forEach(photo => broadcastPhotoEvent(photo, "deleted"));
+      movedPhotos.forEach(photo => {
+        broadcastPhotoEvent(photo, "created");
+        notifyPhotoAdded(photo, req.user!.id);
+      });
+      return res.json(movedPhotos);
+    } catch (error) {
+      console.error('Error moving photos:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to move photos' });
+    }
+  });
+
+  // Copy photos into another memory, leaving the originals where they are
+  app.post('/api/photos/copy', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const data = validateSchema<TransferPhotosRequest>(transferPhotosSchema, req.body);
+      const transfer = await preparePhotoTransfer(req.user.id, data, "viewer");
+      if ('error' in transfer) {
+        return res.status(transfer.error.status).json({ message: transfer.error.message });
+      }
+
+      const copiedPhotos: Photo[] = [];
+      for (const photo of transfer.photos) {
+        const copy = await storage.copyPhoto(photo, transfer.collection, generateFileName(photo.fileName));
+        copiedPhotos.push(copy);
+        broadcastPhotoEvent(copy, "created");
+        notifyPhotoAdded(copy, req.user.id);
+      }
+      return res.status(201).json(copiedPhotos);
+    } catch (error) {
+      console.error('Error copying photos:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to copy photos' });
+    }
+  });
+
+  // Batch actions on selected photos. Registered before the /api/photos/:id routes
+  // so "batch" isn't taken for a photo ID.
+  app.post('/api/photos/batch/delete', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const { photoIds } = validateSchema<BatchPhotosRequest>(batchPhotosSchema, req.body);
+      const batch = await loadPhotosForBatch(req.user.id, photoIds, "editor");
+      if ('error' in batch) {
+        return res.status(batch.error.status).json({ message: batch.error.message });
+      }
+
+      const deletedPhotos = await storage.deletePhotos(batch.photos.map(photo => photo.id));
+      deletedPhotos.forEach(photo => broadcastPhotoEvent(photo, "deleted"));
+      return res.json({ deleted: deletedPhotos.length });
+    } catch (error) {
+      console.error('Error deleting photos:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to delete photos' });
+    }
+  });
+
+  app.post('/api/photos/batch/like', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const { photoIds, liked } = validateSchema<BatchLikePhotosRequest>(batchLikePhotosSchema, req.body);
+      const batch = await loadPhotosForBatch(req.user.id, photoIds, "viewer");
+      if ('error' in batch) {
+        return res.status(batch.error.status).json({ message: batch.error.message });
+      }
+
+      // A like is the user's "heart" reaction
+      await storage.setPhotosReaction(batch.photos.map(photo => photo.id), req.user.id, "heart", liked);
+      batch.photos.forEach(photo => broadcastPhotoEvent(photo, "reacted"));
+      return res.json({ updated: batch.photos.length });
+    } catch (error) {
+      console.error('Error liking photos:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to like photos' });
+    }
+  });
+
+  app.post('/api/photos/batch/tags', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const { photoIds, tags } = validateSchema<BatchPhotosRequest & { tags: string[] }>(batchTagPhotosSchema, req.body);
+      const batch = await loadPhotosForBatch(req.user.id, photoIds, "editor");
+      if ('error' in batch) {
+        return res.status(batch.error.status).json({ message: batch.error.message });
+      }
+
+      await storage.addTagsToPhotos(batch.photos.map(photo => photo.id), tags);
+      batch.photos.forEach(photo => broadcastPhotoEvent(photo, "updated"));
+      return res.json({ updated: batch.photos.length });
+    } catch (error) {
+      console.error('Error tagging photos:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to tag photos' });
+    }
+  });
+
+  app.post('/api/photos/:id/like', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const photo = await storage.getPhoto(photoId);
+      if (!photo) {
+        return res.status(404).json({ message: 'Photo not found' });
+      }
+
+      // Check if user has access to the collection containing this photo
+      if (photo.collectionId) {
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
+        if (!hasAccess) {
+          return res.status(403).json({ message: 'Not authorized to like this photo' });
         }
       }
+
+      // A like is the current user's heart reaction
+      const liked = await storage.togglePhotoReaction(photoId, req.user.id, "heart");
+      broadcastPhotoEvent(photo, "reacted");
+      return res.json({ liked });
+    } catch (error) {
+      console.error('Error toggling like on photo:', error);
+      return res.status(500).json({ message: 'Failed to toggle like on photo' });
+    }
+  });
+
+  // Photo reaction routes
+  app.get('/api/photos/:id/reactions', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
       
-      return res.status(400).json({ 
-        message: error instanceof Error ? error.message : 'Failed to create photo',
-        code: 'CREATION_FAILED'
-      });
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const photo = await storage.getPhoto(photoId);
+      if (!photo) {
+        return res.status(404).json({ message: 'Photo not found' });
+      }
+
+      if (photo.collectionId) {
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
+        if (!hasAccess) {
+          return res.status(403).json({ message: 'Not authorized to view reactions on this photo' });
+        }
+      }
+
+      const reactions = await storage.getPhotoReactions(photoId);
+      const reactionsWithUsers = await Promise.all(
+        reactions.map(async (reaction) => ({
+          ...reaction,
+          user: toPublicUser(await storage.getUser(reaction.userId))
+        }))
+      );
+
+      return res.json(reactionsWithUsers);
+    } catch (error) {
+      console.error('Error fetching reactions:', error);
+      return res.status(500).json({ message: 'Failed to fetch reactions' });
     }
   });
 
-  app.get('/api/photos/:id', requireAuth, async (req: Request, res: Response) => {
+  app.post('/api/photos/:id/reactions', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
@@ -511,22 +1971,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Photo not found' });
       }
 
-      // Check if user owns the collection containing this photo
       if (photo.collectionId) {
-        const hasAccess = await storage.checkCollectionOwnership(photo.collectionId, req.user.id);
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
         if (!hasAccess) {
-          return res.status(403).json({ message: 'Not authorized to access this photo' });
+          return res.status(403).json({ message: 'Not authorized to react to this photo' });
         }
       }
 
-      return res.json(photo);
+      const { reaction } = validateSchema<{ reaction: PhotoReactionType }>(photoReactionSchema, req.body);
+      const photoReaction = await storage.addPhotoReaction(photoId, req.user.id, reaction);
+      broadcastPhotoEvent(photo, "reacted");
+      return res.status(201).json(photoReaction);
+    } catch (error) {
+      console.error('Error adding reaction:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to add reaction' });
+    }
+  });
+
+  app.delete('/api/photos/:id/reactions/:reaction', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const { reaction } = validateSchema<{ reaction: PhotoReactionType }>(photoReactionSchema, { reaction: req.params.reaction });
+
+      // Users can only remove their own reactions
+      const removed = await storage.removePhotoReaction(photoId, req.user.id, reaction);
+      if (!removed) {
+        return res.status(404).json({ message: 'Reaction not found' });
+      }
+
+      broadcastPhotoEvent(await storage.getPhoto(photoId), "reacted");
+      return res.status(204).end();
     } catch (error) {
-      console.error('Error fetching photo:', error);
-      return res.status(500).json({ message: 'Failed to fetch photo' });
+      console.error('Error removing reaction:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to remove reaction' });
     }
   });
 
-  app.put('/api/photos/:id', requireAuth, async (req: Request, res: Response) => {
+  app.get('/api/photos/:id/tags', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
@@ -542,24 +2031,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Photo not found' });
       }
 
-      // Check if user owns the collection containing this photo
       if (photo.collectionId) {
-        const hasAccess = await storage.checkCollectionOwnership(photo.collectionId, req.user.id);
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
         if (!hasAccess) {
-          return res.status(403).json({ message: 'Not authorized to update this photo' });
+          return res.status(403).json({ message: 'Not authorized to view tags on this photo' });
         }
       }
 
-      const data = validateSchema(insertPhotoSchema.partial(), req.body);
-      const updatedPhoto = await storage.updatePhoto(photoId, data);
-      return res.json(updatedPhoto);
+      const photoTags = await storage.getPhotoTags(photoId);
+      return res.json(photoTags);
     } catch (error) {
-      console.error('Error updating photo:', error);
-      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update photo' });
+      console.error('Error fetching photo tags:', error);
+      return res.status(500).json({ message: 'Failed to fetch photo tags' });
     }
   });
 
-  app.post('/api/photos/:id/like', requireAuth, async (req: Request, res: Response) => {
+  app.put('/api/photos/:id/tags', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'User not authenticated' });
@@ -575,19 +2062,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Photo not found' });
       }
 
-      // Check if user owns the collection containing this photo
-      if (photo.collectionId) {
-        const hasAccess = await storage.checkCollectionOwnership(photo.collectionId, req.user.id);
-        if (!hasAccess) {
-          return res.status(403).json({ message: 'Not authorized to like this photo' });
-        }
+      // Tags belong to the space of the photo's memory
+      const collection = photo.collectionId ? await storage.getCollection(photo.collectionId) : undefined;
+      if (!collection?.spaceId) {
+        return res.status(400).json({ message: 'Only photos in a memory can be tagged' });
       }
 
-      const updatedPhoto = await storage.toggleLikePhoto(photoId);
-      return res.json(updatedPhoto);
+      const canEdit = await storage.checkCollectionPermission(collection.id, req.user.id, "editor");
+      if (!canEdit) {
+        return res.status(403).json({ message: 'Not authorized to tag this photo' });
+      }
+
+      const { tags } = validateSchema<{ tags: string[] }>(updateTagsSchema, req.body);
+      const photoTags = await storage.setPhotoTags(photoId, collection.spaceId, tags);
+      broadcastPhotoEvent(photo, "updated");
+      return res.json(photoTags);
     } catch (error) {
-      console.error('Error toggling like on photo:', error);
-      return res.status(500).json({ message: 'Failed to toggle like on photo' });
+      console.error('Error updating photo tags:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update photo tags' });
     }
   });
 
@@ -607,9 +2099,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Photo not found' });
       }
 
-      // Check if user owns the collection containing this photo
+      // Check if user can edit the collection containing this photo
       if (photo.collectionId) {
-        const hasAccess = await storage.checkCollectionOwnership(photo.collectionId, req.user.id);
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "editor");
         if (!hasAccess) {
           return res.status(403).json({ message: 'Not authorized to delete this photo' });
         }
@@ -617,6 +2109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const success = await storage.deletePhoto(photoId);
       if (success) {
+        broadcastPhotoEvent(photo, "deleted");
         return res.status(204).end();
       } else {
         return res.status(500).json({ message: 'Failed to delete photo' });
@@ -647,24 +2140,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if user has access to the collection containing this photo
       if (photo.collectionId) {
-        const ownership = await storage.checkCollectionOwnership(photo.collectionId, req.user.id);
+        const ownership = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
         if (!ownership) {
           return res.status(403).json({ message: 'Not authorized to view comments for this photo' });
         }
       }
 
+      // Replies are returned flat alongside their parents; clients nest them by parentId
       const comments = await storage.getComments(photoId);
-      
-      // Get user information for each comment
-      const commentsWithUsers = await Promise.all(
-        comments.map(async (comment) => {
-          const user = comment.userId ? await storage.getUser(comment.userId) : null;
-          return {
-            ...comment,
-            user: user ? { id: user.id, username: user.username, displayName: user.displayName, profilePicture: user.profilePicture } : null
-          };
-        })
-      );
+      const commentsWithUsers = await Promise.all(comments.map(toCommentResponse));
       
       return res.json(commentsWithUsers);
     } catch (error) {
@@ -692,7 +2176,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if user has access to the collection containing this photo
       if (photo.collectionId) {
-        const ownership = await storage.checkCollectionOwnership(photo.collectionId, req.user.id);
+        const ownership = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
         if (!ownership) {
           return res.status(403).json({ message: 'Not authorized to comment on this photo' });
         }
@@ -710,15 +2194,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const comment = await withDatabaseRetry(() => storage.createComment(data));
-      
-      // Return comment with user information
-      const user = await storage.getUser(req.user.id);
-      const commentWithUser = {
-        ...comment,
-        user: user ? { id: user.id, username: user.username, displayName: user.displayName, profilePicture: user.profilePicture } : null
-      };
-      
-      return res.status(201).json(commentWithUser);
+      broadcastCommentEvent(photo, comment.id, "created");
+      notifyComment(photo, comment, req.user.id);
+      return res.status(201).json(await toCommentResponse(comment));
     } catch (error) {
       console.error('Error creating comment:', error);
       
@@ -744,6 +2222,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/photos/:id/comments/:commentId/replies', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const parentId = parseInt(req.params.commentId);
+      if (isNaN(parentId)) {
+        return res.status(400).json({ message: 'Invalid comment ID' });
+      }
+
+      const photo = await storage.getPhoto(photoId);
+      if (!photo) {
+        return res.status(404).json({ message: 'Photo not found' });
+      }
+
+      if (photo.collectionId) {
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "viewer");
+        if (!hasAccess) {
+          return res.status(403).json({ message: 'Not authorized to comment on this photo' });
+        }
+      }
+
+      const parent = await storage.getComment(parentId);
+      if (!parent || parent.photoId !== photoId) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+
+      if (parent.deletedAt) {
+        return res.status(400).json({ message: 'Cannot reply to a deleted comment' });
+      }
+
+      const { content } = req.body;
+      if (!content || content.trim().length === 0) {
+        return res.status(400).json({ message: 'Comment content is required' });
+      }
+
+      const data = validateSchema<InsertComment>(insertCommentSchema, {
+        content: content.trim(),
+        photoId,
+        userId: req.user.id,
+        parentId
+      });
+
+      const reply = await withDatabaseRetry(() => storage.createComment(data));
+      broadcastCommentEvent(photo, reply.id, "created");
+      notifyComment(photo, reply, req.user.id);
+      return res.status(201).json(await toCommentResponse(reply));
+    } catch (error) {
+      console.error('Error creating reply:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to create reply' });
+    }
+  });
+
   app.put('/api/comments/:id', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) {
@@ -764,6 +2301,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'Not authorized to update this comment' });
       }
 
+      if (comment.deletedAt) {
+        return res.status(400).json({ message: 'Deleted comments cannot be edited' });
+      }
+
       const { content } = req.body;
       if (!content || content.trim().length === 0) {
         return res.status(400).json({ message: 'Comment content is required' });
@@ -776,14 +2317,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Comment not found' });
       }
       
-      // Return comment with user information
-      const user = await storage.getUser(req.user.id);
-      const commentWithUser = {
-        ...updatedComment,
-        user: user ? { id: user.id, username: user.username, displayName: user.displayName, profilePicture: user.profilePicture } : null
-      };
-      
-      return res.json(commentWithUser);
+      broadcastCommentEvent(comment.photoId ? await storage.getPhoto(comment.photoId) : undefined, commentId, "updated");
+      return res.json(await toCommentResponse(updatedComment));
     } catch (error) {
       console.error('Error updating comment:', error);
       return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update comment' });
@@ -806,12 +2341,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Comment not found' });
       }
 
+      if (comment.deletedAt) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+
       if (comment.userId !== req.user.id) {
         return res.status(403).json({ message: 'Not authorized to delete this comment' });
       }
 
       const success = await storage.deleteComment(commentId);
       if (success) {
+        broadcastCommentEvent(comment.photoId ? await storage.getPhoto(comment.photoId) : undefined, commentId, "deleted");
         return res.status(204).end();
       } else {
         return res.status(500).json({ message: 'Failed to delete comment' });
@@ -822,7 +2362,371 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // On this day API
+  // Memories and photos from earlier years on today's day, or the week around it.
+  // Clients pass their own ?date=YYYY-MM-DD so "today" follows their timezone.
+  app.get('/api/memories/on-this-day', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const dateParam = typeof req.query.date === 'string' ? req.query.date : new Date().toISOString().slice(0, 10);
+      const date = new Date(`${dateParam}T00:00:00Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(dateParam) || isNaN(date.getTime())) {
+        return res.status(400).json({ message: 'Invalid date, expected YYYY-MM-DD' });
+      }
+
+      const includeWeek = req.query.includeWeek === 'true';
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const year = date.getUTCFullYear();
+      const monthDays = getMonthDaysAround(date, includeWeek ? 3 : 0);
+
+      const [collections, photos] = await Promise.all([
+        storage.getCollectionsOnDays(req.user.id, monthDays, year, spaceId),
+        storage.getPhotosTakenOnDays(req.user.id, monthDays, year, spaceId),
+      ]);
+
+      const response: OnThisDayResponse = {
+        date: dateParam,
+        includeWeek,
+        collections: collections.map(collection => ({
+          id: collection.id,
+          name: collection.name,
+          description: collection.description,
+          memoryDate: collection.memoryDate,
+          thumbnailUrl: collection.thumbnailUrl,
+          yearsAgo: year - parseInt(collection.memoryDate.slice(0, 4)),
+        })),
+        // Capture times are matched to the day in UTC, so the year is read in UTC too
+        photos: photos.flatMap(photo => photo.takenAt ? [{
+          id: photo.id,
+          title: photo.title,
+          filePath: photo.filePath,
+          collectionId: photo.collectionId!,
+          collectionName: photo.collectionName,
+          takenAt: photo.takenAt.toISOString(),
+          yearsAgo: year - photo.takenAt.getUTCFullYear(),
+        }] : []),
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error fetching on this day memories:', error);
+      return res.status(500).json({ message: 'Failed to fetch on this day memories' });
+    }
+  });
+
+  // Timeline API
+  // Pages through months that have memories, newest first. Each page holds a few
+  // months of memories with counts and preview photos; ?from=YYYY-MM jumps to a date.
+  app.get('/api/timeline', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+      if (from !== undefined && !isTimelineMonth(from)) {
+        return res.status(400).json({ message: 'Invalid month, expected YYYY-MM' });
+      }
+      const limit = req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 6, 1), 24) : 6;
+
+      const summary = await storage.getTimelineSummary(req.user.id, spaceId);
+      
+      // Start at the newest month on or before the requested one
+      const start = from ? summary.findIndex(entry => entry.month <= from) : 0;
+      const pageMonths = start === -1 ? [] : summary.slice(start, start + limit);
+      
+      const collections = pageMonths.length === 0 ? [] : await storage.getTimelineCollections(
+        req.user.id,
+        pageMonths[pageMonths.length - 1].month,
+        pageMonths[0].month,
+        spaceId
+      );
+
+      const page: TimelinePage = {
+        months: pageMonths.map(entry => ({
+          ...entry,
+          collections: collections.filter(collection => collection.memoryDate.startsWith(entry.month)),
+        })),
+        nextCursor: start === -1 ? null : summary[start + limit]?.month ?? null,
+        summary,
+      };
+      return res.json(page);
+    } catch (error) {
+      console.error('Error fetching timeline:', error);
+      return res.status(500).json({ message: 'Failed to fetch timeline' });
+    }
+  });
+
+  // Tags API
+  app.get('/api/tags', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const tags = await storage.getTags(req.user.id, spaceId);
+      return res.json(tags);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      return res.status(500).json({ message: 'Failed to fetch tags' });
+    }
+  });
+
+  // Search API
+  app.get('/api/search', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (query.length < 2) {
+        return res.status(400).json({ message: 'Search query must be at least 2 characters' });
+      }
+
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const limit = req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100) : 50;
+
+      const results = await storage.search(req.user.id, query, spaceId, limit);
+      return res.json(results);
+    } catch (error) {
+      console.error('Error searching:', error);
+      return res.status(500).json({ message: 'Failed to search' });
+    }
+  });
+
+  // Trash API
+  app.get('/api/trash', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const trash = await storage.getTrash(req.user.id, spaceId);
+
+      const response: TrashResponse = {
+        retentionDays: TRASH_RETENTION_DAYS,
+        collections: trash.collections.map(collection => ({
+          ...collection,
+          purgeAt: getPurgeDate(collection.deletedAt!).toISOString(),
+        })),
+        photos: trash.photos.map(photo => ({
+          ...photo,
+          purgeAt: getPurgeDate(photo.deletedAt!).toISOString(),
+        })),
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      return res.status(500).json({ message: 'Failed to fetch trash' });
+    }
+  });
+
+  app.post('/api/trash/collections/:id/restore', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const collection = await storage.getCollection(collectionId, true);
+      if (!collection || !collection.deletedAt) {
+        return res.status(404).json({ message: 'Collection not found in trash' });
+      }
+
+      const ownership = await storage.checkCollectionPermission(collectionId, req.user.id, "owner");
+      if (!ownership) {
+        return res.status(403).json({ message: 'Not authorized to restore this collection' });
+      }
+
+      const restored = await storage.restoreCollection(collectionId);
+      if (!restored) {
+        return res.status(404).json({ message: 'Collection not found in trash' });
+      }
+
+      broadcastToCollection(collectionId, { type: "collection", action: "created", collectionId });
+      return res.json(restored);
+    } catch (error) {
+      console.error('Error restoring collection:', error);
+      return res.status(500).json({ message: 'Failed to restore collection' });
+    }
+  });
+
+  app.delete('/api/trash/collections/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const collectionId = parseInt(req.params.id);
+      if (isNaN(collectionId)) {
+        return res.status(400).json({ message: 'Invalid collection ID' });
+      }
+
+      const collection = await storage.getCollection(collectionId, true);
+      if (!collection || !collection.deletedAt) {
+        return res.status(404).json({ message: 'Collection not found in trash' });
+      }
+
+      const ownership = await storage.checkCollectionPermission(collectionId, req.user.id, "owner");
+      if (!ownership) {
+        return res.status(403).json({ message: 'Not authorized to delete this collection' });
+      }
+
+      // Members are gone once the collection is, so look them up first
+      const members = await storage.getCollectionMembers(collectionId);
+      const success = await storage.purgeCollection(collectionId);
+      if (success) {
+        broadcastToUsers(members.map(member => member.userId), { type: "collection", action: "deleted", collectionId });
+        return res.status(204).end();
+      } else {
+        return res.status(500).json({ message: 'Failed to delete collection' });
+      }
+    } catch (error) {
+      console.error('Error permanently deleting collection:', error);
+      return res.status(500).json({ message: 'Failed to delete collection' });
+    }
+  });
+
+  app.post('/api/trash/photos/:id/restore', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const photo = await storage.getPhoto(photoId, true);
+      if (!photo || !photo.deletedAt) {
+        return res.status(404).json({ message: 'Photo not found in trash' });
+      }
+
+      if (photo.collectionId) {
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "editor");
+        if (!hasAccess) {
+          return res.status(403).json({ message: 'Not authorized to restore this photo' });
+        }
+
+        // A photo can only go back into a memory that still exists
+        const collection = await storage.getCollection(photo.collectionId);
+        if (!collection) {
+          return res.status(400).json({ message: 'Restore the memory this photo belongs to first' });
+        }
+      }
+
+      const restored = await storage.restorePhoto(photoId);
+      if (!restored) {
+        return res.status(404).json({ message: 'Photo not found in trash' });
+      }
+
+      broadcastPhotoEvent(restored, "created");
+      return res.json(restored);
+    } catch (error) {
+      console.error('Error restoring photo:', error);
+      return res.status(500).json({ message: 'Failed to restore photo' });
+    }
+  });
+
+  app.delete('/api/trash/photos/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const photoId = parseInt(req.params.id);
+      if (isNaN(photoId)) {
+        return res.status(400).json({ message: 'Invalid photo ID' });
+      }
+
+      const photo = await storage.getPhoto(photoId, true);
+      if (!photo || !photo.deletedAt) {
+        return res.status(404).json({ message: 'Photo not found in trash' });
+      }
+
+      if (photo.collectionId) {
+        const hasAccess = await storage.checkCollectionPermission(photo.collectionId, req.user.id, "editor");
+        if (!hasAccess) {
+          return res.status(403).json({ message: 'Not authorized to delete this photo' });
+        }
+      }
+
+      const success = await storage.purgePhoto(photoId);
+      if (success) {
+        broadcastPhotoEvent(photo, "deleted");
+        return res.status(204).end();
+      } else {
+        return res.status(500).json({ message: 'Failed to delete photo' });
+      }
+    } catch (error) {
+      console.error('Error permanently deleting photo:', error);
+      return res.status(500).json({ message: 'Failed to delete photo' });
+    }
+  });
+
+  // Sets of duplicate photos in the memories the user can edit
+  app.get('/api/duplicates', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const spaceId = req.query.spaceId ? parseInt(req.query.spaceId as string) : undefined;
+      const groups = await storage.getDuplicateGroups(req.user.id, spaceId);
+      return res.json(groups);
+    } catch (error) {
+      console.error('Error fetching duplicate photos:', error);
+      return res.status(500).json({ message: 'Failed to fetch duplicate photos' });
+    }
+  });
+
+  // Keep one of a set of duplicates; the rest move to the trash after handing over
+  // their comments, reactions and tags
+  app.post('/api/duplicates/merge', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const { keepPhotoId, photoIds } = validateSchema<MergeDuplicatesRequest>(mergeDuplicatesSchema, req.body);
+      const duplicateIds = photoIds.filter(photoId => photoId !== keepPhotoId);
+      if (duplicateIds.length === 0) {
+        return res.status(400).json({ message: 'Select the duplicates to merge' });
+      }
+
+      const batch = await loadPhotosForBatch(req.user.id, [keepPhotoId, ...duplicateIds], "editor");
+      if ('error' in batch) {
+        return res.status(batch.error.status).json({ message: batch.error.message });
+      }
+
+      const [keep, ...duplicates] = batch.photos;
+      const merged = await storage.mergePhotos(keep, duplicates);
+
+      duplicates.forEach(photo => broadcastPhotoEvent(photo, "deleted"));
+      broadcastPhotoEvent(merged, "updated");
+      return res.json(merged);
+    } catch (error) {
+      console.error('Error merging duplicate photos:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to merge photos' });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
+  startTrashPurge();
+  startUploadCleanup();
+  startAccountExportCleanup();
 
   return httpServer;
 }
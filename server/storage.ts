@@ -1,11 +1,17 @@
-import { users, collections, collectionOwners, photos, comments, type User, type InsertUser, type UpdateUser, type Collection, type InsertCollection, type CollectionOwner, type InsertCollectionOwner, type Photo, type InsertPhoto, type Comment, type InsertComment } from "@shared/schema";
+import { users, spaces, spaceMembers, spaceInvites, collections, collectionOwners, collectionInvitations, photos, photoReactions, comments, notifications, tags, photoTags, collectionTags, hasCollectionRole, type User, type InsertUser, type UpdateUser, type Space, type InsertSpace, type SpaceMember, type SpaceInvite, type InsertSpaceInvite, type Collection, type InsertCollection, type CollectionOwner, type InsertCollectionOwner, type CollectionRole, type CollectionInvitation, type InsertCollectionInvitation, type Photo, type InsertPhoto, type PhotoReaction, type PhotoReactionType, type Comment, type InsertComment, type Notification, type InsertNotification, type NotificationType, type Tag, type TagWithUsage, type PhotoOrder } from "@shared/schema";
 import { format } from "date-fns";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, ne, and, asc, desc, gt, gte, lt, lte, isNull, isNotNull, inArray, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import fs from "fs";
 import path from "path";
 import { config } from "dotenv";
+import { generateImageVariants, getVariantPaths, isVideoFileName, getPosterFileName } from "./imageVariants";
+import { HIGHLIGHT_START, HIGHLIGHT_END, type SearchResult } from "@shared/search";
+import type { TimelineCollection, TimelineMonthSummary } from "@shared/timeline";
+import type { FocusPoint } from "@shared/images";
+import { NEAR_DUPLICATE_DISTANCE, getHashDistance, getHashBuckets, type DuplicateMatch, type DuplicateGroup } from "@shared/duplicates";
+import type { AccountArchive } from "@shared/accountExport";
 
 // Load environment variables from .env file
 config();
@@ -17,23 +23,73 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: UpdateUser): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  getUsersSharingSpaces(userId: number): Promise<User[]>;
+  
+  // Space operations
+  getSpaces(userId: number): Promise<Space[]>;
+  getSpace(id: number): Promise<Space | undefined>;
+  createSpace(space: InsertSpace): Promise<Space>;
+  getSpaceMembers(spaceId: number): Promise<SpaceMember[]>;
+  isSpaceMember(spaceId: number, userId: number): Promise<boolean>;
+  removeSpaceMember(spaceId: number, userId: number): Promise<boolean>;
+  getSpaceInviteByCode(code: string): Promise<SpaceInvite | undefined>;
+  createSpaceInvite(invite: InsertSpaceInvite): Promise<SpaceInvite>;
+  redeemSpaceInvite(code: string, userId: number): Promise<Space | undefined>;
   
   // Collection operations
-  getCollections(userId: number): Promise<Collection[]>;
-  getCollectionsWithThumbnails(userId: number): Promise<(Collection & { thumbnailUrl?: string })[]>;
-  getCollection(id: number): Promise<Collection | undefined>;
+  getCollections(userId: number, spaceId?: number): Promise<Collection[]>;
+  getCollectionsWithThumbnails(userId: number, spaceId?: number, range?: { from: string; to: string }): Promise<(Collection & { thumbnailUrl?: string; thumbnailFocus?: FocusPoint; tags: string[] })[]>;
+  getCollection(id: number, includeDeleted?: boolean): Promise<Collection | undefined>;
   createCollection(collection: InsertCollection): Promise<Collection>;
   updateCollection(id: number, collection: Partial<InsertCollection>): Promise<Collection | undefined>;
+  moveCollectionToSpace(id: number, spaceId: number): Promise<Collection | undefined>;
   deleteCollection(id: number): Promise<boolean>;
-  checkCollectionOwnership(collectionId: number, userId: number): Promise<boolean>;
+  restoreCollection(id: number): Promise<Collection | undefined>;
+  setCollectionCover(id: number, photoId: number | null, focus?: FocusPoint): Promise<Collection | undefined>;
+  purgeCollection(id: number): Promise<boolean>;
+  getCollectionRole(collectionId: number, userId: number): Promise<CollectionRole | undefined>;
+  checkCollectionPermission(collectionId: number, userId: number, requiredRole?: CollectionRole): Promise<boolean>;
+  
+  // Collection sharing operations
+  getCollectionMembers(collectionId: number): Promise<CollectionOwner[]>;
+  updateCollectionMemberRole(collectionId: number, userId: number, role: CollectionRole): Promise<CollectionOwner | undefined>;
+  removeCollectionMember(collectionId: number, userId: number): Promise<boolean>;
+  getCollectionInvitations(collectionId: number): Promise<CollectionInvitation[]>;
+  getPendingInvitations(userId: number): Promise<CollectionInvitation[]>;
+  getInvitation(id: number): Promise<CollectionInvitation | undefined>;
+  createInvitation(invitation: InsertCollectionInvitation): Promise<CollectionInvitation>;
+  respondToInvitation(id: number, accept: boolean): Promise<CollectionInvitation | undefined>;
+  deleteInvitation(id: number): Promise<boolean>;
   
   // Photo operations
   getPhotos(userId: number, collectionId?: number): Promise<Photo[]>;
-  getPhoto(id: number): Promise<Photo | undefined>;
+  getPhoto(id: number, includeDeleted?: boolean): Promise<Photo | undefined>;
   createPhoto(photo: InsertPhoto): Promise<Photo>;
   updatePhoto(id: number, photo: Partial<InsertPhoto>): Promise<Photo | undefined>;
   deletePhoto(id: number): Promise<boolean>;
-  toggleLikePhoto(id: number): Promise<Photo | undefined>;
+  restorePhoto(id: number): Promise<Photo | undefined>;
+  purgePhoto(id: number): Promise<boolean>;
+  deletePhotos(photoIds: number[]): Promise<Photo[]>;
+  movePhotos(photoIds: number[], collection: Collection): Promise<Photo[]>;
+  copyPhoto(photo: Photo, collection: Collection, fileName: string): Promise<Photo>;
+  reorderPhotos(collectionId: number, photoIds: number[]): Promise<Photo[]>;
+  
+  // Trash operations
+  getTrash(userId: number, spaceId?: number): Promise<{ collections: (Collection & { thumbnailUrl: string | null; photoCount: number })[]; photos: (Photo & { collectionName: string })[] }>;
+  purgeExpiredTrash(before: Date): Promise<{ collections: number; photos: number }>;
+  
+  // Duplicate operations
+  findDuplicatePhotos(photo: Photo, userId: number): Promise<DuplicateMatch[]>;
+  getDuplicateGroups(userId: number, spaceId?: number): Promise<DuplicateGroup[]>;
+  mergePhotos(keep: Photo, duplicates: Photo[]): Promise<Photo>;
+  getPhotosWithoutHashes(): Promise<Photo[]>;
+  
+  // Photo reaction operations
+  getPhotoReactions(photoId: number): Promise<PhotoReaction[]>;
+  addPhotoReaction(photoId: number, userId: number, reaction: PhotoReactionType): Promise<PhotoReaction>;
+  removePhotoReaction(photoId: number, userId: number, reaction: PhotoReactionType): Promise<boolean>;
+  togglePhotoReaction(photoId: number, userId: number, reaction: PhotoReactionType): Promise<boolean>;
+  setPhotosReaction(photoIds: number[], userId: number, reaction: PhotoReactionType, present: boolean): Promise<void>;
   
   // Comment operations for photo-level comments
   getComments(photoId: number): Promise<Comment[]>;
@@ -42,9 +98,42 @@ export interface IStorage {
   updateComment(id: number, comment: Partial<InsertComment>): Promise<Comment | undefined>;
   deleteComment(id: number): Promise<boolean>;
   
+  // Notification operations
+  getNotifications(userId: number, limit?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  findUnreadNotification(userId: number, type: NotificationType, collectionId: number, actorId: number, since: Date): Promise<Notification | undefined>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  incrementNotificationCount(id: number): Promise<Notification | undefined>;
+  markNotificationRead(id: number, userId: number, read: boolean): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  
+  // Tag operations
+  getTags(userId: number, spaceId?: number): Promise<TagWithUsage[]>;
+  getPhotoTags(photoId: number): Promise<Tag[]>;
+  getCollectionTags(collectionId: number): Promise<Tag[]>;
+  setPhotoTags(photoId: number, spaceId: number, names: string[]): Promise<Tag[]>;
+  setCollectionTags(collectionId: number, spaceId: number, names: string[]): Promise<Tag[]>;
+  addTagsToPhotos(photoIds: number[], names: string[]): Promise<void>;
+  
+  // Timeline operations
+  getTimelineSummary(userId: number, spaceId?: number): Promise<TimelineMonthSummary[]>;
+  getTimelineCollections(userId: number, fromMonth: string, toMonth: string, spaceId?: number, previewCount?: number): Promise<TimelineCollection[]>;
+  
+  // On this day operations
+  getCollectionsOnDays(userId: number, monthDays: string[], beforeYear: number, spaceId?: number): Promise<(Collection & { thumbnailUrl: string | null })[]>;
+  getPhotosTakenOnDays(userId: number, monthDays: string[], beforeYear: number, spaceId?: number, limit?: number): Promise<(Photo & { collectionName: string })[]>;
+  
+  // Search operations
+  search(userId: number, query: string, spaceId?: number, limit?: number): Promise<SearchResult[]>;
+  
+  // Account import operations
+  importAccount(archive: AccountArchive, userIds: Map<number, number>, filePaths: Map<string, string>): Promise<{ spaces: number; collections: number; photos: number; comments: number }>;
+  
   // Filesystem operations
   savePhotoToFilesystem(file: Buffer, fileName: string): Promise<string>;
+  saveVideoToFilesystem(source: Buffer | string, fileName: string): Promise<string>;
   deletePhotoFromFilesystem(filePath: string): Promise<void>;
+  copyPhotoOnFilesystem(filePath: string, fileName: string): Promise<string>;
 }
 
 // Database connection
@@ -69,6 +158,7 @@ const client = postgres(connectionString, {
 });
 
 const db = drizzle(client);
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 // Add database health check
 export async function checkDatabaseHealth(): Promise<boolean> {
@@ -114,6 +204,14 @@ export class DbStorage implements IStorage {
     try {
       const filePath = path.join(this.uploadsDir, fileName);
       await fs.promises.writeFile(filePath, file);
+
+      // Resized variants are an optimisation; the original is still served if they fail
+      try {
+        await generateImageVariants(file, fileName, this.uploadsDir);
+      } catch (error) {
+        console.error("Error generating image variants:", error);
+      }
+
       return `/uploads/${fileName}`;
     } catch (error) {
       console.error("Error saving photo to filesystem:", error);
@@ -121,10 +219,29 @@ export class DbStorage implements IStorage {
     }
   }
 
+  // Saves a video clip, moving it into place when it is already a file on disk
+  async saveVideoToFilesystem(source: Buffer | string, fileName: string): Promise<string> {
+    try {
+      const filePath = path.join(this.uploadsDir, fileName);
+      if (typeof source === "string") {
+        await fs.promises.copyFile(source, filePath);
+        await fs.promises.rm(source, { force: true });
+      } else {
+        await fs.promises.writeFile(filePath, source);
+      }
+
+      return `/uploads/${fileName}`;
+    } catch (error) {
+      console.error("Error saving video to filesystem:", error);
+      throw new Error("Failed to save video");
+    }
+  }
+
   async deletePhotoFromFilesystem(filePath: string): Promise<void> {
     try {
-      // Extract filename from path like "/uploads/filename.jpg"
-      const fileName = filePath.replace('/uploads/', '');
+      // Extract filename from path like "/uploads/filename.jpg"; only the name is kept,
+      // so a path that climbs out of uploads can't reach anything else on disk
+      const fileName = path.basename(filePath);
       const fullPath = path.join(this.uploadsDir, fileName);
       
       if (fs.existsSync(fullPath)) {
@@ -136,12 +253,50 @@ export class DbStorage implements IStorage {
       if (fs.existsSync(metadataPath)) {
         await fs.promises.unlink(metadataPath);
       }
+
+      // And the resized variants
+      for (const variantPath of getVariantPaths(this.uploadsDir, fileName)) {
+        if (fs.existsSync(variantPath)) {
+          await fs.promises.unlink(variantPath);
+        }
+      }
+
+      // A video's poster frame has variants of its own
+      if (isVideoFileName(fileName)) {
+        await this.deletePhotoFromFilesystem(`/uploads/${getPosterFileName(fileName)}`);
+      }
     } catch (error) {
       console.error("Error deleting photo from filesystem:", error);
       // Don't throw here as we still want to delete from database
     }
   }
   
+  async copyPhotoOnFilesystem(filePath: string, fileName: string): Promise<string> {
+    try {
+      const sourceName = path.basename(filePath);
+      await fs.promises.copyFile(path.join(this.uploadsDir, sourceName), path.join(this.uploadsDir, fileName));
+
+      // Copy the resized variants too rather than generating them again
+      const sourceVariants = getVariantPaths(this.uploadsDir, sourceName);
+      const targetVariants = getVariantPaths(this.uploadsDir, fileName);
+      for (let i = 0; i < sourceVariants.length; i++) {
+        if (fs.existsSync(sourceVariants[i])) {
+          await fs.promises.copyFile(sourceVariants[i], targetVariants[i]);
+        }
+      }
+
+      const sourcePoster = getPosterFileName(sourceName);
+      if (isVideoFileName(sourceName) && fs.existsSync(path.join(this.uploadsDir, sourcePoster))) {
+        await this.copyPhotoOnFilesystem(`/uploads/${sourcePoster}`, getPosterFileName(fileName));
+      }
+
+      return `/uploads/${fileName}`;
+    } catch (error) {
+      console.error("Error copying photo on filesystem:", error);
+      throw new Error("Failed to copy photo");
+    }
+  }
+  
   private async createMetadataFile(fileName: string, metadata: any): Promise<void> {
     try {
       const metadataPath = path.join(this.uploadsDir, `${fileName}.metadata.json`);
@@ -182,6 +337,20 @@ export class DbStorage implements IStorage {
         });
       }
       
+      // Make sure the seeded users share a space
+      const seededUsers = [
+        await this.getUserByUsername("karold"),
+        await this.getUserByUsername("androso")
+      ].filter((user): user is User => !!user);
+      
+      if (seededUsers.length > 0 && (await this.getSpaces(seededUsers[0].id)).length === 0) {
+        console.log("Creating shared space for seeded users");
+        const space = await this.createSpace({ name: "Our Memories", createdBy: seededUsers[0].id });
+        for (const user of seededUsers.slice(1)) {
+          await db.insert(spaceMembers).values({ spaceId: space.id, userId: user.id }).onConflictDoNothing();
+        }
+      }
+      
       console.log("User initialization complete");
     } catch (error) {
       console.error("Error initializing users:", error);
@@ -216,8 +385,137 @@ export class DbStorage implements IStorage {
     return await db.select().from(users);
   }
   
+  async getUsersSharingSpaces(userId: number): Promise<User[]> {
+    const userSpaces = await this.getSpaces(userId);
+    if (userSpaces.length === 0) {
+      return [];
+    }
+    
+    return await db
+      .selectDistinct({
+        id: users.id,
+        username: users.username,
+        password: users.password,
+        displayName: users.displayName,
+        profilePicture: users.profilePicture,
+        createdAt: users.createdAt,
+        updatedAt: users.updatedAt,
+      })
+      .from(users)
+      .innerJoin(spaceMembers, eq(users.id, spaceMembers.userId))
+      .where(inArray(spaceMembers.spaceId, userSpaces.map(space => space.id)));
+  }
+  
+  // Space operations
+  async getSpaces(userId: number): Promise<Space[]> {
+    return await db
+      .select({
+        id: spaces.id,
+        name: spaces.name,
+        createdBy: spaces.createdBy,
+        createdAt: spaces.createdAt,
+      })
+      .from(spaces)
+      .innerJoin(spaceMembers, eq(spaces.id, spaceMembers.spaceId))
+      .where(eq(spaceMembers.userId, userId))
+      .orderBy(spaces.createdAt);
+  }
+  
+  async getSpace(id: number): Promise<Space | undefined> {
+    const result = await db.select().from(spaces).where(eq(spaces.id, id));
+    return result[0];
+  }
+  
+  async createSpace(insertSpace: InsertSpace): Promise<Space> {
+    const result = await db.insert(spaces).values({
+      ...insertSpace,
+      createdAt: new Date()
+    }).returning();
+    
+    const space = result[0];
+    
+    // The creator is the first member of the space
+    if (space.createdBy) {
+      await db.insert(spaceMembers).values({
+        spaceId: space.id,
+        userId: space.createdBy,
+        createdAt: new Date()
+      });
+    }
+    
+    return space;
+  }
+  
+  async getSpaceMembers(spaceId: number): Promise<SpaceMember[]> {
+    return await db.select().from(spaceMembers)
+      .where(eq(spaceMembers.spaceId, spaceId))
+      .orderBy(spaceMembers.createdAt);
+  }
+  
+  async isSpaceMember(spaceId: number, userId: number): Promise<boolean> {
+    const membership = await db
+      .select()
+      .from(spaceMembers)
+      .where(and(
+        eq(spaceMembers.spaceId, spaceId),
+        eq(spaceMembers.userId, userId)
+      ))
+      .limit(1);
+    
+    return membership.length > 0;
+  }
+  
+  async removeSpaceMember(spaceId: number, userId: number): Promise<boolean> {
+    const result = await db.delete(spaceMembers)
+      .where(and(
+        eq(spaceMembers.spaceId, spaceId),
+        eq(spaceMembers.userId, userId)
+      ))
+      .returning();
+    return result.length > 0;
+  }
+  
+  async getSpaceInviteByCode(code: string): Promise<SpaceInvite | undefined> {
+    const result = await db.select().from(spaceInvites).where(eq(spaceInvites.code, code));
+    return result[0];
+  }
+  
+  async createSpaceInvite(invite: InsertSpaceInvite): Promise<SpaceInvite> {
+    const result = await db.insert(spaceInvites).values({
+      ...invite,
+      createdAt: new Date()
+    }).returning();
+    return result[0];
+  }
+  
+  async redeemSpaceInvite(code: string, userId: number): Promise<Space | undefined> {
+    return await db.transaction(async (tx) => {
+      // Claim the code only if it is unused and not expired, so it works exactly once
+      const result = await tx.update(spaceInvites)
+        .set({ usedBy: userId, usedAt: new Date() })
+        .where(and(
+          eq(spaceInvites.code, code),
+          isNull(spaceInvites.usedAt),
+          gt(spaceInvites.expiresAt, new Date())
+        ))
+        .returning();
+      
+      const invite = result[0];
+      if (!invite) {
+        return undefined;
+      }
+      
+      await tx.insert(spaceMembers)
+        .values({ spaceId: invite.spaceId, userId, createdAt: new Date() })
+        .onConflictDoNothing();
+      
+      const space = await tx.select().from(spaces).where(eq(spaces.id, invite.spaceId));
+      return space[0];
+    });
+  }
+  
   // Collection operations
-  async getCollections(userId: number): Promise<Collection[]> {
+  async getCollections(userId: number, spaceId?: number): Promise<Collection[]> {
     // Get collections where the user is an owner
     const result = await db
       .select({
@@ -226,17 +524,29 @@ export class DbStorage implements IStorage {
         description: collections.description,
         type: collections.type,
         userId: collections.userId,
+        spaceId: collections.spaceId,
+        memoryDate: collections.memoryDate,
         createdAt: collections.createdAt,
+        coverPhotoId: collections.coverPhotoId,
+        coverFocusX: collections.coverFocusX,
+        coverFocusY: collections.coverFocusY,
+        photoOrder: collections.photoOrder,
+        deletedAt: collections.deletedAt,
       })
       .from(collections)
       .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
-      .where(eq(collectionOwners.userId, userId))
-      .orderBy(desc(collections.createdAt));
+      .where(and(
+        eq(collectionOwners.userId, userId),
+        isNull(collections.deletedAt),
+        spaceId ? eq(collections.spaceId, spaceId) : undefined
+      ))
+      .orderBy(desc(collections.memoryDate), desc(collections.createdAt));
     
     return result;
   }
   
-  async getCollectionsWithThumbnails(userId: number): Promise<(Collection & { thumbnailUrl?: string })[]> {
+  // range limits results to memories between two days (YYYY-MM-DD, inclusive)
+  async getCollectionsWithThumbnails(userId: number, spaceId?: number, range?: { from: string; to: string }): Promise<(Collection & { thumbnailUrl?: string; thumbnailFocus?: FocusPoint; tags: string[] })[]> {
     // Get collections where the user is an owner
     const userCollections = await db
       .select({
@@ -245,34 +555,92 @@ export class DbStorage implements IStorage {
         description: collections.description,
         type: collections.type,
         userId: collections.userId,
+        spaceId: collections.spaceId,
+        memoryDate: collections.memoryDate,
         createdAt: collections.createdAt,
+        coverPhotoId: collections.coverPhotoId,
+        coverFocusX: collections.coverFocusX,
+        coverFocusY: collections.coverFocusY,
+        photoOrder: collections.photoOrder,
+        deletedAt: collections.deletedAt,
       })
       .from(collections)
       .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
-      .where(eq(collectionOwners.userId, userId))
-      .orderBy(desc(collections.createdAt));
+      .where(and(
+        eq(collectionOwners.userId, userId),
+        isNull(collections.deletedAt),
+        spaceId ? eq(collections.spaceId, spaceId) : undefined,
+        range ? gte(collections.memoryDate, range.from) : undefined,
+        range ? lte(collections.memoryDate, range.to) : undefined
+      ))
+      .orderBy(desc(collections.memoryDate), desc(collections.createdAt));
     
-    // For each collection, get the first photo if any
+    // For each collection, use the chosen cover if it's still there, otherwise the latest photo
     const collectionsWithThumbnails = await Promise.all(
       userCollections.map(async (collection) => {
+        const coverPhoto = collection.coverPhotoId
+          ? await db.select()
+            .from(photos)
+            .where(and(
+              eq(photos.id, collection.coverPhotoId),
+              eq(photos.collectionId, collection.id),
+              isNull(photos.deletedAt)
+            ))
+          : [];
+        
+        if (coverPhoto.length > 0) {
+          const hasFocus = collection.coverFocusX !== null && collection.coverFocusY !== null;
+          return {
+            ...collection,
+            thumbnailUrl: coverPhoto[0].filePath,
+            thumbnailFocus: hasFocus ? { x: collection.coverFocusX!, y: collection.coverFocusY! } : undefined
+          };
+        }
+        
         const firstPhoto = await db.select()
           .from(photos)
-          .where(eq(photos.collectionId, collection.id))
+          .where(and(eq(photos.collectionId, collection.id), isNull(photos.deletedAt)))
           .orderBy(desc(photos.uploadedAt))
           .limit(1);
         
         return {
           ...collection,
-          thumbnailUrl: firstPhoto.length > 0 ? firstPhoto[0].filePath : undefined
+          thumbnailUrl: firstPhoto.length > 0 ? firstPhoto[0].filePath : undefined,
+          thumbnailFocus: undefined
         };
       })
     );
     
-    return collectionsWithThumbnails;
+    // Tags on the memory itself or on any of its photos, for filtering the gallery
+    const collectionIds = userCollections.map(collection => collection.id);
+    const [ownTags, photoTagRows] = collectionIds.length === 0 ? [[], []] : await Promise.all([
+      db.select({ collectionId: collectionTags.collectionId, name: tags.name })
+        .from(collectionTags)
+        .innerJoin(tags, eq(collectionTags.tagId, tags.id))
+        .where(inArray(collectionTags.collectionId, collectionIds)),
+      db.select({ collectionId: photos.collectionId, name: tags.name })
+        .from(photoTags)
+        .innerJoin(tags, eq(photoTags.tagId, tags.id))
+        .innerJoin(photos, eq(photoTags.photoId, photos.id))
+        .where(and(inArray(photos.collectionId, collectionIds), isNull(photos.deletedAt))),
+    ]);
+    const tagRows = [...ownTags, ...photoTagRows];
+    
+    return collectionsWithThumbnails.map(collection => ({
+      ...collection,
+      tags: Array.from(new Set(tagRows
+        .filter(row => row.collectionId === collection.id)
+        .map(row => row.name)
+      )).sort()
+    }));
   }
   
-  async getCollection(id: number): Promise<Collection | undefined> {
-    const result = await db.select().from(collections).where(eq(collections.id, id));
+  // Memories in the trash are hidden unless includeDeleted is set
+  async getCollection(id: number, includeDeleted = false): Promise<Collection | undefined> {
+    const result = await db.select().from(collections).where(and(
+      eq(collections.id, id),
+      includeDeleted ? undefined : isNull(collections.deletedAt)
+    ));
     return result[0];
   }
   
@@ -284,17 +652,15 @@ export class DbStorage implements IStorage {
     
     const collection = result[0];
     
-    // Add both users as owners of the collection
-    const allUsers = await this.getAllUsers();
-    const ownershipPromises = allUsers.map(user => 
-      db.insert(collectionOwners).values({
+    // The creator is the only owner; other users get access through invitations
+    if (collection.userId) {
+      await db.insert(collectionOwners).values({
         collectionId: collection.id,
-        userId: user.id,
+        userId: collection.userId,
+        role: "owner",
         createdAt: new Date()
-      })
-    );
-    
-    await Promise.all(ownershipPromises);
+      });
+    }
     
     return collection;
   }
@@ -307,7 +673,88 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
+  // Moves a memory and its photos, trashed ones included, to another space. Tags belong
+  // to a space, so they are swapped for the destination's tags with the same names.
+  async moveCollectionToSpace(id: number, spaceId: number): Promise<Collection | undefined> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(collections)
+        .set({ spaceId })
+        .where(eq(collections.id, id))
+        .returning();
+      if (!result[0]) return undefined;
+      
+      const foreignCollectionTags = await tx.select({ tagId: tags.id, name: tags.name })
+        .from(collectionTags)
+        .innerJoin(tags, eq(collectionTags.tagId, tags.id))
+        .where(and(eq(collectionTags.collectionId, id), ne(tags.spaceId, spaceId)));
+      
+      if (foreignCollectionTags.length > 0) {
+        const destinationTags = await this.findOrCreateTags(tx, spaceId, foreignCollectionTags.map(row => row.name));
+        await tx.delete(collectionTags).where(and(
+          eq(collectionTags.collectionId, id),
+          inArray(collectionTags.tagId, foreignCollectionTags.map(row => row.tagId))
+        ));
+        await tx.insert(collectionTags)
+          .values(destinationTags.map(tag => ({ collectionId: id, tagId: tag.id })))
+          .onConflictDoNothing();
+      }
+      
+      const collectionPhotoIds = tx.select({ id: photos.id }).from(photos).where(eq(photos.collectionId, id));
+      const foreignPhotoTags = await tx.select({ photoId: photoTags.photoId, tagId: tags.id, name: tags.name })
+        .from(photoTags)
+        .innerJoin(tags, eq(photoTags.tagId, tags.id))
+        .where(and(inArray(photoTags.photoId, collectionPhotoIds), ne(tags.spaceId, spaceId)));
+      
+      if (foreignPhotoTags.length > 0) {
+        const destinationTags = await this.findOrCreateTags(tx, spaceId, foreignPhotoTags.map(row => row.name));
+        await tx.delete(photoTags).where(and(
+          inArray(photoTags.photoId, collectionPhotoIds),
+          inArray(photoTags.tagId, foreignPhotoTags.map(row => row.tagId))
+        ));
+        await tx.insert(photoTags)
+          .values(foreignPhotoTags.map(row => ({
+            photoId: row.photoId,
+            tagId: destinationTags.find(tag => tag.name === row.name)!.id,
+          })))
+          .onConflictDoNothing();
+      }
+      
+      return result[0];
+    });
+  }
+  
+  // Moves the memory to the trash; its photos go with it and come back on restore
   async deleteCollection(id: number): Promise<boolean> {
+    const result = await db.update(collections)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(collections.id, id), isNull(collections.deletedAt)))
+      .returning();
+    return result.length > 0;
+  }
+  
+  // A new cover starts centred unless a focus point is given
+  async setCollectionCover(id: number, photoId: number | null, focus?: FocusPoint): Promise<Collection | undefined> {
+    const result = await db.update(collections)
+      .set({
+        coverPhotoId: photoId,
+        coverFocusX: photoId && focus ? focus.x : null,
+        coverFocusY: photoId && focus ? focus.y : null,
+      })
+      .where(eq(collections.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async restoreCollection(id: number): Promise<Collection | undefined> {
+    const result = await db.update(collections)
+      .set({ deletedAt: null })
+      .where(and(eq(collections.id, id), isNotNull(collections.deletedAt)))
+      .returning();
+    return result[0];
+  }
+  
+  // Permanently removes the memory, its photos and their files
+  async purgeCollection(id: number): Promise<boolean> {
     // First, get all photos in this collection
     const collectionPhotos = await db.select().from(photos).where(eq(photos.collectionId, id));
     
@@ -315,6 +762,12 @@ export class DbStorage implements IStorage {
     for (const photo of collectionPhotos) {
       // Delete from filesystem
       await this.deletePhotoFromFilesystem(photo.filePath);
+      if (photo.motionPath) {
+        await this.deletePhotoFromFilesystem(photo.motionPath);
+      }
+      if (photo.originalPath) {
+        await this.deletePhotoFromFilesystem(photo.originalPath);
+      }
       
       // Delete from database
       await db.delete(photos).where(eq(photos.id, photo.id));
@@ -326,7 +779,7 @@ export class DbStorage implements IStorage {
     return result.length > 0;
   }
 
-  async checkCollectionOwnership(collectionId: number, userId: number): Promise<boolean> {
+  async getCollectionRole(collectionId: number, userId: number): Promise<CollectionRole | undefined> {
     const ownership = await db
       .select()
       .from(collectionOwners)
@@ -336,21 +789,138 @@ export class DbStorage implements IStorage {
       ))
       .limit(1);
     
-    return ownership.length > 0;
+    return ownership[0]?.role;
+  }
+
+  async checkCollectionPermission(collectionId: number, userId: number, requiredRole: CollectionRole = "viewer"): Promise<boolean> {
+    const role = await this.getCollectionRole(collectionId, userId);
+    return hasCollectionRole(role, requiredRole);
+  }
+  
+  // Collection sharing operations
+  async getCollectionMembers(collectionId: number): Promise<CollectionOwner[]> {
+    return await db.select().from(collectionOwners)
+      .where(eq(collectionOwners.collectionId, collectionId))
+      .orderBy(collectionOwners.createdAt);
+  }
+  
+  async updateCollectionMemberRole(collectionId: number, userId: number, role: CollectionRole): Promise<CollectionOwner | undefined> {
+    const result = await db.update(collectionOwners)
+      .set({ role })
+      .where(and(
+        eq(collectionOwners.collectionId, collectionId),
+        eq(collectionOwners.userId, userId)
+      ))
+      .returning();
+    return result[0];
+  }
+  
+  async removeCollectionMember(collectionId: number, userId: number): Promise<boolean> {
+    const result = await db.delete(collectionOwners)
+      .where(and(
+        eq(collectionOwners.collectionId, collectionId),
+        eq(collectionOwners.userId, userId)
+      ))
+      .returning();
+    return result.length > 0;
+  }
+  
+  async getCollectionInvitations(collectionId: number): Promise<CollectionInvitation[]> {
+    return await db.select().from(collectionInvitations)
+      .where(and(
+        eq(collectionInvitations.collectionId, collectionId),
+        eq(collectionInvitations.status, "pending")
+      ))
+      .orderBy(desc(collectionInvitations.createdAt));
+  }
+  
+  async getPendingInvitations(userId: number): Promise<CollectionInvitation[]> {
+    return await db.select().from(collectionInvitations)
+      .where(and(
+        eq(collectionInvitations.inviteeId, userId),
+        eq(collectionInvitations.status, "pending")
+      ))
+      .orderBy(desc(collectionInvitations.createdAt));
+  }
+  
+  async getInvitation(id: number): Promise<CollectionInvitation | undefined> {
+    const result = await db.select().from(collectionInvitations).where(eq(collectionInvitations.id, id));
+    return result[0];
+  }
+  
+  async createInvitation(invitation: InsertCollectionInvitation): Promise<CollectionInvitation> {
+    // Re-inviting a user who declined (or was removed) resets their invitation
+    const result = await db.insert(collectionInvitations)
+      .values({
+        ...invitation,
+        status: "pending",
+        createdAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: [collectionInvitations.collectionId, collectionInvitations.inviteeId],
+        set: {
+          inviterId: invitation.inviterId,
+          role: invitation.role,
+          status: "pending",
+          createdAt: new Date(),
+          respondedAt: null
+        }
+      })
+      .returning();
+    return result[0];
+  }
+  
+  async respondToInvitation(id: number, accept: boolean): Promise<CollectionInvitation | undefined> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(collectionInvitations)
+        .set({ status: accept ? "accepted" : "declined", respondedAt: new Date() })
+        .where(and(
+          eq(collectionInvitations.id, id),
+          eq(collectionInvitations.status, "pending")
+        ))
+        .returning();
+      
+      const invitation = result[0];
+      if (invitation && accept) {
+        await tx.insert(collectionOwners)
+          .values({
+            collectionId: invitation.collectionId,
+            userId: invitation.inviteeId,
+            role: invitation.role,
+            createdAt: new Date()
+          })
+          .onConflictDoUpdate({
+            target: [collectionOwners.collectionId, collectionOwners.userId],
+            set: { role: invitation.role }
+          });
+      }
+      
+      return invitation;
+    });
+  }
+  
+  async deleteInvitation(id: number): Promise<boolean> {
+    const result = await db.delete(collectionInvitations).where(eq(collectionInvitations.id, id)).returning();
+    return result.length > 0;
   }
   
   // Photo operations
   async getPhotos(userId: number, collectionId?: number): Promise<Photo[]> {
     if (collectionId) {
       // First check if user owns this collection
-      const hasAccess = await this.checkCollectionOwnership(collectionId, userId);
+      const hasAccess = await this.checkCollectionPermission(collectionId, userId, "viewer");
       if (!hasAccess) {
         return [];
       }
       
+      const collection = await this.getCollection(collectionId);
+      if (!collection) {
+        return [];
+      }
+      
       const result = await db.select().from(photos)
-        .where(eq(photos.collectionId, collectionId))
-        .orderBy(desc(photos.uploadedAt));
+        .where(and(eq(photos.collectionId, collectionId), isNull(photos.deletedAt)))
+        .orderBy(...this.getPhotoOrderBy(collection.photoOrder));
       return result;
     } else {
       // Get all photos from collections that the user owns
@@ -364,18 +934,46 @@ export class DbStorage implements IStorage {
         isLiked: photos.isLiked,
         collectionId: photos.collectionId,
         uploadedAt: photos.uploadedAt,
+        takenAt: photos.takenAt,
+        cameraMake: photos.cameraMake,
+        cameraModel: photos.cameraModel,
+        orientation: photos.orientation,
+        width: photos.width,
+        height: photos.height,
+        latitude: photos.latitude,
+        longitude: photos.longitude,
+        position: photos.position,
+        mediaKind: photos.mediaKind,
+        motionPath: photos.motionPath,
+        originalPath: photos.originalPath,
+        contentHash: photos.contentHash,
+        perceptualHash: photos.perceptualHash,
+        duration: photos.duration,
+        deletedAt: photos.deletedAt,
       }).from(photos)
         .innerJoin(collections, eq(photos.collectionId, collections.id))
         .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
-        .where(eq(collectionOwners.userId, userId))
+        .where(and(
+          eq(collectionOwners.userId, userId),
+          isNull(photos.deletedAt),
+          isNull(collections.deletedAt)
+        ))
         .orderBy(desc(photos.uploadedAt));
       return result;
     }
   }
   
-  async getPhoto(id: number): Promise<Photo | undefined> {
-    const result = await db.select().from(photos).where(eq(photos.id, id));
-    return result[0];
+  // Photos in the trash, or in a memory that is, are hidden unless includeDeleted is set
+  async getPhoto(id: number, includeDeleted = false): Promise<Photo | undefined> {
+    const result = await db.select({ photo: photos })
+      .from(photos)
+      .leftJoin(collections, eq(photos.collectionId, collections.id))
+      .where(and(
+        eq(photos.id, id),
+        includeDeleted ? undefined : isNull(photos.deletedAt),
+        includeDeleted ? undefined : isNull(collections.deletedAt)
+      ));
+    return result[0]?.photo;
   }
   
   async createPhoto(insertPhoto: InsertPhoto): Promise<Photo> {
@@ -419,78 +1017,1236 @@ export class DbStorage implements IStorage {
     return photo;
   }
   
+  // Moves the photo to the trash
   async deletePhoto(id: number): Promise<boolean> {
-    // Get photo information
-    const photo = await this.getPhoto(id);
-    if (!photo) return false;
-    
-    // Delete from filesystem
-    await this.deletePhotoFromFilesystem(photo.filePath);
-    
-    // Delete from database
-    const result = await db.delete(photos).where(eq(photos.id, id)).returning();
+    const result = await db.update(photos)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(photos.id, id), isNull(photos.deletedAt)))
+      .returning();
     return result.length > 0;
   }
   
-  async toggleLikePhoto(id: number): Promise<Photo | undefined> {
-    // Get current photo to check liked status
-    const photo = await this.getPhoto(id);
-    if (!photo) return undefined;
-    
-    // Toggle the liked status
+  async restorePhoto(id: number): Promise<Photo | undefined> {
     const result = await db.update(photos)
-      .set({ isLiked: !photo.isLiked })
-      .where(eq(photos.id, id))
+      .set({ deletedAt: null })
+      .where(and(eq(photos.id, id), isNotNull(photos.deletedAt)))
+      .returning();
+    return result[0];
+  }
+  
+  // Moves several photos to the trash in one statement, so either all of them go or none do
+  async deletePhotos(photoIds: number[]): Promise<Photo[]> {
+    if (photoIds.length === 0) return [];
+    
+    return await db.update(photos)
+      .set({ deletedAt: new Date() })
+      .where(and(inArray(photos.id, photoIds), isNull(photos.deletedAt)))
       .returning();
+  }
+  
+  // Moves photos into another memory. Tags belong to a space, so photos coming
+  // from a different space get the destination's tags with the same names.
+  async movePhotos(photoIds: number[], collection: Collection): Promise<Photo[]> {
+    if (photoIds.length === 0) return [];
     
-    const updatedPhoto = result[0];
-    if (updatedPhoto) {
-      // Update metadata file
-      await this.createMetadataFile(updatedPhoto.fileName, {
-        title: updatedPhoto.title,
-        description: updatedPhoto.description,
-        isLiked: updatedPhoto.isLiked,
-        collectionId: updatedPhoto.collectionId,
-        uploadedAt: updatedPhoto.uploadedAt
+    const movedPhotos = await db.transaction(async (tx) => {
+      // Moved photos join the end of a manually ordered memory
+      const result = await tx.update(photos)
+        .set({ collectionId: collection.id, position: null })
+        .where(inArray(photos.id, photoIds))
+        .returning();
+      
+      if (collection.spaceId) {
+        const foreignTags = await tx.select({ photoId: photoTags.photoId, tagId: tags.id, name: tags.name })
+          .from(photoTags)
+          .innerJoin(tags, eq(photoTags.tagId, tags.id))
+          .where(and(inArray(photoTags.photoId, photoIds), ne(tags.spaceId, collection.spaceId)));
+        
+        if (foreignTags.length > 0) {
+          const destinationTags = await this.findOrCreateTags(tx, collection.spaceId, foreignTags.map(row => row.name));
+          await tx.delete(photoTags).where(and(
+            inArray(photoTags.photoId, photoIds),
+            inArray(photoTags.tagId, foreignTags.map(row => row.tagId))
+          ));
+          await tx.insert(photoTags)
+            .values(foreignTags.map(row => ({
+              photoId: row.photoId,
+              tagId: destinationTags.find(tag => tag.name === row.name)!.id,
+            })))
+            .onConflictDoNothing();
+        }
+      }
+      
+      return result;
+    });
+    
+    for (const photo of movedPhotos) {
+      await this.createMetadataFile(photo.fileName, {
+        title: photo.title,
+        description: photo.description,
+        isLiked: photo.isLiked,
+        collectionId: photo.collectionId,
+        uploadedAt: photo.uploadedAt
       });
     }
     
-    return updatedPhoto;
-  }
-  
-  // Comment operations for photo-level comments
-  async getComments(photoId: number): Promise<Comment[]> {
-    return await db.select().from(comments)
-      .where(eq(comments.photoId, photoId))
-      .orderBy(comments.createdAt);
+    return movedPhotos;
   }
   
-  async getComment(id: number): Promise<Comment | undefined> {
-    const result = await db.select().from(comments).where(eq(comments.id, id));
-    return result[0];
+  // Copies a photo into another memory with files of its own, so deleting
+  // either one later leaves the other intact
+  async copyPhoto(photo: Photo, collection: Collection, fileName: string): Promise<Photo> {
+    const filePath = await this.copyPhotoOnFilesystem(photo.filePath, fileName);
+    const motionPath = photo.motionPath
+      ? await this.copyPhotoOnFilesystem(photo.motionPath, `${path.basename(fileName, path.extname(fileName))}-motion${path.extname(photo.motionPath)}`)
+      : null;
+    const originalPath = photo.originalPath
+      ? await this.copyPhotoOnFilesystem(photo.originalPath, `${path.basename(fileName, path.extname(fileName))}${path.extname(photo.originalPath)}`)
+      : null;
+    
+    const copy = await this.createPhoto({
+      title: photo.title,
+      description: photo.description,
+      fileName,
+      fileType: photo.fileType,
+      filePath,
+      isLiked: photo.isLiked,
+      collectionId: collection.id,
+      takenAt: photo.takenAt,
+      cameraMake: photo.cameraMake,
+      cameraModel: photo.cameraModel,
+      orientation: photo.orientation,
+      width: photo.width,
+      height: photo.height,
+      latitude: photo.latitude,
+      longitude: photo.longitude,
+      mediaKind: photo.mediaKind,
+      motionPath,
+      originalPath,
+      duration: photo.duration,
+      contentHash: photo.contentHash,
+      perceptualHash: photo.perceptualHash,
+    });
+    
+    const photoTagList = await this.getPhotoTags(photo.id);
+    if (collection.spaceId && photoTagList.length > 0) {
+      await this.setPhotoTags(copy.id, collection.spaceId, photoTagList.map(tag => tag.name));
+    }
+    
+    return copy;
   }
   
-  async createComment(insertComment: InsertComment): Promise<Comment> {
-    const result = await db.insert(comments).values({
-      ...insertComment,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }).returning();
-    return result[0];
+  // Saves a hand-picked order for a memory's photos and switches the memory to it.
+  // photoIds lists every live photo in the memory, first to last.
+  async reorderPhotos(collectionId: number, photoIds: number[]): Promise<Photo[]> {
+    const orderedIds = sql`array[${sql.join(photoIds.map(id => sql`${id}`), sql`, `)}]::int[]`;
+    
+    return await db.transaction(async (tx) => {
+      await tx.update(photos)
+        .set({ position: sql`array_position(${orderedIds}, ${photos.id})` })
+        .where(and(eq(photos.collectionId, collectionId), inArray(photos.id, photoIds)));
+      
+      await tx.update(collections)
+        .set({ photoOrder: "manual" })
+        .where(eq(collections.id, collectionId));
+      
+      return await tx.select().from(photos)
+        .where(and(eq(photos.collectionId, collectionId), isNull(photos.deletedAt)))
+        .orderBy(...this.getPhotoOrderBy("manual"));
+    });
   }
   
-  async updateComment(id: number, commentUpdate: Partial<InsertComment>): Promise<Comment | undefined> {
-    const result = await db.update(comments)
-      .set({ ...commentUpdate, updatedAt: new Date() })
-      .where(eq(comments.id, id))
-      .returning();
-    return result[0];
+  // Sort for a memory's photos. Capture time falls back to the upload time for photos
+  // without EXIF, and photos added after a manual order was saved go at the end.
+  private getPhotoOrderBy(order: PhotoOrder) {
+    const takenOrder = [asc(sql`coalesce(${photos.takenAt}, ${photos.uploadedAt})`), asc(photos.id)];
+    switch (order) {
+      case "manual":
+        return [sql`${photos.position} asc nulls last`, ...takenOrder];
+      case "uploaded":
+        return [asc(photos.uploadedAt), asc(photos.id)];
+      default:
+        return takenOrder;
+    }
   }
   
-  async deleteComment(id: number): Promise<boolean> {
-    const result = await db.delete(comments).where(eq(comments.id, id)).returning();
+  // Permanently removes the photo and its files
+  async purgePhoto(id: number): Promise<boolean> {
+    // Get photo information
+    const photo = await this.getPhoto(id, true);
+    if (!photo) return false;
+    
+    // Delete from filesystem
+    await this.deletePhotoFromFilesystem(photo.filePath);
+    if (photo.motionPath) {
+      await this.deletePhotoFromFilesystem(photo.motionPath);
+    }
+    if (photo.originalPath) {
+      await this.deletePhotoFromFilesystem(photo.originalPath);
+    }
+    
+    // Delete from database
+    const result = await db.delete(photos).where(eq(photos.id, id)).returning();
     return result.length > 0;
   }
+  
+  // Trash operations
+  // Memories the user owns and photos they could edit, most recently deleted first.
+  // Photos in a trashed memory aren't listed on their own; they come back with it.
+  async getTrash(userId: number, spaceId?: number): Promise<{ collections: (Collection & { thumbnailUrl: string | null; photoCount: number })[]; photos: (Photo & { collectionName: string })[] }> {
+    const [trashedCollections, trashedPhotos] = await Promise.all([
+      db.select({
+        id: collections.id,
+        name: collections.name,
+        description: collections.description,
+        type: collections.type,
+        userId: collections.userId,
+        spaceId: collections.spaceId,
+        memoryDate: collections.memoryDate,
+        createdAt: collections.createdAt,
+        coverPhotoId: collections.coverPhotoId,
+        coverFocusX: collections.coverFocusX,
+        coverFocusY: collections.coverFocusY,
+        photoOrder: collections.photoOrder,
+        deletedAt: collections.deletedAt,
+        thumbnailUrl: sql<string | null>`(
+          select ${photos.filePath} from ${photos}
+          where ${photos.collectionId} = ${collections.id} and ${photos.deletedAt} is null
+          order by ${photos.id} = ${collections.coverPhotoId} desc nulls last, coalesce(${photos.takenAt}, ${photos.uploadedAt}), ${photos.id}
+          limit 1
+        )`,
+        photoCount: sql<number>`(select count(*)::int from ${photos} where ${photos.collectionId} = ${collections.id} and ${photos.deletedAt} is null)`,
+      })
+        .from(collections)
+        .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+        .where(and(
+          eq(collectionOwners.userId, userId),
+          eq(collectionOwners.role, "owner"),
+          isNotNull(collections.deletedAt),
+          spaceId ? eq(collections.spaceId, spaceId) : undefined
+        ))
+        .orderBy(desc(collections.deletedAt)),
+      
+      db.select({ photo: photos, collectionName: collections.name })
+        .from(photos)
+        .innerJoin(collections, eq(photos.collectionId, collections.id))
+        .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+        .where(and(
+          eq(collectionOwners.userId, userId),
+          inArray(collectionOwners.role, ["owner", "editor"]),
+          isNotNull(photos.deletedAt),
+          isNull(collections.deletedAt),
+          spaceId ? eq(collections.spaceId, spaceId) : undefined
+        ))
+        .orderBy(desc(photos.deletedAt)),
+    ]);
+    
+    return {
+      collections: trashedCollections,
+      photos: trashedPhotos.map(row => ({ ...row.photo, collectionName: row.collectionName })),
+    };
+  }
+  
+  // Permanently removes everything that went into the trash before the cutoff
+  async purgeExpiredTrash(before: Date): Promise<{ collections: number; photos: number }> {
+    const expiredCollections = await db.select({ id: collections.id })
+      .from(collections)
+      .where(lt(collections.deletedAt, before));
+    
+    let collectionCount = 0;
+    for (const collection of expiredCollections) {
+      if (await this.purgeCollection(collection.id)) collectionCount++;
+    }
+    
+    // Photos purged along with their memory are already gone
+    const expiredPhotos = await db.select({ id: photos.id })
+      .from(photos)
+      .where(lt(photos.deletedAt, before));
+    
+    let photoCount = 0;
+    for (const photo of expiredPhotos) {
+      if (await this.purgePhoto(photo.id)) photoCount++;
+    }
+    
+    return { collections: collectionCount, photos: photoCount };
+  }
+  
+  // Duplicate operations
+  // Photos in the user's memories that are the same file as the given photo or look like it
+  async findDuplicatePhotos(photo: Photo, userId: number): Promise<DuplicateMatch[]> {
+    if (!photo.contentHash && !photo.perceptualHash) return [];
+    
+    const exact = photo.contentHash
+      ? sql<boolean>`coalesce(${photos.contentHash} = ${photo.contentHash}, false)`
+      : sql<boolean>`false`;
+    // Counts the differing bits of the two hashes read as 64-bit strings
+    const similar = photo.perceptualHash
+      ? sql<boolean>`coalesce(length(replace(
+          (('x' || ${photos.perceptualHash})::bit(64) # ('x' || ${photo.perceptualHash})::bit(64))::text, '0', ''
+        )) <= ${NEAR_DUPLICATE_DISTANCE}, false)`
+      : sql<boolean>`false`;
+    
+    return await db
+      .select({
+        id: photos.id,
+        title: photos.title,
+        filePath: photos.filePath,
+        collectionId: collections.id,
+        collectionName: collections.name,
+        exact,
+      })
+      .from(photos)
+      .innerJoin(collections, eq(photos.collectionId, collections.id))
+      .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+      .where(and(
+        eq(collectionOwners.userId, userId),
+        ne(photos.id, photo.id),
+        isNull(photos.deletedAt),
+        isNull(collections.deletedAt),
+        sql`(${exact} or ${similar})`
+      ))
+      .orderBy(desc(exact), asc(photos.id))
+      .limit(10);
+  }
+  
+  // Sets of photos that are copies of each other, among the memories the user can edit.
+  // Photos are grouped when they share a file or their pictures look alike, and a
+  // photo alike to two others brings both into its group.
+  async getDuplicateGroups(userId: number, spaceId?: number): Promise<DuplicateGroup[]> {
+    const editablePhotos = and(
+      eq(collectionOwners.userId, userId),
+      inArray(collectionOwners.role, ["owner", "editor"]),
+      isNull(photos.deletedAt),
+      isNull(collections.deletedAt),
+      spaceId ? eq(collections.spaceId, spaceId) : undefined
+    );
+    
+    // Copies of the same file are grouped by the database
+    const exactGroups = await db.select({ ids: sql<number[]>`array_agg(${photos.id} order by ${photos.id})` })
+      .from(photos)
+      .innerJoin(collections, eq(photos.collectionId, collections.id))
+      .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+      .where(and(editablePhotos, isNotNull(photos.contentHash)))
+      .groupBy(photos.contentHash)
+      .having(sql`count(*) > 1`);
+    
+    // Only the hashes are loaded to find the pictures that look alike
+    const hashes = await db.select({ id: photos.id, perceptualHash: photos.perceptualHash })
+      .from(photos)
+      .innerJoin(collections, eq(photos.collectionId, collections.id))
+      .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+      .where(and(editablePhotos, isNotNull(photos.perceptualHash)));
+    
+    // Union-find over photo ids
+    const parents = new Map<number, number>();
+    const find = (id: number): number => {
+      let root = id;
+      while ((parents.get(root) ?? root) !== root) {
+        root = parents.get(root)!;
+      }
+      parents.set(id, root);
+      return root;
+    };
+    const join = (a: number, b: number) => {
+      parents.set(find(a), find(b));
+    };
+    
+    for (const group of exactGroups) {
+      group.ids.forEach(id => join(id, group.ids[0]));
+    }
+    
+    // Compare only photos that share a bucket rather than every pair
+    const buckets = new Map<number, { id: number; perceptualHash: string }[]>();
+    for (const { id, perceptualHash } of hashes) {
+      if (!perceptualHash) continue;
+      for (const key of getHashBuckets(perceptualHash)) {
+        const bucket = buckets.get(key);
+        for (const other of bucket ?? []) {
+          if (find(id) !== find(other.id) && getHashDistance(perceptualHash, other.perceptualHash) <= NEAR_DUPLICATE_DISTANCE) {
+            join(id, other.id);
+          }
+        }
+        if (bucket) {
+          bucket.push({ id, perceptualHash });
+        } else {
+          buckets.set(key, [{ id, perceptualHash }]);
+        }
+      }
+    }
+    
+    const members = new Map<number, number[]>();
+    for (const id of Array.from(parents.keys())) {
+      const root = find(id);
+      members.set(root, [...(members.get(root) ?? []), id]);
+    }
+    const groupedIds = Array.from(members.values()).filter(ids => ids.length > 1).flat();
+    if (groupedIds.length === 0) return [];
+    
+    const rows = await db.select({ photo: photos, collectionName: collections.name })
+      .from(photos)
+      .innerJoin(collections, eq(photos.collectionId, collections.id))
+      .where(inArray(photos.id, groupedIds))
+      .orderBy(asc(photos.id));
+    
+    const groups = new Map<number, (Photo & { collectionName: string })[]>();
+    for (const row of rows) {
+      const root = find(row.photo.id);
+      groups.set(root, [...(groups.get(root) ?? []), { ...row.photo, collectionName: row.collectionName }]);
+    }
+    
+    return Array.from(groups.values())
+      .filter(group => group.length > 1)
+      .map(group => ({
+        exact: group.every(photo => photo.contentHash && photo.contentHash === group[0].contentHash),
+        photos: group,
+      }))
+      // Most recently uploaded duplicates first
+      .sort((a, b) => b.photos[b.photos.length - 1].id - a.photos[a.photos.length - 1].id);
+  }
+  
+  // Keeps one photo of a set of duplicates. Comments, reactions and tags on the others
+  // move over to it, and the others go to the trash.
+  async mergePhotos(keep: Photo, duplicates: Photo[]): Promise<Photo> {
+    const duplicateIds = duplicates.map(photo => photo.id);
+    
+    const tagNames = new Set<string>();
+    for (const photo of duplicates) {
+      (await this.getPhotoTags(photo.id)).forEach(tag => tagNames.add(tag.name));
+    }
+    
+    const merged = await db.transaction(async (tx) => {
+      await tx.update(comments)
+        .set({ photoId: keep.id })
+        .where(inArray(comments.photoId, duplicateIds));
+      await tx.update(notifications)
+        .set({ photoId: keep.id })
+        .where(inArray(notifications.photoId, duplicateIds));
+      
+      // A user who reacted the same way to several copies keeps one reaction
+      const reactions = await tx.select().from(photoReactions)
+        .where(inArray(photoReactions.photoId, duplicateIds));
+      if (reactions.length > 0) {
+        await tx.insert(photoReactions)
+          .values(reactions.map(reaction => ({
+            photoId: keep.id,
+            userId: reaction.userId,
+            reaction: reaction.reaction,
+            createdAt: reaction.createdAt,
+          })))
+          .onConflictDoNothing();
+      }
+      
+      await tx.update(photos)
+        .set({ deletedAt: new Date() })
+        .where(and(inArray(photos.id, duplicateIds), isNull(photos.deletedAt)));
+      
+      const [result] = await tx.update(photos)
+        .set({
+          isLiked: keep.isLiked || duplicates.some(photo => photo.isLiked),
+          description: keep.description || duplicates.find(photo => photo.description)?.description || null,
+        })
+        .where(eq(photos.id, keep.id))
+        .returning();
+      return result;
+    });
+    
+    // Tags belong to a space, so this finds or creates them in the kept photo's space
+    await this.addTagsToPhotos([keep.id], Array.from(tagNames));
+    return merged;
+  }
+  
+  // Photos uploaded before duplicate detection, including those in the trash
+  async getPhotosWithoutHashes(): Promise<Photo[]> {
+    return await db.select().from(photos)
+      .where(isNull(photos.contentHash))
+      .orderBy(asc(photos.id));
+  }
+  
+  // Photo reaction operations
+  async getPhotoReactions(photoId: number): Promise<PhotoReaction[]> {
+    return await db.select().from(photoReactions)
+      .where(eq(photoReactions.photoId, photoId))
+      .orderBy(photoReactions.createdAt);
+  }
+  
+  async addPhotoReaction(photoId: number, userId: number, reaction: PhotoReactionType): Promise<PhotoReaction> {
+    const result = await db.insert(photoReactions)
+      .values({ photoId, userId, reaction })
+      .onConflictDoNothing()
+      .returning();
+    if (result[0]) {
+      return result[0];
+    }
+    
+    // Reacting twice with the same reaction keeps the original one
+    const existing = await db.select().from(photoReactions)
+      .where(and(
+        eq(photoReactions.photoId, photoId),
+        eq(photoReactions.userId, userId),
+        eq(photoReactions.reaction, reaction)
+      ));
+    return existing[0];
+  }
+  
+  async removePhotoReaction(photoId: number, userId: number, reaction: PhotoReactionType): Promise<boolean> {
+    const result = await db.delete(photoReactions)
+      .where(and(
+        eq(photoReactions.photoId, photoId),
+        eq(photoReactions.userId, userId),
+        eq(photoReactions.reaction, reaction)
+      ))
+      .returning();
+    return result.length > 0;
+  }
+  
+  // Returns whether the reaction is present after toggling
+  async togglePhotoReaction(photoId: number, userId: number, reaction: PhotoReactionType): Promise<boolean> {
+    const removed = await this.removePhotoReaction(photoId, userId, reaction);
+    if (removed) {
+      return false;
+    }
+    await this.addPhotoReaction(photoId, userId, reaction);
+    return true;
+  }
+  
+  // Adds or removes the same reaction on several photos at once
+  async setPhotosReaction(photoIds: number[], userId: number, reaction: PhotoReactionType, present: boolean): Promise<void> {
+    if (photoIds.length === 0) return;
+    
+    if (present) {
+      await db.insert(photoReactions)
+        .values(photoIds.map(photoId => ({ photoId, userId, reaction })))
+        .onConflictDoNothing();
+    } else {
+      await db.delete(photoReactions)
+        .where(and(
+          inArray(photoReactions.photoId, photoIds),
+          eq(photoReactions.userId, userId),
+          eq(photoReactions.reaction, reaction)
+        ));
+    }
+  }
+  
+  // Comment operations for photo-level comments
+  async getComments(photoId: number): Promise<Comment[]> {
+    return await db.select().from(comments)
+      .where(eq(comments.photoId, photoId))
+      .orderBy(comments.createdAt);
+  }
+  
+  async getComment(id: number): Promise<Comment | undefined> {
+    const result = await db.select().from(comments).where(eq(comments.id, id));
+    return result[0];
+  }
+  
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const result = await db.insert(comments).values({
+      ...insertComment,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }).returning();
+    return result[0];
+  }
+  
+  async updateComment(id: number, commentUpdate: Partial<InsertComment>): Promise<Comment | undefined> {
+    const result = await db.update(comments)
+      .set({ ...commentUpdate, updatedAt: new Date() })
+      .where(eq(comments.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  // A comment with replies becomes a "[deleted]" placeholder so the thread stays intact.
+  // Without replies it is removed, along with any placeholder parents left without replies.
+  async deleteComment(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [comment] = await tx.select().from(comments).where(eq(comments.id, id));
+      if (!comment) return false;
+      
+      const replies = await tx.select({ id: comments.id }).from(comments)
+        .where(eq(comments.parentId, id))
+        .limit(1);
+      
+      if (replies.length > 0) {
+        await tx.update(comments)
+          .set({ content: "", deletedAt: new Date() })
+          .where(eq(comments.id, id));
+        return true;
+      }
+      
+      await tx.delete(comments).where(eq(comments.id, id));
+      
+      let parentId = comment.parentId;
+      while (parentId) {
+        const [parent] = await tx.select().from(comments).where(eq(comments.id, parentId));
+        if (!parent || !parent.deletedAt) break;
+        
+        const remaining = await tx.select({ id: comments.id }).from(comments)
+          .where(eq(comments.parentId, parent.id))
+          .limit(1);
+        if (remaining.length > 0) break;
+        
+        await tx.delete(comments).where(eq(comments.id, parent.id));
+        parentId = parent.parentId;
+      }
+      
+      return true;
+    });
+  }
+  
+  // Notification operations
+  async getNotifications(userId: number, limit = 50): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+  
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt)
+      ));
+    return result[0]?.count ?? 0;
+  }
+  
+  async findUnreadNotification(userId: number, type: NotificationType, collectionId: number, actorId: number, since: Date): Promise<Notification | undefined> {
+    const result = await db.select().from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.type, type),
+        eq(notifications.collectionId, collectionId),
+        eq(notifications.actorId, actorId),
+        isNull(notifications.readAt),
+        gt(notifications.createdAt, since)
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .limit(1);
+    return result[0];
+  }
+  
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const result = await db.insert(notifications).values(notification).returning();
+    return result[0];
+  }
+  
+  // Fold another event into an existing notification and move it back to the top
+  async incrementNotificationCount(id: number): Promise<Notification | undefined> {
+    const result = await db.update(notifications)
+      .set({ count: sql`${notifications.count} + 1`, createdAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async markNotificationRead(id: number, userId: number, read: boolean): Promise<Notification | undefined> {
+    const result = await db.update(notifications)
+      .set({ readAt: read ? new Date() : null })
+      .where(and(
+        eq(notifications.id, id),
+        eq(notifications.userId, userId)
+      ))
+      .returning();
+    return result[0];
+  }
+  
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const result = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt)
+      ))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+  
+  // Tag operations
+  // Tags in the user's spaces, counting only uses in memories they can see
+  async getTags(userId: number, spaceId?: number): Promise<TagWithUsage[]> {
+    const visibleCollections = db.select({ id: collectionOwners.collectionId })
+      .from(collectionOwners)
+      .innerJoin(collections, eq(collectionOwners.collectionId, collections.id))
+      .where(and(eq(collectionOwners.userId, userId), isNull(collections.deletedAt)));
+    
+    const photoCount = sql<number>`(
+      select count(*)::int from ${photoTags}
+      inner join ${photos} on ${photos.id} = ${photoTags.photoId}
+      where ${photoTags.tagId} = ${tags.id} and ${photos.collectionId} in ${visibleCollections} and ${photos.deletedAt} is null
+    )`;
+    const collectionCount = sql<number>`(
+      select count(*)::int from ${collectionTags}
+      where ${collectionTags.tagId} = ${tags.id} and ${collectionTags.collectionId} in ${visibleCollections}
+    )`;
+    
+    const result = await db
+      .select({
+        id: tags.id,
+        spaceId: tags.spaceId,
+        name: tags.name,
+        createdAt: tags.createdAt,
+        photoCount,
+        collectionCount,
+      })
+      .from(tags)
+      .innerJoin(spaceMembers, eq(tags.spaceId, spaceMembers.spaceId))
+      .where(and(
+        eq(spaceMembers.userId, userId),
+        spaceId ? eq(tags.spaceId, spaceId) : undefined
+      ))
+      .orderBy(asc(tags.name));
+    
+    // Tags nobody uses anymore aren't worth suggesting
+    return result
+      .filter(tag => tag.photoCount + tag.collectionCount > 0)
+      .sort((a, b) => (b.photoCount + b.collectionCount) - (a.photoCount + a.collectionCount));
+  }
+  
+  async getPhotoTags(photoId: number): Promise<Tag[]> {
+    const result = await db.select({ tag: tags })
+      .from(photoTags)
+      .innerJoin(tags, eq(photoTags.tagId, tags.id))
+      .where(eq(photoTags.photoId, photoId))
+      .orderBy(asc(tags.name));
+    return result.map(row => row.tag);
+  }
+  
+  async getCollectionTags(collectionId: number): Promise<Tag[]> {
+    const result = await db.select({ tag: tags })
+      .from(collectionTags)
+      .innerJoin(tags, eq(collectionTags.tagId, tags.id))
+      .where(eq(collectionTags.collectionId, collectionId))
+      .orderBy(asc(tags.name));
+    return result.map(row => row.tag);
+  }
+  
+  // Replace a photo's tags, creating any the space doesn't have yet
+  async setPhotoTags(photoId: number, spaceId: number, names: string[]): Promise<Tag[]> {
+    return await db.transaction(async (tx) => {
+      const photoTagList = await this.findOrCreateTags(tx, spaceId, names);
+      await tx.delete(photoTags).where(eq(photoTags.photoId, photoId));
+      if (photoTagList.length > 0) {
+        await tx.insert(photoTags)
+          .values(photoTagList.map(tag => ({ photoId, tagId: tag.id })))
+          .onConflictDoNothing();
+      }
+      return photoTagList;
+    });
+  }
+  
+  // Replace a memory's tags, creating any the space doesn't have yet
+  async setCollectionTags(collectionId: number, spaceId: number, names: string[]): Promise<Tag[]> {
+    return await db.transaction(async (tx) => {
+      const collectionTagList = await this.findOrCreateTags(tx, spaceId, names);
+      await tx.delete(collectionTags).where(eq(collectionTags.collectionId, collectionId));
+      if (collectionTagList.length > 0) {
+        await tx.insert(collectionTags)
+          .values(collectionTagList.map(tag => ({ collectionId, tagId: tag.id })))
+          .onConflictDoNothing();
+      }
+      return collectionTagList;
+    });
+  }
+  
+  // Adds tags to several photos, which may be in different spaces, keeping their existing tags
+  async addTagsToPhotos(photoIds: number[], names: string[]): Promise<void> {
+    if (photoIds.length === 0 || names.length === 0) return;
+    
+    await db.transaction(async (tx) => {
+      const photoSpaces = await tx.select({ photoId: photos.id, spaceId: collections.spaceId })
+        .from(photos)
+        .innerJoin(collections, eq(photos.collectionId, collections.id))
+        .where(inArray(photos.id, photoIds));
+      
+      const spaceIds = Array.from(new Set(photoSpaces.map(row => row.spaceId)));
+      for (const spaceId of spaceIds) {
+        if (!spaceId) continue;
+        const spaceTags = await this.findOrCreateTags(tx, spaceId, names);
+        const spacePhotoIds = photoSpaces.filter(row => row.spaceId === spaceId).map(row => row.photoId);
+        await tx.insert(photoTags)
+          .values(spacePhotoIds.flatMap(photoId => spaceTags.map(tag => ({ photoId, tagId: tag.id }))))
+          .onConflictDoNothing();
+      }
+    });
+  }
+  
+  private async findOrCreateTags(tx: Transaction, spaceId: number, names: string[]): Promise<Tag[]> {
+    const uniqueNames = Array.from(new Set(names));
+    if (uniqueNames.length === 0) return [];
+    
+    await tx.insert(tags)
+      .values(uniqueNames.map(name => ({ spaceId, name, createdAt: new Date() })))
+      .onConflictDoNothing();
+    
+    return await tx.select().from(tags)
+      .where(and(
+        eq(tags.spaceId, spaceId),
+        inArray(tags.name, uniqueNames)
+      ))
+      .orderBy(asc(tags.name));
+  }
+  
+  // Timeline operations
+  // Memory and photo counts per month, newest first
+  async getTimelineSummary(userId: number, spaceId?: number): Promise<TimelineMonthSummary[]> {
+    const month = sql<string>`to_char(${collections.memoryDate}, 'YYYY-MM')`;
+    
+    return await db
+      .select({
+        month,
+        collectionCount: sql<number>`count(distinct ${collections.id})::int`,
+        photoCount: sql<number>`count(${photos.id})::int`,
+      })
+      .from(collections)
+      .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+      .leftJoin(photos, and(eq(photos.collectionId, collections.id), isNull(photos.deletedAt)))
+      .where(and(
+        eq(collectionOwners.userId, userId),
+        isNull(collections.deletedAt),
+        spaceId ? eq(collections.spaceId, spaceId) : undefined
+      ))
+      .groupBy(month)
+      .orderBy(desc(month));
+  }
+  
+  // Memories between two months (inclusive, YYYY-MM) with their first few photos
+  async getTimelineCollections(userId: number, fromMonth: string, toMonth: string, spaceId?: number, previewCount = 4): Promise<TimelineCollection[]> {
+    const month = sql<string>`to_char(${collections.memoryDate}, 'YYYY-MM')`;
+    
+    const monthCollections = await db
+      .select({
+        id: collections.id,
+        name: collections.name,
+        description: collections.description,
+        memoryDate: collections.memoryDate,
+        photoCount: sql<number>`(select count(*)::int from ${photos} where ${photos.collectionId} = ${collections.id} and ${photos.deletedAt} is null)`,
+      })
+      .from(collections)
+      .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+      .where(and(
+        eq(collectionOwners.userId, userId),
+        isNull(collections.deletedAt),
+        spaceId ? eq(collections.spaceId, spaceId) : undefined,
+        sql`${month} between ${fromMonth} and ${toMonth}`
+      ))
+      .orderBy(desc(collections.memoryDate), desc(collections.createdAt));
+    
+    if (monthCollections.length === 0) return [];
+    
+    // Number photos within each memory so only the first few are fetched: the cover, then the
+    // rest in the memory's photo order (the one getPhotoOrderBy sorts by, picked per memory here)
+    const rankedPhotos = db
+      .select({
+        id: photos.id,
+        collectionId: photos.collectionId,
+        filePath: photos.filePath,
+        title: photos.title,
+        position: sql<number>`row_number() over (
+          partition by ${photos.collectionId}
+          order by ${photos.id} = ${collections.coverPhotoId} desc nulls last,
+            case when ${collections.photoOrder} = 'manual' then ${photos.position} end asc nulls last,
+            case when ${collections.photoOrder} = 'uploaded' then ${photos.uploadedAt} else coalesce(${photos.takenAt}, ${photos.uploadedAt}) end,
+            ${photos.id}
+        )`.as("position"),
+      })
+      .from(photos)
+      .innerJoin(collections, eq(photos.collectionId, collections.id))
+      .where(and(
+        inArray(photos.collectionId, monthCollections.map(collection => collection.id)),
+        isNull(photos.deletedAt)
+      ))
+      .as("ranked_photos");
+    
+    const previews = await db.select()
+      .from(rankedPhotos)
+      .where(lte(rankedPhotos.position, previewCount))
+      .orderBy(asc(rankedPhotos.position));
+    
+    return monthCollections.map(collection => ({
+      ...collection,
+      previewPhotos: previews
+        .filter(photo => photo.collectionId === collection.id)
+        .map(({ id, filePath, title }) => ({ id, filePath, title })),
+    }));
+  }
+  
+  // On this day operations
+  // Memories from earlier years whose day (MM-DD) is one of monthDays
+  async getCollectionsOnDays(userId: number, monthDays: string[], beforeYear: number, spaceId?: number): Promise<(Collection & { thumbnailUrl: string | null })[]> {
+    if (monthDays.length === 0) return [];
+    
+    return await db
+      .select({
+        id: collections.id,
+        name: collections.name,
+        description: collections.description,
+        type: collections.type,
+        userId: collections.userId,
+        spaceId: collections.spaceId,
+        memoryDate: collections.memoryDate,
+        createdAt: collections.createdAt,
+        coverPhotoId: collections.coverPhotoId,
+        coverFocusX: collections.coverFocusX,
+        coverFocusY: collections.coverFocusY,
+        photoOrder: collections.photoOrder,
+        deletedAt: collections.deletedAt,
+        thumbnailUrl: sql<string | null>`(
+          select ${photos.filePath} from ${photos}
+          where ${photos.collectionId} = ${collections.id} and ${photos.deletedAt} is null
+          order by ${photos.id} = ${collections.coverPhotoId} desc nulls last, coalesce(${photos.takenAt}, ${photos.uploadedAt}), ${photos.id}
+          limit 1
+        )`,
+      })
+      .from(collections)
+      .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+      .where(and(
+        eq(collectionOwners.userId, userId),
+        isNull(collections.deletedAt),
+        spaceId ? eq(collections.spaceId, spaceId) : undefined,
+        inArray(sql`to_char(${collections.memoryDate}, 'MM-DD')`, monthDays),
+        sql`extract(year from ${collections.memoryDate}) < ${beforeYear}`
+      ))
+      .orderBy(desc(collections.memoryDate));
+  }
+  
+  // Photos captured in earlier years on one of monthDays (MM-DD)
+  async getPhotosTakenOnDays(userId: number, monthDays: string[], beforeYear: number, spaceId?: number, limit = 24): Promise<(Photo & { collectionName: string })[]> {
+    if (monthDays.length === 0) return [];
+    
+    const result = await db
+      .select({ photo: photos, collectionName: collections.name })
+      .from(photos)
+      .innerJoin(collections, eq(photos.collectionId, collections.id))
+      .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+      .where(and(
+        eq(collectionOwners.userId, userId),
+        isNull(photos.deletedAt),
+        isNull(collections.deletedAt),
+        spaceId ? eq(collections.spaceId, spaceId) : undefined,
+        inArray(sql`to_char(${photos.takenAt}, 'MM-DD')`, monthDays),
+        sql`extract(year from ${photos.takenAt}) < ${beforeYear}`
+      ))
+      .orderBy(desc(photos.takenAt))
+      .limit(limit);
+    
+    return result.map(row => ({ ...row.photo, collectionName: row.collectionName }));
+  }
+  
+  // Search operations
+  // The to_tsvector expressions match the GIN indexes in migration 0013
+  async search(userId: number, query: string, spaceId?: number, limit = 50): Promise<SearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=25, MinWords=8, MaxFragments=2`;
+    
+    const collectionText = sql`coalesce(${collections.name}, '') || ' ' || coalesce(${collections.description}, '')`;
+    const photoText = sql`coalesce(${photos.title}, '') || ' ' || coalesce(${photos.description}, '')`;
+    const collectionDocument = sql`to_tsvector('english', ${collectionText})`;
+    const photoDocument = sql`to_tsvector('english', ${photoText})`;
+    const commentDocument = sql`to_tsvector('english', ${comments.content})`;
+    const collectionRank = sql<number>`ts_rank(${collectionDocument}, ${tsQuery})`;
+    const photoRank = sql<number>`ts_rank(${photoDocument}, ${tsQuery})`;
+    const commentRank = sql<number>`ts_rank(${commentDocument}, ${tsQuery})`;
+    
+    // Only search collections the user is a member of that aren't in the trash
+    const memberOf = and(
+      eq(collectionOwners.userId, userId),
+      isNull(collections.deletedAt),
+      spaceId ? eq(collections.spaceId, spaceId) : undefined
+    );
+    
+    const [collectionMatches, photoMatches, commentMatches] = await Promise.all([
+      db.select({
+        id: collections.id,
+        name: collections.name,
+        memoryDate: collections.memoryDate,
+        rank: collectionRank,
+        highlight: sql<string>`ts_headline('english', ${collectionText}, ${tsQuery}, ${headlineOptions})`,
+      })
+        .from(collections)
+        .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+        .where(and(memberOf, sql`${collectionDocument} @@ ${tsQuery}`))
+        .orderBy(desc(collectionRank))
+        .limit(limit),
+      
+      db.select({
+        id: photos.id,
+        title: photos.title,
+        filePath: photos.filePath,
+        collectionId: collections.id,
+        collectionName: collections.name,
+        memoryDate: collections.memoryDate,
+        rank: photoRank,
+        highlight: sql<string>`ts_headline('english', ${photoText}, ${tsQuery}, ${headlineOptions})`,
+      })
+        .from(photos)
+        .innerJoin(collections, eq(photos.collectionId, collections.id))
+        .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+        .where(and(memberOf, isNull(photos.deletedAt), sql`${photoDocument} @@ ${tsQuery}`))
+        .orderBy(desc(photoRank))
+        .limit(limit),
+      
+      db.select({
+        id: comments.id,
+        photoId: photos.id,
+        photoTitle: photos.title,
+        filePath: photos.filePath,
+        collectionId: collections.id,
+        collectionName: collections.name,
+        memoryDate: collections.memoryDate,
+        authorName: users.displayName,
+        rank: commentRank,
+        highlight: sql<string>`ts_headline('english', ${comments.content}, ${tsQuery}, ${headlineOptions})`,
+      })
+        .from(comments)
+        .innerJoin(photos, eq(comments.photoId, photos.id))
+        .innerJoin(collections, eq(photos.collectionId, collections.id))
+        .innerJoin(collectionOwners, eq(collections.id, collectionOwners.collectionId))
+        .leftJoin(users, eq(comments.userId, users.id))
+        .where(and(
+          memberOf,
+          isNull(photos.deletedAt),
+          isNull(comments.deletedAt),
+          sql`${commentDocument} @@ ${tsQuery}`
+        ))
+        .orderBy(desc(commentRank))
+        .limit(limit),
+    ]);
+    
+    const results: SearchResult[] = [
+      ...collectionMatches.map(match => ({
+        type: "collection" as const,
+        id: match.id,
+        rank: match.rank,
+        title: match.name,
+        highlight: match.highlight,
+        collectionId: match.id,
+        collectionName: match.name,
+        photoId: null,
+        filePath: null,
+        authorName: null,
+        memoryDate: match.memoryDate,
+      })),
+      ...photoMatches.map(match => ({
+        type: "photo" as const,
+        id: match.id,
+        rank: match.rank,
+        title: match.title,
+        highlight: match.highlight,
+        collectionId: match.collectionId,
+        collectionName: match.collectionName,
+        photoId: match.id,
+        filePath: match.filePath,
+        authorName: null,
+        memoryDate: match.memoryDate,
+      })),
+      ...commentMatches.map(match => ({
+        type: "comment" as const,
+        id: match.id,
+        rank: match.rank,
+        title: match.photoTitle,
+        highlight: match.highlight,
+        collectionId: match.collectionId,
+        collectionName: match.collectionName,
+        photoId: match.photoId,
+        filePath: match.filePath,
+        authorName: match.authorName,
+        memoryDate: match.memoryDate,
+      })),
+    ];
+    
+    return results
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+  
+  // Account import operations
+  // Restores an account export in one go, giving every record a new id. userIds maps the
+  // archive's user ids to existing users and filePaths its files to where they were saved;
+  // photos whose file wasn't saved are left out, along with their comments.
+  async importAccount(archive: AccountArchive, userIds: Map<number, number>, filePaths: Map<string, string>): Promise<{ spaces: number; collections: number; photos: number; comments: number }> {
+    const toDate = (value: string | null) => value ? new Date(value) : new Date();
+    const toOptionalDate = (value: string | null) => value ? new Date(value) : null;
+    const ownerId = userIds.get(archive.userId) ?? null;
+    
+    const imported = await db.transaction(async (tx) => {
+      const spaceIds = new Map<number, number>();
+      for (const space of archive.spaces) {
+        const [created] = await tx.insert(spaces)
+          .values({ name: space.name, createdBy: ownerId, createdAt: toDate(space.createdAt) })
+          .returning();
+        spaceIds.set(space.id, created.id);
+        
+        const memberIds = [ownerId, ...space.memberIds.map(id => userIds.get(id))];
+        const members = Array.from(new Set(memberIds.filter((id): id is number => id != null)));
+        if (members.length > 0) {
+          await tx.insert(spaceMembers)
+            .values(members.map(userId => ({ spaceId: created.id, userId, createdAt: new Date() })))
+            .onConflictDoNothing();
+        }
+      }
+      
+      const collectionIds = new Map<number, { id: number; spaceId: number | null }>();
+      for (const collection of archive.collections) {
+        const spaceId = collection.spaceId ? spaceIds.get(collection.spaceId) ?? null : null;
+        const [created] = await tx.insert(collections)
+          .values({
+            name: collection.name,
+            description: collection.description,
+            type: collection.type,
+            userId: collection.userId ? userIds.get(collection.userId) ?? ownerId : ownerId,
+            spaceId,
+            memoryDate: collection.memoryDate,
+            createdAt: toDate(collection.createdAt),
+            coverFocusX: collection.coverFocusX,
+            coverFocusY: collection.coverFocusY,
+            photoOrder: collection.photoOrder,
+          })
+          .returning();
+        collectionIds.set(collection.id, { id: created.id, spaceId });
+        
+        // Everyone the memory was shared with keeps their role; the account keeps access
+        // even when the archive came from someone it had been shared with
+        const members = collection.members
+          .map(member => ({ ...member, userId: userIds.get(member.userId) }))
+          .filter((member): member is typeof member & { userId: number } => member.userId != null);
+        if (ownerId && !members.some(member => member.userId === ownerId)) {
+          members.push({ userId: ownerId, role: "owner", createdAt: null });
+        }
+        if (members.length > 0) {
+          await tx.insert(collectionOwners)
+            .values(members.map(member => ({
+              collectionId: created.id,
+              userId: member.userId,
+              role: member.role,
+              createdAt: toDate(member.createdAt),
+            })))
+            .onConflictDoNothing();
+        }
+        
+        if (spaceId && collection.tags.length > 0) {
+          const collectionTagList = await this.findOrCreateTags(tx, spaceId, collection.tags);
+          await tx.insert(collectionTags)
+            .values(collectionTagList.map(tag => ({ collectionId: created.id, tagId: tag.id })))
+            .onConflictDoNothing();
+        }
+      }
+      
+      const photoIds = new Map<number, number>();
+      const createdPhotos: Photo[] = [];
+      for (const photo of archive.photos) {
+        const collection = collectionIds.get(photo.collectionId);
+        const filePath = filePaths.get(photo.file);
+        if (!collection || !filePath) continue;
+        
+        const [created] = await tx.insert(photos)
+          .values({
+            title: photo.title,
+            description: photo.description,
+            fileName: path.basename(filePath),
+            fileType: photo.fileType,
+            filePath,
+            isLiked: photo.isLiked ?? false,
+            collectionId: collection.id,
+            uploadedAt: toDate(photo.uploadedAt),
+            takenAt: toOptionalDate(photo.takenAt),
+            cameraMake: photo.cameraMake,
+            cameraModel: photo.cameraModel,
+            orientation: photo.orientation,
+            width: photo.width,
+            height: photo.height,
+            latitude: photo.latitude,
+            longitude: photo.longitude,
+            mediaKind: photo.mediaKind,
+            motionPath: photo.motionFile ? filePaths.get(photo.motionFile) ?? null : null,
+            originalPath: photo.originalFile ? filePaths.get(photo.originalFile) ?? null : null,
+            duration: photo.duration,
+            contentHash: photo.contentHash,
+            perceptualHash: photo.perceptualHash,
+            position: photo.position,
+          })
+          .returning();
+        photoIds.set(photo.id, created.id);
+        createdPhotos.push(created);
+        
+        if (collection.spaceId && photo.tags.length > 0) {
+          const photoTagList = await this.findOrCreateTags(tx, collection.spaceId, photo.tags);
+          await tx.insert(photoTags)
+            .values(photoTagList.map(tag => ({ photoId: created.id, tagId: tag.id })))
+            .onConflictDoNothing();
+        }
+        
+        const reactions = photo.reactions
+          .map(reaction => ({ ...reaction, userId: userIds.get(reaction.userId) }))
+          .filter((reaction): reaction is typeof reaction & { userId: number } => reaction.userId != null);
+        if (reactions.length > 0) {
+          await tx.insert(photoReactions)
+            .values(reactions.map(reaction => ({
+              photoId: created.id,
+              userId: reaction.userId,
+              reaction: reaction.reaction,
+              createdAt: toDate(reaction.createdAt),
+            })))
+            .onConflictDoNothing();
+        }
+      }
+      
+      // Covers can only be set once their photos exist
+      for (const collection of archive.collections) {
+        const coverPhotoId = collection.coverPhotoId ? photoIds.get(collection.coverPhotoId) : undefined;
+        const created = collectionIds.get(collection.id);
+        if (coverPhotoId && created) {
+          await tx.update(collections)
+            .set({ coverPhotoId })
+            .where(eq(collections.id, created.id));
+        }
+      }
+      
+      // Replies follow the comments they answer, so their parent already has its new id
+      const commentIds = new Map<number, number>();
+      for (const comment of archive.comments) {
+        const photoId = photoIds.get(comment.photoId);
+        if (!photoId) continue;
+        
+        const [created] = await tx.insert(comments)
+          .values({
+            content: comment.content,
+            photoId,
+            userId: comment.userId ? userIds.get(comment.userId) ?? null : null,
+            parentId: comment.parentId ? commentIds.get(comment.parentId) ?? null : null,
+            createdAt: toDate(comment.createdAt),
+            updatedAt: toDate(comment.updatedAt ?? comment.createdAt),
+            deletedAt: toOptionalDate(comment.deletedAt),
+          })
+          .returning();
+        commentIds.set(comment.id, created.id);
+      }
+      
+      return {
+        photos: createdPhotos,
+        counts: {
+          spaces: spaceIds.size,
+          collections: collectionIds.size,
+          photos: photoIds.size,
+          comments: commentIds.size,
+        },
+      };
+    });
+    
+    // Same filesystem backup as photos uploaded the usual way
+    for (const photo of imported.photos) {
+      await this.createMetadataFile(photo.fileName, {
+        title: photo.title,
+        description: photo.description,
+        isLiked: photo.isLiked,
+        collectionId: photo.collectionId,
+        uploadedAt: photo.uploadedAt
+      });
+    }
+    
+    return imported.counts;
+  }
 }
 
 // Create and export the storage instance
@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+
+// How long deleted memories and photos stay in the trash before they're purged
+export const TRASH_RETENTION_DAYS = Math.max(1, parseInt(process.env.TRASH_RETENTION_DAYS || "30") || 30);
+
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+// When something deleted at deletedAt will be purged
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+async function purgeExpiredTrash() {
+  try {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const purged = await storage.purgeExpiredTrash(cutoff);
+    if (purged.collections > 0 || purged.photos > 0) {
+      console.log(`Purged ${purged.collections} memories and ${purged.photos} photos from the trash`);
+    }
+  } catch (error) {
+    console.error('Error purging trash:', error);
+  }
+}
+
+// Purge once at startup, then every hour
+export function startTrashPurge() {
+  purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, PURGE_INTERVAL).unref();
+}
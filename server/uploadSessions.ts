@@ -0,0 +1,184 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { Readable } from "stream";
+import { UPLOAD_CHUNK_SIZE, type UploadSession } from "@shared/uploads";
+import type { InitUploadRequest } from "@shared/schema";
+
+// Largest photo that can be uploaded, in megabytes
+export const MAX_UPLOAD_SIZE = Math.max(1, parseInt(process.env.MAX_UPLOAD_SIZE_MB || "50") || 50) * 1024 * 1024;
+
+// Video clips only go through chunked uploads, so they may be larger
+export const MAX_VIDEO_UPLOAD_SIZE = Math.max(1, parseInt(process.env.MAX_VIDEO_UPLOAD_SIZE_MB || "200") || 200) * 1024 * 1024;
+
+// Unfinished uploads are kept this long so they can be resumed, then cleaned up
+const UPLOAD_SESSION_TTL = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+// Parts are written straight into one file per upload, next to a JSON file with its progress.
+// The directory starts with a dot so the static /uploads route never serves it.
+const incomingDir = path.join(process.cwd(), "uploads", ".incoming");
+
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function getSessionPaths(id: string) {
+  return {
+    meta: path.join(incomingDir, `${id}.json`),
+    data: path.join(incomingDir, `${id}.part`),
+  };
+}
+
+async function saveSession(session: UploadSession): Promise<void> {
+  await fs.promises.writeFile(getSessionPaths(session.id).meta, JSON.stringify(session));
+}
+
+// Pending progress updates by upload. Parts of one upload can arrive together, and each
+// update reads and rewrites the whole progress file, so they take turns.
+const progressUpdates = new Map<string, Promise<unknown>>();
+
+function queueProgressUpdate<T>(id: string, update: () => Promise<T>): Promise<T> {
+  const result = (progressUpdates.get(id) ?? Promise.resolve()).then(update);
+  const settled = result.catch(() => undefined);
+  progressUpdates.set(id, settled);
+  settled.then(() => {
+    if (progressUpdates.get(id) === settled) progressUpdates.delete(id);
+  });
+  return result;
+}
+
+// Bytes a given part should have; only the last one may be short
+export function getChunkLength(session: UploadSession, index: number): number {
+  return Math.min(session.chunkSize, session.size - index * session.chunkSize);
+}
+
+export async function createUploadSession(userId: number, data: InitUploadRequest): Promise<UploadSession> {
+  await fs.promises.mkdir(incomingDir, { recursive: true });
+
+  const session: UploadSession = {
+    id: crypto.randomUUID(),
+    userId,
+    collectionId: data.collectionId,
+    livePhotoId: data.livePhotoId ?? null,
+    title: data.title,
+    description: data.description ?? null,
+    fileName: data.fileName,
+    fileType: data.fileType,
+    size: data.size,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks: Math.ceil(data.size / UPLOAD_CHUNK_SIZE),
+    receivedChunks: [],
+    createdAt: new Date().toISOString(),
+  };
+
+  // Reserve the file so parts can be written at their offsets in any order
+  await fs.promises.writeFile(getSessionPaths(session.id).data, "");
+  await saveSession(session);
+  return session;
+}
+
+// Only the user who started an upload can see or continue it
+export async function getUploadSession(id: string, userId: number): Promise<UploadSession | undefined> {
+  if (!SESSION_ID_PATTERN.test(id)) return undefined;
+
+  try {
+    const session: UploadSession = JSON.parse(await fs.promises.readFile(getSessionPaths(id).meta, "utf8"));
+    return session.userId === userId ? session : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Streams one part to its place in the upload file. Resolves to false, writing
+// nothing to the progress, when the stream doesn't carry exactly the part's bytes.
+export async function writeUploadChunk(session: UploadSession, index: number, stream: Readable): Promise<boolean> {
+  const expectedLength = getChunkLength(session, index);
+  let received = 0;
+
+  const completed = await new Promise<boolean>((resolve, reject) => {
+    const output = fs.createWriteStream(getSessionPaths(session.id).data, {
+      flags: "r+",
+      start: index * session.chunkSize,
+    });
+
+    stream.on("data", (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > expectedLength) {
+        stream.unpipe(output);
+        output.destroy();
+        resolve(false);
+      }
+    });
+    stream.on("aborted", () => {
+      output.destroy();
+      resolve(false);
+    });
+    stream.on("error", (error) => {
+      output.destroy();
+      reject(error);
+    });
+    output.on("error", reject);
+    output.on("finish", () => resolve(received === expectedLength));
+
+    stream.pipe(output);
+  });
+
+  if (!completed) return false;
+
+  // Re-read the progress so a part sent twice is only counted once
+  const current = await queueProgressUpdate(session.id, async () => {
+    const current = await getUploadSession(session.id, session.userId);
+    if (current && !current.receivedChunks.includes(index)) {
+      current.receivedChunks = [...current.receivedChunks, index].sort((a, b) => a - b);
+      await saveSession(current);
+    }
+    return current;
+  });
+  if (!current) return false;
+  session.receivedChunks = current.receivedChunks;
+  return true;
+}
+
+export function isUploadComplete(session: UploadSession): boolean {
+  return session.receivedChunks.length === session.totalChunks;
+}
+
+// Where the assembled file of a finished upload is on disk
+export function getUploadedFilePath(session: UploadSession): string {
+  return getSessionPaths(session.id).data;
+}
+
+export async function discardUploadSession(id: string): Promise<void> {
+  const paths = getSessionPaths(id);
+  await fs.promises.rm(paths.data, { force: true });
+  await fs.promises.rm(paths.meta, { force: true });
+}
+
+async function cleanUpStaleUploads() {
+  try {
+    if (!fs.existsSync(incomingDir)) return;
+
+    const cutoff = Date.now() - UPLOAD_SESSION_TTL;
+    let removed = 0;
+    for (const entry of await fs.promises.readdir(incomingDir)) {
+      if (!entry.endsWith(".json")) continue;
+
+      const id = entry.slice(0, -".json".length);
+      const stats = await fs.promises.stat(path.join(incomingDir, entry));
+      if (stats.mtimeMs < cutoff) {
+        await discardUploadSession(id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      console.log(`Removed ${removed} unfinished uploads`);
+    }
+  } catch (error) {
+    console.error('Error cleaning up unfinished uploads:', error);
+  }
+}
+
+// Clean up once at startup, then every hour
+export function startUploadCleanup() {
+  cleanUpStaleUploads();
+  setInterval(cleanUpStaleUploads, CLEANUP_INTERVAL).unref();
+}
@@ -0,0 +1,116 @@
+import { spawn } from "child_process";
+import type { PhotoMetadata } from "./imageMetadata";
+
+// ffmpeg and ffprobe come from the system; without them videos still upload,
+// just without a poster frame or metadata
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+export type VideoMetadata = PhotoMetadata & { duration: number | null };
+
+// Runs a command and collects its stdout, failing on a non-zero exit
+function run(command: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "ignore"] });
+    const output: Buffer[] = [];
+    child.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        reject(new Error(`${command} exited with code ${code}`));
+      }
+    });
+  });
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+// Phones store the location as an ISO 6709 string such as "+48.8583+002.2945/"
+function parseIso6709(value: unknown): { latitude: number; longitude: number } | null {
+  const match = typeof value === "string" ? value.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)/) : null;
+  return match ? { latitude: parseFloat(match[1]), longitude: parseFloat(match[2]) } : null;
+}
+
+// Read the length, size, recording time and place of a video clip.
+// Like EXIF parsing this never fails an upload: unreadable metadata is left empty.
+export async function readVideoMetadata(filePath: string): Promise<VideoMetadata> {
+  const metadata: VideoMetadata = {
+    takenAt: null,
+    cameraMake: null,
+    cameraModel: null,
+    orientation: null,
+    width: null,
+    height: null,
+    latitude: null,
+    longitude: null,
+    duration: null,
+  };
+
+  try {
+    const output = await run(FFPROBE_PATH, [
+      "-v", "error",
+      "-print_format", "json",
+      "-show_format",
+      "-show_streams",
+      "-select_streams", "v:0",
+      filePath,
+    ]);
+    const probe = JSON.parse(output.toString("utf8"));
+    const stream = probe.streams?.[0] ?? {};
+    const tags = { ...probe.format?.tags, ...stream.tags };
+
+    metadata.duration = toNumber(probe.format?.duration ?? stream.duration);
+    metadata.width = toNumber(stream.width);
+    metadata.height = toNumber(stream.height);
+
+    // Portrait phone videos are stored sideways with a rotation tag
+    const rotation = Math.abs(toNumber(tags.rotate) ?? 0);
+    if (rotation === 90 || rotation === 270) {
+      [metadata.width, metadata.height] = [metadata.height, metadata.width];
+    }
+
+    const takenAt = tags["com.apple.quicktime.creationdate"] ?? tags.creation_time;
+    const date = typeof takenAt === "string" ? new Date(takenAt) : null;
+    metadata.takenAt = date && !isNaN(date.getTime()) ? date : null;
+
+    metadata.cameraMake = tags["com.apple.quicktime.make"] ?? null;
+    metadata.cameraModel = tags["com.apple.quicktime.model"] ?? null;
+
+    const location = parseIso6709(tags["com.apple.quicktime.location.ISO6709"] ?? tags.location);
+    if (location) {
+      metadata.latitude = location.latitude;
+      metadata.longitude = location.longitude;
+    }
+  } catch (error) {
+    console.error("Error reading video metadata:", error);
+  }
+
+  return metadata;
+}
+
+// Grab a frame a little way into the clip as a JPEG, to stand in for the video
+// wherever an image is shown. Returns null when no frame could be extracted.
+export async function extractPosterFrame(filePath: string, duration: number | null): Promise<Buffer | null> {
+  const offset = duration ? Math.min(1, duration / 2) : 0;
+  try {
+    const frame = await run(FFMPEG_PATH, [
+      "-v", "error",
+      "-ss", offset.toFixed(2),
+      "-i", filePath,
+      "-frames:v", "1",
+      "-f", "image2",
+      "-c:v", "mjpeg",
+      "-q:v", "3",
+      "pipe:1",
+    ]);
+    return frame.length > 0 ? frame : null;
+  } catch (error) {
+    console.error("Error extracting poster frame:", error);
+    return null;
+  }
+}
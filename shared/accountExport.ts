@@ -0,0 +1,117 @@
+import type { Collection, CollectionRole, MediaKind, PhotoOrder, PhotoReactionType } from "./schema";
+
+// A backup of everything a user can see: their profile, spaces, memories, photos and
+// comments. It is a ZIP with this layout, also described in the README.md inside it:
+//
+//   memri-export/account.json   the AccountArchive below
+//   memri-export/files/...      every stored file, named as on the server
+//
+// Ids in account.json are the ones from the server that made the archive. They only link
+// its records together; the importer gives everything new ids.
+export const ACCOUNT_ARCHIVE_FORMAT = "memri-account-export";
+export const ACCOUNT_ARCHIVE_VERSION = 1;
+export const ACCOUNT_ARCHIVE_FOLDER = "memri-export";
+
+// Someone who appears in the archive: the account itself, other members of its spaces
+// and memories, or the author of a comment or reaction. Matched by username on import.
+export interface ArchivedUser {
+  id: number;
+  username: string;
+  displayName: string;
+  // Path within the archive of an uploaded picture, or the URL it was set to
+  profilePicture: string | null;
+  createdAt: string | null;
+}
+
+export interface ArchivedSpace {
+  id: number;
+  name: string;
+  createdAt: string | null;
+  memberIds: number[];
+}
+
+export interface ArchivedCollection {
+  id: number;
+  spaceId: number | null;
+  // Who created the memory
+  userId: number | null;
+  name: string;
+  description: string | null;
+  type: Collection["type"];
+  memoryDate: string;
+  createdAt: string | null;
+  coverPhotoId: number | null;
+  coverFocusX: number | null;
+  coverFocusY: number | null;
+  photoOrder: PhotoOrder;
+  tags: string[];
+  // The collection_owners rows: everyone the memory is shared with and their role
+  members: { userId: number; role: CollectionRole; createdAt: string | null }[];
+}
+
+export interface ArchivedPhoto {
+  id: number;
+  collectionId: number;
+  title: string;
+  description: string | null;
+  // Paths within the archive. file is what the app shows; originalFile is the upload
+  // it was converted from, motionFile a Live Photo's clip and posterFile a video's frame.
+  file: string;
+  originalFile: string | null;
+  motionFile: string | null;
+  posterFile: string | null;
+  fileType: string;
+  mediaKind: MediaKind;
+  isLiked: boolean | null;
+  uploadedAt: string | null;
+  takenAt: string | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  orientation: number | null;
+  width: number | null;
+  height: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  duration: number | null;
+  contentHash: string | null;
+  perceptualHash: string | null;
+  position: number | null;
+  tags: string[];
+  reactions: { userId: number; reaction: PhotoReactionType; createdAt: string | null }[];
+}
+
+export interface ArchivedComment {
+  id: number;
+  photoId: number;
+  // Replies point at the comment they answer, which always comes earlier in the list
+  parentId: number | null;
+  userId: number | null;
+  content: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+  deletedAt: string | null;
+}
+
+export interface AccountArchive {
+  format: typeof ACCOUNT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  userId: number;
+  users: ArchivedUser[];
+  spaces: ArchivedSpace[];
+  collections: ArchivedCollection[];
+  photos: ArchivedPhoto[];
+  comments: ArchivedComment[];
+}
+
+// An export being built in the background; the archive can be downloaded once it is ready
+export interface AccountExportJob {
+  id: string;
+  userId: number;
+  status: "pending" | "ready" | "failed";
+  createdAt: string;
+  completedAt: string | null;
+  // Size of the finished archive in bytes
+  size: number | null;
+  error: string | null;
+}
@@ -0,0 +1,62 @@
+import type { Photo } from "./schema";
+
+// Photos whose perceptual hashes differ in at most this many of their 64 bits are
+// taken to be the same picture, e.g. a resized, re-encoded or lightly edited copy
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+// Number of bits that differ between two perceptual hashes (16 hex digits each)
+export function getHashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let bits = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (bits) {
+      bits &= bits - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+// Keys that any two hashes within NEAR_DUPLICATE_DISTANCE have at least one of in common,
+// so only photos sharing a key need comparing. A hash is 8 blocks of 2 hex digits; with at
+// most 6 bits differing, at least 2 blocks are the same, and the keys are every pair of blocks.
+export function getHashBuckets(hash: string): number[] {
+  const blocks: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    blocks.push(parseInt(hash.slice(i, i + 2), 16));
+  }
+
+  const buckets: number[] = [];
+  for (let a = 0; a < blocks.length; a++) {
+    for (let b = a + 1; b < blocks.length; b++) {
+      // Which pair of blocks, then their 16 bits
+      buckets.push((a * 8 + b) * 65536 + blocks[a] * 256 + blocks[b]);
+    }
+  }
+  return buckets;
+}
+
+// A photo already in one of the user's memories that an upload looks like
+export interface DuplicateMatch {
+  id: number;
+  title: string;
+  filePath: string;
+  collectionId: number;
+  collectionName: string;
+  // The same file, rather than a similar looking picture
+  exact: boolean;
+}
+
+// Returned alongside new photos so the uploader can be warned
+export interface DuplicateWarning {
+  photoId: number;
+  title: string;
+  matches: DuplicateMatch[];
+}
+
+// Photos that are copies of each other, for the duplicates review page
+export interface DuplicateGroup {
+  // Every photo in the group is the same file
+  exact: boolean;
+  photos: (Photo & { collectionName: string })[];
+}
@@ -0,0 +1,64 @@
+// Resized variants generated for every uploaded image, keyed by name with their maximum width
+export const IMAGE_VARIANTS = {
+  thumbnail: 320,
+  medium: 800,
+  large: 1600,
+} as const;
+
+export type ImageVariantSize = keyof typeof IMAGE_VARIANTS;
+export type ImageSize = ImageVariantSize | "original";
+
+export const IMAGE_SIZES: ImageSize[] = ["thumbnail", "medium", "large", "original"];
+
+export function isImageSize(value: unknown): value is ImageSize {
+  return typeof value === "string" && (IMAGE_SIZES as string[]).includes(value);
+}
+
+// Only files stored in /uploads have variants; anything else (placeholders, external URLs) is used as is
+function getUploadFileName(filePath: string): string | undefined {
+  return filePath.startsWith("/uploads/") ? filePath.slice("/uploads/".length) : undefined;
+}
+
+// URL that serves an uploaded image at the given size
+export function getImageUrl(filePath: string, size: ImageSize = "original"): string {
+  const fileName = getUploadFileName(filePath);
+  if (!fileName) {
+    return filePath;
+  }
+  return `/api/images/${encodeURIComponent(fileName)}?size=${size}`;
+}
+
+// srcset listing every variant of an uploaded image, for responsive <img> tags
+export function getImageSrcSet(filePath: string): string | undefined {
+  if (!getUploadFileName(filePath)) {
+    return undefined;
+  }
+  return (Object.keys(IMAGE_VARIANTS) as ImageVariantSize[])
+    .map(size => `${getImageUrl(filePath, size)} ${IMAGE_VARIANTS[size]}w`)
+    .join(", ");
+}
+
+// A point to keep in view (0-1 from the left and top) when an image is cropped to fit
+export interface FocusPoint {
+  x: number;
+  y: number;
+}
+
+// CSS object-position for a focus point; centred when there isn't one
+export function getObjectPosition(focus?: FocusPoint | null): string {
+  if (!focus) {
+    return "50% 50%";
+  }
+  return `${Math.round(focus.x * 100)}% ${Math.round(focus.y * 100)}%`;
+}
+
+// The saved focus point for a memory's cover, if the given photo is that cover
+export function getCoverFocus(
+  collection: { coverPhotoId: number | null; coverFocusX: number | null; coverFocusY: number | null } | undefined,
+  photoId: number
+): FocusPoint | null {
+  if (!collection || collection.coverPhotoId !== photoId || collection.coverFocusX === null || collection.coverFocusY === null) {
+    return null;
+  }
+  return { x: collection.coverFocusX, y: collection.coverFocusY };
+}
@@ -0,0 +1,26 @@
+// Past memories resurfaced on the anniversary of their day
+export interface OnThisDayCollection {
+  id: number;
+  name: string;
+  description: string | null;
+  memoryDate: string;
+  thumbnailUrl: string | null;
+  yearsAgo: number;
+}
+
+export interface OnThisDayPhoto {
+  id: number;
+  title: string;
+  filePath: string;
+  collectionId: number;
+  collectionName: string;
+  takenAt: string;
+  yearsAgo: number;
+}
+
+export interface OnThisDayResponse {
+  date: string; // YYYY-MM-DD the lookup was made for
+  includeWeek: boolean;
+  collections: OnThisDayCollection[];
+  photos: OnThisDayPhoto[];
+}
@@ -0,0 +1,9 @@
+// WebSocket endpoint that pushes changes to signed-in clients
+export const REALTIME_PATH = "/api/realtime";
+
+// Events only say what changed; clients refetch the data they show
+export type RealtimeEvent =
+  | { type: "collection"; action: "created" | "updated" | "deleted"; collectionId: number }
+  | { type: "photo"; action: "created" | "updated" | "deleted" | "reacted"; collectionId: number; photoId: number }
+  | { type: "comment"; action: "created" | "updated" | "deleted"; collectionId: number; photoId: number; commentId: number }
+  | { type: "notification" };
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, unique } from "drizzle-orm/pg-core";
+import { pgTable, type AnyPgColumn, text, serial, integer, boolean, timestamp, date, doublePrecision, pgEnum, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,6 +12,35 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Spaces group the people who share memories, like a couple or a family
+export const spaces = pgTable("spaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const spaceMembers = pgTable("space_members", {
+  id: serial("id").primaryKey(),
+  spaceId: integer("space_id").notNull().references(() => spaces.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueSpaceUser: unique().on(table.spaceId, table.userId),
+}));
+
+// One-time codes used to join a space
+export const spaceInvites = pgTable("space_invites", {
+  id: serial("id").primaryKey(),
+  spaceId: integer("space_id").notNull().references(() => spaces.id, { onDelete: "cascade" }),
+  code: text("code").notNull().unique(),
+  createdBy: integer("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedBy: integer("used_by").references(() => users.id, { onDelete: "set null" }),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const collectionEnum = pgEnum("collection_type", [
   "nature",
   "travels",
@@ -19,24 +48,71 @@ export const collectionEnum = pgEnum("collection_type", [
   "custom"
 ]);
 
+// How a memory orders its photos: dragged into place, by capture time or by upload time
+export const photoOrderEnum = pgEnum("photo_order", [
+  "manual",
+  "taken",
+  "uploaded"
+]);
+
 export const collections = pgTable("collections", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
   type: collectionEnum("type").notNull().default("custom"),
   userId: integer("user_id").references(() => users.id), // Keep for backward compatibility
+  spaceId: integer("space_id").references(() => spaces.id, { onDelete: "cascade" }),
+  memoryDate: date("memory_date", { mode: "string" }).notNull().defaultNow(), // The day the memory happened (YYYY-MM-DD)
   createdAt: timestamp("created_at").defaultNow(),
+  // Photo shown on the memory's card; falls back to the latest upload when unset
+  coverPhotoId: integer("cover_photo_id").references((): AnyPgColumn => photos.id, { onDelete: "set null" }),
+  // Point of the cover (0-1 from the left and top) kept in view when it is cropped
+  coverFocusX: doublePrecision("cover_focus_x"),
+  coverFocusY: doublePrecision("cover_focus_y"),
+  photoOrder: photoOrderEnum("photo_order").notNull().default("taken"),
+  // Set when the memory is moved to the trash; purged for good after the retention period
+  deletedAt: timestamp("deleted_at"),
 });
 
+export const collectionRoleEnum = pgEnum("collection_role", [
+  "owner",
+  "editor",
+  "viewer"
+]);
+
+export const invitationStatusEnum = pgEnum("invitation_status", [
+  "pending",
+  "accepted",
+  "declined"
+]);
+
 export const collectionOwners = pgTable("collection_owners", {
   id: serial("id").primaryKey(),
   collectionId: integer("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: collectionRoleEnum("role").notNull().default("owner"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
   uniqueCollectionUser: unique().on(table.collectionId, table.userId),
 }));
 
+// Invitations to share a collection with a specific user
+export const collectionInvitations = pgTable("collection_invitations", {
+  id: serial("id").primaryKey(),
+  collectionId: integer("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
+  inviterId: integer("inviter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  inviteeId: integer("invitee_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: collectionRoleEnum("role").notNull().default("viewer"),
+  status: invitationStatusEnum("status").notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+}, (table) => ({
+  uniqueCollectionInvitee: unique().on(table.collectionId, table.inviteeId),
+}));
+
+// Stills, video clips, and Live Photos (a still with a short motion clip)
+export const mediaKindEnum = pgEnum("media_kind", ["image", "video", "live"]);
+
 export const photos = pgTable("photos", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -44,19 +120,112 @@ export const photos = pgTable("photos", {
   fileName: text("file_name").notNull(),
   fileType: text("file_type").notNull(),
   filePath: text("file_path").notNull(),
+  // Legacy shared like flag; per-user likes are "heart" rows in photo_reactions
   isLiked: boolean("is_liked").default(false),
   collectionId: integer("collection_id").references(() => collections.id),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
+  // Read from EXIF at upload time
+  takenAt: timestamp("taken_at"),
+  cameraMake: text("camera_make"),
+  cameraModel: text("camera_model"),
+  orientation: integer("orientation"),
+  width: integer("width"),
+  height: integer("height"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  mediaKind: mediaKindEnum("media_kind").notNull().default("image"),
+  // Motion clip of a Live Photo
+  motionPath: text("motion_path"),
+  // The file as uploaded, when it had to be converted for display (HEIC photos become JPEGs)
+  originalPath: text("original_path"),
+  // Length in seconds of a video or motion clip
+  duration: doublePrecision("duration"),
+  // SHA-256 of the file as uploaded, to spot exact duplicates
+  contentHash: text("content_hash"),
+  // Difference hash of the picture (16 hex digits), to spot resized or re-encoded copies
+  perceptualHash: text("perceptual_hash"),
+  // Place in its memory's manual order; photos without one follow the ordered ones by capture time
+  position: integer("position"),
+  // Set when the photo is moved to the trash; purged for good after the retention period
+  deletedAt: timestamp("deleted_at"),
 });
 
+// Reactions a user can leave on a photo; "heart" is the like
+export const photoReactionEnum = pgEnum("photo_reaction", ["heart", "laugh", "love", "wow", "sad"]);
+
+// Per-user reactions on photos. A user can leave each reaction once per photo.
+export const photoReactions = pgTable("photo_reactions", {
+  id: serial("id").primaryKey(),
+  photoId: integer("photo_id").notNull().references(() => photos.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reaction: photoReactionEnum("reaction").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniquePhotoUserReaction: unique().on(table.photoId, table.userId, table.reaction),
+}));
+
+// Free-form tags, shared by everyone in a space
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  spaceId: integer("space_id").notNull().references(() => spaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Normalized: trimmed, lowercase, single spaces
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueSpaceName: unique().on(table.spaceId, table.name),
+}));
+
+export const photoTags = pgTable("photo_tags", {
+  id: serial("id").primaryKey(),
+  photoId: integer("photo_id").notNull().references(() => photos.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => ({
+  uniquePhotoTag: unique().on(table.photoId, table.tagId),
+}));
+
+export const collectionTags = pgTable("collection_tags", {
+  id: serial("id").primaryKey(),
+  collectionId: integer("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => ({
+  uniqueCollectionTag: unique().on(table.collectionId, table.tagId),
+}));
+
 // Comments table for photo-level comments
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
   content: text("content").notNull(),
   photoId: integer("photo_id").references(() => photos.id, { onDelete: "cascade" }),
   userId: integer("user_id").references(() => users.id),
+  // Replies point at the comment they answer; top-level comments have no parent
+  parentId: integer("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  // Set when a comment with replies is deleted, so the thread keeps a placeholder
+  deletedAt: timestamp("deleted_at"),
+});
+
+// What a notification is about
+export const notificationTypeEnum = pgEnum("notification_type", [
+  "comment",             // someone commented on a photo in a memory you're part of
+  "reply",               // someone replied to your comment
+  "photos_added",        // someone added photos to a memory you're part of
+  "invitation",          // someone invited you to a memory
+  "invitation_accepted", // someone accepted your invitation
+]);
+
+// In-app notifications for a single recipient
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  type: notificationTypeEnum("type").notNull(),
+  collectionId: integer("collection_id").references(() => collections.id, { onDelete: "cascade" }),
+  photoId: integer("photo_id").references(() => photos.id, { onDelete: "cascade" }),
+  commentId: integer("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+  // Photos uploaded in one go are grouped into a single notification
+  count: integer("count").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  readAt: timestamp("read_at"),
 });
 
 // Sessions table for database-based session storage
@@ -87,11 +256,62 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const registerSchema = z.object({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username can only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  displayName: z.string().trim().min(1, "Display name is required").max(64),
+  inviteCode: z.string().trim().toUpperCase().optional(),
+  spaceName: z.string().trim().max(64).optional(),
+});
+
+export const insertSpaceSchema = createInsertSchema(spaces).pick({
+  name: true,
+});
+
+export const joinSpaceSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1, "Invite code is required"),
+});
+
+// The day a memory happened, as YYYY-MM-DD; calendar grouping, sorting and on this day rely on it
+const memoryDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in the format YYYY-MM-DD")
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Date does not exist");
+
 export const insertCollectionSchema = createInsertSchema(collections).pick({
   name: true,
   description: true,
   type: true,
   userId: true,
+  spaceId: true,
+  memoryDate: true,
+  photoOrder: true,
+}).extend({
+  memoryDate: memoryDateSchema.optional(),
+});
+
+// What editors may change on a memory; spaceId moves it to another space, which only owners can do
+export const updateCollectionSchema = insertCollectionSchema.pick({
+  name: true,
+  description: true,
+  memoryDate: true,
+  photoOrder: true,
+}).partial().extend({
+  spaceId: z.number().int().positive().optional(),
+});
+
+export const inviteToCollectionSchema = z.object({
+  userId: z.number().int().positive("User is required"),
+  role: z.enum(["editor", "viewer"]),
+});
+
+export const updateCollectionMemberSchema = z.object({
+  role: z.enum(collectionRoleEnum.enumValues),
 });
 
 export const insertPhotoSchema = createInsertSchema(photos).pick({
@@ -103,30 +323,163 @@ export const insertPhotoSchema = createInsertSchema(photos).pick({
   isLiked: true,
   collectionId: true,
   uploadedAt: true,
+  takenAt: true,
+  cameraMake: true,
+  cameraModel: true,
+  orientation: true,
+  width: true,
+  height: true,
+  latitude: true,
+  longitude: true,
+  mediaKind: true,
+  motionPath: true,
+  originalPath: true,
+  duration: true,
+  contentHash: true,
+  perceptualHash: true,
+});
+
+// What a user may change on a photo; files and the metadata read from them are set on upload.
+// Moves go through transferPhotosSchema and likes are reactions.
+export const updatePhotoSchema = insertPhotoSchema.pick({
+  title: true,
+  description: true,
+}).partial();
+
+// Acting on several selected photos at once
+export const batchPhotosSchema = z.object({
+  photoIds: z.array(z.number().int().positive()).min(1, "Select at least one photo").max(100, "At most 100 photos can be changed at once"),
+});
+
+// Starting a chunked photo upload into a memory
+export const initUploadSchema = z.object({
+  collectionId: z.number().int().positive(),
+  livePhotoId: z.number().int().positive().optional(),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullish(),
+  fileName: z.string().trim().min(1).max(255),
+  fileType: z.string().min(1),
+  size: z.number().int().positive(),
+});
+
+// Moving or copying photos into another memory
+export const transferPhotosSchema = batchPhotosSchema.extend({
+  collectionId: z.number().int().positive(),
+});
+
+// Choosing a memory's cover photo; null goes back to the latest upload
+export const updateCoverSchema = z.object({
+  photoId: z.number().int().positive().nullable(),
+  focusX: z.number().min(0).max(1).optional(),
+  focusY: z.number().min(0).max(1).optional(),
+});
+
+// The full new order of a memory's photos, first to last
+export const reorderPhotosSchema = z.object({
+  photoIds: z.array(z.number().int().positive()).min(1, "There are no photos to order"),
+});
+
+// Keeping one of a set of duplicate photos; the others move to the trash
+export const mergeDuplicatesSchema = z.object({
+  keepPhotoId: z.number().int().positive(),
+  photoIds: z.array(z.number().int().positive()).min(1, "Select the duplicates to merge").max(100, "At most 100 photos can be merged at once"),
+});
+
+export const batchLikePhotosSchema = batchPhotosSchema.extend({
+  liked: z.boolean(),
+});
+
+export const photoReactionSchema = z.object({
+  reaction: z.enum(photoReactionEnum.enumValues),
 });
 
 export const insertCommentSchema = createInsertSchema(comments).pick({
   content: true,
   photoId: true,
   userId: true,
+  parentId: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
+export type RegisterRequest = z.infer<typeof registerSchema>;
 export type User = typeof users.$inferSelect;
 
+export type InsertSpace = typeof spaces.$inferInsert;
+export type Space = typeof spaces.$inferSelect;
+export type SpaceMember = typeof spaceMembers.$inferSelect;
+export type InsertSpaceInvite = typeof spaceInvites.$inferInsert;
+export type SpaceInvite = typeof spaceInvites.$inferSelect;
+
 export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+export type UpdateCollectionRequest = z.infer<typeof updateCollectionSchema>;
 export type Collection = typeof collections.$inferSelect;
 
 export type CollectionOwner = typeof collectionOwners.$inferSelect;
 export type InsertCollectionOwner = typeof collectionOwners.$inferInsert;
+export type CollectionRole = typeof collectionRoleEnum.enumValues[number];
+
+export type CollectionInvitation = typeof collectionInvitations.$inferSelect;
+export type InsertCollectionInvitation = typeof collectionInvitations.$inferInsert;
+export type InviteToCollectionRequest = z.infer<typeof inviteToCollectionSchema>;
 
 export type InsertPhoto = z.infer<typeof insertPhotoSchema>;
+export type UpdatePhotoRequest = z.infer<typeof updatePhotoSchema>;
 export type Photo = typeof photos.$inferSelect;
+export type MediaKind = typeof mediaKindEnum.enumValues[number];
+
+export type BatchPhotosRequest = z.infer<typeof batchPhotosSchema>;
+export type InitUploadRequest = z.infer<typeof initUploadSchema>;
+export type TransferPhotosRequest = z.infer<typeof transferPhotosSchema>;
+export type BatchLikePhotosRequest = z.infer<typeof batchLikePhotosSchema>;
+export type UpdateCoverRequest = z.infer<typeof updateCoverSchema>;
+export type ReorderPhotosRequest = z.infer<typeof reorderPhotosSchema>;
+export type MergeDuplicatesRequest = z.infer<typeof mergeDuplicatesSchema>;
+export type PhotoOrder = typeof photoOrderEnum.enumValues[number];
+
+export type PhotoReactionType = typeof photoReactionEnum.enumValues[number];
+export type PhotoReaction = typeof photoReactions.$inferSelect;
 
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 export type Comment = typeof comments.$inferSelect;
 
+export const updateNotificationSchema = z.object({
+  read: z.boolean(),
+});
+
+export type NotificationType = typeof notificationTypeEnum.enumValues[number];
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+export const tagNameSchema = z.string()
+  .transform(name => name.trim().toLowerCase().replace(/\s+/g, " "))
+  .pipe(z.string().min(1, "Tag cannot be empty").max(32, "Tags must be at most 32 characters"));
+
+export const updateTagsSchema = z.object({
+  tags: z.array(tagNameSchema).max(20, "At most 20 tags are allowed"),
+});
+
+// Adds tags to every selected photo, keeping the ones they already have
+export const batchTagPhotosSchema = batchPhotosSchema.extend({
+  tags: z.array(tagNameSchema).min(1, "Add at least one tag").max(20, "At most 20 tags are allowed"),
+});
+
+export type Tag = typeof tags.$inferSelect;
+export type TagWithUsage = Tag & { photoCount: number; collectionCount: number };
+
 export type Session = typeof sessions.$inferSelect;
 export type InsertSession = typeof sessions.$inferInsert;
+
+// Roles are ordered: an owner can do everything an editor can, and an editor
+// everything a viewer can
+const collectionRoleRank: Record<CollectionRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function hasCollectionRole(role: CollectionRole | null | undefined, requiredRole: CollectionRole): boolean {
+  if (!role) return false;
+  return collectionRoleRank[role] >= collectionRoleRank[requiredRole];
+}
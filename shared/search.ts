@@ -0,0 +1,22 @@
+// Search highlights wrap matched words in these markers. They are control
+// characters so they can't clash with user text, and clients render them as <mark>.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export type SearchResultType = "collection" | "photo" | "comment";
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  rank: number;
+  title: string;
+  highlight: string;
+  collectionId: number;
+  collectionName: string;
+  photoId: number | null;
+  filePath: string | null;
+  // Who wrote the comment, for comment results
+  authorName: string | null;
+  // Day of the memory the result belongs to
+  memoryDate: string;
+}
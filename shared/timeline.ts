@@ -0,0 +1,34 @@
+// A memory as shown on the timeline: counts and a few preview photos, not every photo
+export interface TimelineCollection {
+  id: number;
+  name: string;
+  description: string | null;
+  memoryDate: string;
+  photoCount: number;
+  previewPhotos: { id: number; filePath: string; title: string }[];
+}
+
+export interface TimelineMonth {
+  month: string; // YYYY-MM
+  collectionCount: number;
+  photoCount: number;
+  collections: TimelineCollection[];
+}
+
+// Every month that has memories, newest first, for the year scrubber
+export interface TimelineMonthSummary {
+  month: string; // YYYY-MM
+  collectionCount: number;
+  photoCount: number;
+}
+
+export interface TimelinePage {
+  months: TimelineMonth[];
+  // Month to pass as ?from= to load the next (older) page, or null at the end
+  nextCursor: string | null;
+  summary: TimelineMonthSummary[];
+}
+
+export function isTimelineMonth(value: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
@@ -0,0 +1,19 @@
+import type { Collection, Photo } from "./schema";
+
+// Deleted memories and photos waiting to be restored or purged
+export type TrashedCollection = Collection & {
+  thumbnailUrl: string | null;
+  photoCount: number;
+  purgeAt: string; // ISO timestamp when it will be removed for good
+};
+
+export type TrashedPhoto = Photo & {
+  collectionName: string;
+  purgeAt: string;
+};
+
+export interface TrashResponse {
+  retentionDays: number;
+  collections: TrashedCollection[];
+  photos: TrashedPhoto[];
+}
@@ -0,0 +1,65 @@
+// HEIC and HEIF photos from iPhones, converted to JPEG on upload because browsers can't show them
+export const HEIC_UPLOAD_TYPES = ['image/heic', 'image/heif'];
+
+// Pictures browsers show as they are, which profile pictures are limited to
+export const WEB_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+
+// Image types that can be uploaded as photos
+export const IMAGE_UPLOAD_TYPES = [...WEB_IMAGE_TYPES, ...HEIC_UPLOAD_TYPES];
+
+// Short clips (MP4, WebM and the MOV files phones record) that play in a memory
+export const VIDEO_UPLOAD_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+export const ALLOWED_UPLOAD_TYPES = [...IMAGE_UPLOAD_TYPES, ...VIDEO_UPLOAD_TYPES];
+
+export function isVideoType(mimeType: string): boolean {
+  return VIDEO_UPLOAD_TYPES.includes(mimeType);
+}
+
+export function isHeicType(mimeType: string): boolean {
+  return HEIC_UPLOAD_TYPES.includes(mimeType);
+}
+
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mov: 'video/quicktime',
+};
+
+// Most browsers outside Safari don't know the HEIC type and report an empty or generic one,
+// so for those files the type is taken from the extension
+export function getUploadType(fileName: string, mimeType: string): string {
+  if (ALLOWED_UPLOAD_TYPES.includes(mimeType)) {
+    return mimeType;
+  }
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return TYPES_BY_EXTENSION[extension] ?? mimeType;
+}
+
+// File extensions the upload dropzones accept, by MIME type
+export const UPLOAD_ACCEPT = {
+  'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.webp', '.heic', '.heif'],
+  'video/*': ['.mp4', '.webm', '.mov'],
+};
+
+// Size of each part of a chunked upload; the last part may be smaller
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// A chunked upload in progress. Parts can arrive in any order and be sent again,
+// so an interrupted upload resumes by sending the parts not yet in receivedChunks.
+export interface UploadSession {
+  id: string;
+  userId: number;
+  collectionId: number;
+  // Set when the file is the motion clip of a Live Photo already uploaded as this photo
+  livePhotoId: number | null;
+  title: string;
+  description: string | null;
+  fileName: string;
+  fileType: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  createdAt: string; // ISO timestamp
+}